@@ -0,0 +1,249 @@
+import { appendFile, readFile } from 'node:fs/promises';
+import { runPipeline } from './pipeline.js';
+import { CancelledError } from './errors.js';
+import type { GatewayClientOptions } from './client.js';
+import type { PorReport } from './types.js';
+
+export interface BatchEntry {
+  /** Stable key used to match results across reruns; defaults to the query */
+  id: string;
+  query: string;
+  strict_mode?: boolean;
+  collectors?: string[];
+  include_raw_content?: boolean;
+}
+
+export interface BatchResult {
+  id: string;
+  query: string;
+  /** `cancelled` when the batch was interrupted before the market finished */
+  status: 'ok' | 'error' | 'cancelled';
+  report?: Omit<PorReport, 'raw'>;
+  error?: string;
+  started_at: string;
+  finished_at: string;
+}
+
+export interface BatchOptions {
+  code: string;
+  concurrency?: number;
+  /** Results are appended here as JSONL as each market finishes */
+  outputPath?: string;
+  /** Defaults applied to entries that do not override them */
+  strict_mode?: boolean;
+  collectors?: string[];
+  include_raw_content?: boolean;
+  clientOptions?: GatewayClientOptions;
+  onResult?: (result: BatchResult) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Parse a JSONL batch file. Each line is either a JSON string (the query) or
+ * an object with `query` and optional `id`, `strict_mode`, `collectors` and
+ * `include_raw_content` overrides. Blank lines and `#` comments are ignored.
+ */
+export function parseBatchInput(text: string): BatchEntry[] {
+  const entries: BatchEntry[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1} of batch input`);
+    }
+
+    if (typeof parsed === 'string') {
+      entries.push({ id: parsed, query: parsed });
+      continue;
+    }
+
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error(`Line ${i + 1} of batch input must be a string or an object`);
+    }
+    const p = parsed as Record<string, unknown>;
+    if (typeof p.query !== 'string' || !p.query) {
+      throw new Error(`Line ${i + 1} of batch input is missing "query"`);
+    }
+    const collectors = typeof p.collectors === 'string' ? p.collectors.split(',') : p.collectors;
+    if (collectors !== undefined && !Array.isArray(collectors)) {
+      throw new Error(`Line ${i + 1} of batch input has invalid "collectors"`);
+    }
+
+    entries.push({
+      id: typeof p.id === 'string' || typeof p.id === 'number' ? String(p.id) : p.query,
+      query: p.query,
+      strict_mode: typeof p.strict_mode === 'boolean' ? p.strict_mode : undefined,
+      collectors: collectors as string[] | undefined,
+      include_raw_content:
+        typeof p.include_raw_content === 'boolean' ? p.include_raw_content : undefined,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Read the ids of markets that already resolved successfully in an output file.
+ * Failed results are not counted, so a rerun retries them.
+ */
+export async function loadCompletedIds(outputPath: string): Promise<Set<string>> {
+  let text: string;
+  try {
+    text = await readFile(outputPath, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Set();
+    throw err;
+  }
+
+  const ids = new Set<string>();
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const result = JSON.parse(line) as Partial<BatchResult>;
+      if (result.status === 'ok' && typeof result.id === 'string') {
+        ids.add(result.id);
+      }
+    } catch {
+      // Ignore a truncated trailing line from an interrupted run
+    }
+  }
+  return ids;
+}
+
+async function resolveEntry(entry: BatchEntry, options: BatchOptions): Promise<BatchResult> {
+  const startedAt = new Date().toISOString();
+  try {
+    const { raw: _raw, ...report } = await runPipeline(
+      {
+        query: entry.query,
+        code: options.code,
+        strict_mode: entry.strict_mode ?? options.strict_mode,
+        collectors: entry.collectors ?? options.collectors,
+        include_raw_content: entry.include_raw_content ?? options.include_raw_content,
+      },
+      options.clientOptions,
+    );
+    return {
+      id: entry.id,
+      query: entry.query,
+      status: 'ok',
+      report,
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+    };
+  } catch (err) {
+    return {
+      id: entry.id,
+      query: entry.query,
+      status: err instanceof CancelledError ? 'cancelled' : 'error',
+      error: err instanceof Error ? err.message : String(err),
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Resolve many markets with at most `concurrency` pipelines in flight.
+ * A failing market is recorded as an error result and does not stop the rest.
+ * Entries already resolved in `outputPath` are skipped. Once the client
+ * signal aborts, no new market starts and every unfinished one is returned as
+ * `cancelled`; those are not written to `outputPath`, so a rerun resolves them.
+ */
+export async function runBatch(
+  entries: BatchEntry[],
+  options: BatchOptions,
+): Promise<{ results: BatchResult[]; skipped: BatchEntry[] }> {
+  const completed = options.outputPath
+    ? await loadCompletedIds(options.outputPath)
+    : new Set<string>();
+  const pending = entries.filter(e => !completed.has(e.id));
+  const skipped = entries.filter(e => completed.has(e.id));
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+
+  const results: BatchResult[] = [];
+  // Serialize appends so lines from concurrent workers never interleave
+  let writes: Promise<void> = Promise.resolve();
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    // After cancellation, finish nothing new; unresolved entries run again next time
+    while (next < pending.length && !options.clientOptions?.signal?.aborted) {
+      const entry = pending[next++];
+      const result = await resolveEntry(entry, options);
+      results.push(result);
+      if (options.outputPath && result.status !== 'cancelled') {
+        const outputPath = options.outputPath;
+        writes = writes.then(() => appendFile(outputPath, JSON.stringify(result) + '\n'));
+        await writes;
+      }
+      options.onResult?.(result);
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, pending.length) }, () => worker()),
+  );
+  if (options.clientOptions?.signal?.aborted) {
+    const now = new Date().toISOString();
+    for (const entry of pending.slice(next)) {
+      const result: BatchResult = {
+        id: entry.id,
+        query: entry.query,
+        status: 'cancelled',
+        error: 'Interrupted before it started',
+        started_at: now,
+        finished_at: now,
+      };
+      results.push(result);
+      options.onResult?.(result);
+    }
+  }
+
+  // Report in input order regardless of completion order
+  const order = new Map(pending.map((e, i) => [e.id, i]));
+  results.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+  return { results, skipped };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+export function formatBatchSummary(results: BatchResult[], skipped: number = 0): string {
+  const lines: string[] = [];
+  const failed = results.filter(r => r.status === 'error').length;
+  const cancelled = results.filter(r => r.status === 'cancelled').length;
+
+  lines.push('| ID | Outcome | Confidence | Status |');
+  lines.push('|---|---|---|---|');
+  for (const r of results) {
+    const id = truncate(r.id, 60).replace(/\|/g, '\\|');
+    if (r.status === 'ok' && r.report) {
+      const confidence = `${(r.report.confidence * 100).toFixed(1)}%`;
+      lines.push(`| ${id} | ${r.report.outcome} | ${confidence} | ok |`);
+    } else if (r.status === 'cancelled') {
+      lines.push(`| ${id} | - | - | cancelled |`);
+    } else {
+      const error = truncate(r.error ?? 'unknown error', 80).replace(/\|/g, '\\|');
+      lines.push(`| ${id} | - | - | error: ${error} |`);
+    }
+  }
+
+  lines.push('');
+  const resolved = results.length - failed - cancelled;
+  const cancelledNote = cancelled > 0 ? `${cancelled} cancelled, ` : '';
+  lines.push(
+    `${resolved} resolved, ${failed} failed, ${cancelledNote}${skipped} skipped (already in output)`,
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,124 @@
+import { mkdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { canonicalize, sha256Hex } from './canonical.js';
+import { writeJsonAtomic } from './checkpoint.js';
+import { cacheDir } from './paths.js';
+
+/**
+ * Content-addressed cache of successful gateway responses, keyed by path,
+ * method and canonical payload. The access code is never part of the key or
+ * the stored entry. Expiry is checked on read against the current TTLs, so
+ * changing a TTL applies to entries already stored.
+ */
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Per-path TTLs in ms; paths not listed are never cached */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  '/step/prompt': 7 * DAY,
+  '/step/collect': 10 * MINUTE,
+  '/step/audit': DAY,
+  '/step/judge': DAY,
+  '/step/bundle': DAY,
+  '/capabilities': HOUR,
+};
+
+export interface CacheOptions {
+  /** Defaults to cacheDir() */
+  dir?: string;
+  /** Overrides merged over DEFAULT_CACHE_TTLS; 0 disables caching for a path */
+  ttls?: Record<string, number>;
+  /** Paths that skip the lookup and store a fresh response */
+  refresh?: string[];
+  now?: () => number;
+}
+
+interface CacheEntry {
+  path: string;
+  method: string;
+  stored_at: number;
+  response: unknown;
+}
+
+export interface CachedResponse {
+  response: unknown;
+  age_ms: number;
+}
+
+/** True when a step response carries errors of its own; those are not cached */
+function reportsErrors(response: unknown): boolean {
+  const data = typeof response === 'object' && response !== null && 'data' in response
+    ? (response as { data: unknown }).data
+    : response;
+  const errors = typeof data === 'object' && data !== null
+    ? (data as { errors?: unknown }).errors
+    : undefined;
+  return Array.isArray(errors) && errors.length > 0;
+}
+
+export class ResponseCache {
+  private dir: string;
+  private ttls: Record<string, number>;
+  private refreshPaths: Set<string>;
+  private now: () => number;
+
+  constructor(options: CacheOptions = {}) {
+    this.dir = options.dir ?? cacheDir();
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+    this.refreshPaths = new Set(options.refresh);
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Hash of path, method and canonical payload */
+  static key(path: string, method: string, payload: unknown): string {
+    return sha256Hex(canonicalize({ path, method, payload })).slice(2);
+  }
+
+  /** Whether responses for this path are cached at all */
+  caches(path: string): boolean {
+    return (this.ttls[path] ?? 0) > 0;
+  }
+
+  refreshes(path: string): boolean {
+    return this.refreshPaths.has(path);
+  }
+
+  /** A copy with extra refresh paths, e.g. for steps that must run fresh */
+  withRefresh(paths: string[]): ResponseCache {
+    return new ResponseCache({
+      dir: this.dir,
+      ttls: this.ttls,
+      refresh: [...this.refreshPaths, ...paths],
+      now: this.now,
+    });
+  }
+
+  private file(path: string, method: string, payload: unknown): string {
+    return join(this.dir, `${ResponseCache.key(path, method, payload)}.json`);
+  }
+
+  /** The stored response if present and younger than the path's TTL */
+  async get(path: string, method: string, payload: unknown): Promise<CachedResponse | undefined> {
+    if (!this.caches(path)) return undefined;
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(this.file(path, method, payload), 'utf8')) as CacheEntry;
+    } catch {
+      // Missing or unreadable entries are misses
+      return undefined;
+    }
+    const age = this.now() - entry.stored_at;
+    if (age < 0 || age >= this.ttls[path]) return undefined;
+    return { response: entry.response, age_ms: age };
+  }
+
+  /** Store a successful response; responses reporting step errors are skipped */
+  async set(path: string, method: string, payload: unknown, response: unknown): Promise<void> {
+    if (!this.caches(path) || reportsErrors(response)) return;
+    await mkdir(this.dir, { recursive: true });
+    const entry: CacheEntry = { path, method, stored_at: this.now(), response };
+    await writeJsonAtomic(this.file(path, method, payload), entry);
+  }
+}
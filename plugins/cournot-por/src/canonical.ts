@@ -0,0 +1,30 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Serialize a JSON value deterministically: object keys are sorted, no
+ * whitespace is emitted and `undefined` members are dropped, so two equal
+ * values always produce the same bytes.
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(v => canonicalize(v)).join(',')}]`;
+  }
+
+  const obj = value as Record<string, unknown>;
+  const entries = Object.keys(obj)
+    .sort()
+    .filter(key => obj[key] !== undefined)
+    .map(key => `${JSON.stringify(key)}:${canonicalize(obj[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * SHA-256 of the given bytes as a `0x`-prefixed lowercase hex string.
+ */
+export function sha256Hex(data: string | Buffer): string {
+  return '0x' + createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,147 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DEFAULT_COLLECTORS } from './pipeline.js';
+import type { PipelineOptions, SampleScope, StepName } from './types.js';
+
+/**
+ * Inputs that determine a run's step results. A run may only be resumed
+ * with the same inputs it was started with.
+ */
+export interface RunInputs {
+  query: string;
+  strict_mode: boolean;
+  collectors: string[];
+  include_raw_content: boolean;
+  consensus_groups?: string[][];
+  samples?: number;
+  sample_scope?: SampleScope;
+}
+
+interface RunManifest {
+  run_id: string;
+  created_at: string;
+  inputs: RunInputs;
+}
+
+const MANIFEST_FILE = 'run.json';
+
+export function resolveRunInputs(options: PipelineOptions): RunInputs {
+  return {
+    query: options.query,
+    strict_mode: options.strict_mode ?? false,
+    collectors: options.collectors ?? DEFAULT_COLLECTORS,
+    include_raw_content: options.include_raw_content ?? false,
+    consensus_groups: options.consensus_groups,
+    samples: options.samples,
+    sample_scope: options.sample_scope,
+  };
+}
+
+export function newRunId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+function diffInputs(stored: RunInputs, current: RunInputs): string[] {
+  const changed: string[] = [];
+  for (const key of Object.keys(current) as (keyof RunInputs)[]) {
+    if (JSON.stringify(stored[key]) !== JSON.stringify(current[key])) {
+      changed.push(key);
+    }
+  }
+  return changed;
+}
+
+let tmpCounter = 0;
+
+/**
+ * Write JSON through a temp file and a rename, so readers never see a partial
+ * file. Each write gets its own temp file, so concurrent writes to one path
+ * cannot rename each other's.
+ */
+export async function writeJsonAtomic(path: string, data: unknown): Promise<void> {
+  const tmp = `${path}.${process.pid}.${++tmpCounter}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2) + '\n');
+  await rename(tmp, path);
+}
+
+/**
+ * Persists each parsed step response to `<baseDir>/<runId>/<step>.json` as
+ * the pipeline progresses, so a failed run can be resumed from the first
+ * missing step. Repeated steps (consensus groups, samples) go to
+ * `<step>.<branch>.json`.
+ */
+export class RunCheckpoint {
+  readonly runId: string;
+  readonly dir: string;
+
+  private constructor(baseDir: string, runId: string) {
+    this.runId = runId;
+    this.dir = join(baseDir, runId);
+  }
+
+  static async create(
+    baseDir: string,
+    inputs: RunInputs,
+    runId: string = newRunId(),
+  ): Promise<RunCheckpoint> {
+    const checkpoint = new RunCheckpoint(baseDir, runId);
+    await mkdir(checkpoint.dir, { recursive: true });
+    const manifest: RunManifest = {
+      run_id: runId,
+      created_at: new Date().toISOString(),
+      inputs,
+    };
+    await writeJsonAtomic(join(checkpoint.dir, MANIFEST_FILE), manifest);
+    return checkpoint;
+  }
+
+  static async resume(
+    baseDir: string,
+    runId: string,
+    inputs: RunInputs,
+  ): Promise<RunCheckpoint> {
+    const checkpoint = new RunCheckpoint(baseDir, runId);
+    let manifest: RunManifest;
+    try {
+      manifest = JSON.parse(
+        await readFile(join(checkpoint.dir, MANIFEST_FILE), 'utf8'),
+      ) as RunManifest;
+    } catch {
+      throw new Error(`No resumable run found with id ${runId}`);
+    }
+
+    const changed = diffInputs(manifest.inputs, inputs);
+    if (changed.length > 0) {
+      throw new Error(
+        `Cannot resume run ${runId}: inputs differ from the original run (${changed.join(', ')})`,
+      );
+    }
+    return checkpoint;
+  }
+
+  async load<T>(step: StepName, branch?: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await readFile(this.stepPath(step, branch), 'utf8')) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  async save(step: StepName, data: unknown, branch?: string): Promise<void> {
+    await writeJsonAtomic(this.stepPath(step, branch), data);
+  }
+
+  /** Whether any step response has been saved, i.e. resuming would skip work */
+  async hasSavedSteps(): Promise<boolean> {
+    const files = await readdir(this.dir).catch(() => []);
+    return files.some(file => file !== MANIFEST_FILE && file.endsWith('.json'));
+  }
+
+  private stepPath(step: StepName, branch?: string): string {
+    if (branch === undefined) return join(this.dir, `${step}.json`);
+    return join(this.dir, `${step}.${branch.replace(/[^\w.+-]/g, '_')}.json`);
+  }
+}
@@ -1,5 +1,49 @@
-import { runPipeline, getCapabilities } from './pipeline.js';
-import { formatReport } from './report.js';
+import { appendFile, readFile, writeFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import { runPipeline, runSingleStep, getCapabilities, STEP_PATHS } from './pipeline.js';
+import { verifyBundle, formatVerification } from './verify.js';
+import { RunCheckpoint, resolveRunInputs, newRunId } from './checkpoint.js';
+import { jobsDir, rateLimitStatePath, runsDir } from './paths.js';
+import {
+  recordHistory,
+  readHistory,
+  findHistoryEntry,
+  searchHistory,
+  formatHistoryList,
+} from './history.js';
+import { diffHistoryEntries, formatDiff } from './diff.js';
+import { hasStepErrors } from './diagnostics.js';
+import {
+  AuthError,
+  CancelledError,
+  EXIT_CODES,
+  StepReportedError,
+  describeErrorContext,
+  exitCodeFor,
+} from './errors.js';
+import { loadWatchState, runWatch, parseDuration, postWebhook, watchStatePath, type WatchAlert } from './watch.js';
+import { parseBatchInput, runBatch, formatBatchSummary } from './batch.js';
+import { createRecordingFetch, createReplayFetch } from './replay.js';
+import { startMockGateway, type MockServerConfig } from './mock-server.js';
+import { serveStdio } from './mcp-server.js';
+import { startService, DEFAULT_SERVICE_CONCURRENCY } from './service.js';
+import { ResponseCache } from './cache.js';
+import { RateLimiter, parseRateLimits } from './rate-limit.js';
+import { UsageLedger, codeId, formatUsage, readUsage, summarizeUsage } from './usage.js';
+import { formatLint, formatPromptSpec, hasLintErrors, lintQuery, parseReferenceDate, today } from './lint.js';
+import {
+  resolveAccessCode,
+  saveCredentials,
+  deleteCredentials,
+  credentialsPath,
+  readAllStdin,
+} from './credentials.js';
+import { createProgressRenderer, createNdjsonRenderer, type ProgressRenderer } from './progress.js';
+import { getFormatter, listFormats, formatResultsCsv } from './formatters.js';
+import { REPORT_JSON_SCHEMA } from './report-schema.js';
+import type { GatewayClientOptions } from './client.js';
+import type { PipelineOptions, PreflightMode, PromptResponse, SampleScope, StepName } from './types.js';
 
 function getArg(args: string[], name: string): string | undefined {
   const idx = args.indexOf(`--${name}`);
@@ -11,21 +55,400 @@ function hasFlag(args: string[], name: string): boolean {
   return args.includes(`--${name}`);
 }
 
+/**
+ * Parse `--step-timeout collect=900,prompt=60` (seconds) into per-path milliseconds.
+ */
+function parseStepTimeouts(value: string): Record<string, number> {
+  const timeouts: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [step, seconds] = pair.split('=');
+    const ms = Number(seconds) * 1000;
+    if (!step || !Number.isFinite(ms) || ms <= 0) {
+      throw new Error(`Invalid --step-timeout entry: ${pair}`);
+    }
+    const path = step.startsWith('/') ? step : `/step/${step}`;
+    timeouts[path] = ms;
+  }
+  return timeouts;
+}
+
+/** "prompt=7d,collect=5m" into per-path TTLs; 0 turns caching off for a step */
+function parseCacheTtls(value: string): Record<string, number> {
+  const ttls: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [step, duration] = pair.split('=');
+    if (!step || !duration) {
+      throw new Error(`Invalid --cache-ttl entry: ${pair}`);
+    }
+    const path = step.startsWith('/') ? step : `/step/${step}`;
+    ttls[path] = duration.trim() === '0' ? 0 : parseDuration(duration);
+  }
+  return ttls;
+}
+
+/** Steps named by --refresh-step, as gateway paths */
+function refreshPathsFromArgs(args: string[]): string[] {
+  const value = getArg(args, 'refresh-step');
+  if (!value) return [];
+  return value.split(',').map(step => {
+    const name = step.trim() as StepName;
+    if (!(name in STEP_PATHS)) {
+      throw new Error(`Unknown step "${step}" for --refresh-step; expected one of ${Object.keys(STEP_PATHS).join(', ')}`);
+    }
+    return STEP_PATHS[name];
+  });
+}
+
+function parsePositiveNumber(value: string | undefined, flag: string, integer = false): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0 || (integer && !Number.isInteger(n))) {
+    throw new Error(`--${flag} must be a positive ${integer ? 'integer' : 'number'}`);
+  }
+  return n;
+}
+
+/** --port as a TCP port (0 picks a free one), or `fallback` when not given */
+function parsePort(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error('--port must be an integer from 0 to 65535');
+  }
+  return port;
+}
+
+/** --total-timeout as milliseconds: plain seconds ("1200") or a duration ("20m") */
+function totalTimeoutFromArgs(args: string[]): number | undefined {
+  const value = getArg(args, 'total-timeout');
+  if (value === undefined) return undefined;
+  return /^\d+(\.\d+)?$/.test(value)
+    ? parsePositiveNumber(value, 'total-timeout')! * 1000
+    : parseDuration(value);
+}
+
+/**
+ * A signal aborted by the first Ctrl-C, so in-flight requests stop and the
+ * command can report where it was interrupted. A second Ctrl-C exits at once.
+ */
+function interruptSignal(): AbortSignal {
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error('\nInterrupted; stopping (press Ctrl-C again to exit immediately).');
+    controller.abort();
+    process.once('SIGINT', () => process.exit(EXIT_CODES.cancelled));
+  });
+  return controller.signal;
+}
+
+/**
+ * Build client options for gateway, timeout and retry flags plus --record and --replay.
+ */
+async function clientOptionsFromArgs(
+  args: string[],
+  interruptible = true,
+): Promise<GatewayClientOptions> {
+  const timeout = parsePositiveNumber(getArg(args, 'timeout'), 'timeout');
+  const stepTimeouts = getArg(args, 'step-timeout');
+  const options: GatewayClientOptions = {
+    gatewayUrl: getArg(args, 'gateway-url'),
+    timeoutMs: timeout !== undefined ? timeout * 1000 : undefined,
+    stepTimeouts: stepTimeouts ? parseStepTimeouts(stepTimeouts) : undefined,
+    maxRetries: parsePositiveNumber(getArg(args, 'retries'), 'retries', true),
+    signal: interruptible ? interruptSignal() : undefined,
+  };
+  const totalTimeout = totalTimeoutFromArgs(args);
+  if (totalTimeout !== undefined) options.deadline = Date.now() + totalTimeout;
+  const cacheTtls = getArg(args, 'cache-ttl');
+  const refresh = refreshPathsFromArgs(args);
+  // Recordings and replays must see every exchange, so they bypass the cache
+  if (!hasFlag(args, 'no-cache') && !getArg(args, 'record') && !getArg(args, 'replay')) {
+    options.cache = new ResponseCache({
+      ttls: cacheTtls ? parseCacheTtls(cacheTtls) : undefined,
+      refresh,
+    });
+  }
+  const rateLimit = getArg(args, 'rate-limit') ?? process.env.COURNOT_RATE_LIMIT;
+  if (rateLimit) {
+    options.rateLimiter = new RateLimiter({
+      rules: parseRateLimits(rateLimit),
+      statePath: hasFlag(args, 'shared-rate-limit') ? rateLimitStatePath() : undefined,
+    });
+  }
+  const replayDir = getArg(args, 'replay');
+  if (replayDir) {
+    return { ...options, fetchFn: await createReplayFetch(replayDir) };
+  }
+  // Replays make no gateway calls, so only live runs reach the ledger
+  options.usage = new UsageLedger();
+  const recordDir = getArg(args, 'record');
+  if (recordDir) {
+    return { ...options, fetchFn: createRecordingFetch(recordDir) };
+  }
+  return options;
+}
+
+/**
+ * Prompt for a secret on the terminal without echoing it.
+ */
+function promptHidden(prompt: string): Promise<string> {
+  process.stderr.write(prompt);
+  const muted = new Writable({ write: (_chunk, _enc, cb) => cb() });
+  const rl = createInterface({ input: process.stdin, output: muted, terminal: true });
+  return new Promise(resolve => {
+    rl.once('line', line => {
+      rl.close();
+      process.stderr.write('\n');
+      resolve(line);
+    });
+  });
+}
+
+/**
+ * Show the prompt step's interpretation on the terminal and ask whether to
+ * go on collecting. Anything but "y" (or Ctrl-C, or EOF) stops the run.
+ */
+function confirmPromptSpec(promptSpec: unknown): Promise<boolean> {
+  process.stderr.write(`\n${formatPromptSpec(promptSpec)}\n`);
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise(resolve => {
+    rl.once('close', () => resolve(false));
+    rl.on('SIGINT', () => rl.close());
+    rl.question('Continue with collect? [y/N] ', answer => {
+      resolve(/^y(es)?$/i.test(answer.trim()));
+      rl.close();
+    });
+  });
+}
+
+/**
+ * Pipeline options shared by `resolve` and `watch`.
+ */
+function pipelineOptionsFromArgs(args: string[], query: string, code: string): PipelineOptions {
+  const collectorsArg = getArg(args, 'collectors');
+  const collectors = collectorsArg ? collectorsArg.split(',') : undefined;
+
+  let consensusGroups: string[][] | undefined;
+  const groupsArg = getArg(args, 'consensus-groups');
+  if (groupsArg) {
+    consensusGroups = groupsArg.split(';').map(g => g.split(',').map(c => c.trim()).filter(Boolean));
+  } else if (hasFlag(args, 'consensus')) {
+    consensusGroups = (collectors ?? []).map(c => [c]);
+  }
+  if (consensusGroups && consensusGroups.length < 2) {
+    throw new Error('consensus needs at least two collector groups (pass --collectors A,B or --consensus-groups).');
+  }
+
+  const samplesArg = getArg(args, 'samples');
+  const samples = samplesArg ? Number(samplesArg) : undefined;
+  if (samples !== undefined && (!Number.isInteger(samples) || samples < 1)) {
+    throw new Error('--samples must be a positive integer.');
+  }
+  const sampleScope = getArg(args, 'sample-scope');
+  if (sampleScope !== undefined && sampleScope !== 'reasoning' && sampleScope !== 'full') {
+    throw new Error('--sample-scope must be reasoning or full.');
+  }
+  const thresholdArg = getArg(args, 'unstable-threshold');
+  const threshold = thresholdArg ? Number(thresholdArg) : undefined;
+  if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+    throw new Error('--unstable-threshold must be between 0 and 1.');
+  }
+
+  const domainList = (name: string) => getArg(args, name)?.split(',').map(d => d.trim()).filter(Boolean);
+  const domainPolicy = {
+    allow: domainList('allow-domains'),
+    deny: domainList('deny-domains'),
+    priority: domainList('prefer-domains'),
+  };
+  const countArg = (name: string) => {
+    const value = getArg(args, name);
+    const n = value ? Number(value) : undefined;
+    if (n !== undefined && (!Number.isInteger(n) || n < 0)) {
+      throw new Error(`--${name} must be a non-negative integer.`);
+    }
+    return n;
+  };
+  const preflight = getArg(args, 'preflight');
+  if (preflight !== undefined && preflight !== 'warn' && preflight !== 'strict') {
+    throw new Error('--preflight must be warn or strict.');
+  }
+  // Fixed once, so every run of a watch reads relative dates the same way
+  const referenceDate = getArg(args, 'reference-date') ?? today();
+  parseReferenceDate(referenceDate);
+
+  const maxEvidence = countArg('max-evidence');
+  const maxReasoningSteps = countArg('max-reasoning-steps');
+  const snippetLength = countArg('snippet-length');
+
+  return {
+    query,
+    code,
+    strict_mode: hasFlag(args, 'strict'),
+    collectors,
+    include_raw_content: hasFlag(args, 'include-raw'),
+    schema_mode: hasFlag(args, 'strict-schema') ? 'strict' : 'lenient',
+    consensus_groups: consensusGroups,
+    samples,
+    sample_scope: sampleScope as SampleScope | undefined,
+    stability_threshold: threshold,
+    total_timeout_ms: totalTimeoutFromArgs(args),
+    preflight: preflight as PreflightMode | undefined,
+    reference_date: preflight ? referenceDate : undefined,
+    report_options: {
+      domain_policy: domainPolicy,
+      max_evidence: maxEvidence,
+      max_reasoning_steps: maxReasoningSteps,
+      snippet_length: snippetLength,
+      step_details: hasFlag(args, 'step-details'),
+      full: hasFlag(args, 'full'),
+    },
+  };
+}
+
+/**
+ * Print an error with its step and attempt count when known. Callers exit with
+ * exitCodeFor(err).
+ */
+function printError(err: unknown): void {
+  if (err instanceof CancelledError) {
+    console.error(`Interrupted${err.step ? ` during the ${err.step} step` : ''}.`);
+    return;
+  }
+  console.error('Error:', err instanceof Error ? err.message : String(err));
+  const context = describeErrorContext(err);
+  if (context) console.error(`(${context})`);
+}
+
 function printUsage(): void {
   console.log('Cournot Proof-of-Reasoning CLI');
   console.log('');
   console.log('Usage:');
-  console.log('  cournot-por resolve  --query "..." --code "..." [options]');
-  console.log('  cournot-por capabilities --code "..."');
+  console.log('  cournot-por login [--check]');
+  console.log('  cournot-por logout');
+  console.log('  cournot-por resolve  --query "..." [options]');
+  console.log('  cournot-por watch --query "..." --every 1h [options]');
+  console.log('  cournot-por capabilities');
+  console.log('  cournot-por lint --query "..." [--prompt] [--json]');
+  console.log('  cournot-por batch --input markets.jsonl [options]');
+  console.log('  cournot-por step <prompt|collect|audit|judge|bundle> [--input request.json]');
+  console.log('  cournot-por verify <bundle.json> [--json]');
+  console.log('  cournot-por history list [--limit 20] [--json]');
+  console.log('  cournot-por history show <id> [--format markdown]');
+  console.log('  cournot-por history search <text> [--json]');
+  console.log('  cournot-por diff <id-a> <id-b> [--json]');
+  console.log('  cournot-por usage [--days 7] [--all] [--json]');
+  console.log('  cournot-por schema');
+  console.log('  cournot-por mock-server [--port 8787] [--config mock.json] [--latency ms]');
+  console.log('  cournot-por mcp [--gateway-url URL] [--timeout s]');
+  console.log('  cournot-por serve [--port 8788] [--concurrency 2] [--persist]');
   console.log('');
   console.log('Options:');
   console.log('  --query            The question or market to resolve');
-  console.log('  --code             Cournot access code');
+  console.log('  --code-stdin       Read the Cournot access code from stdin');
+  console.log('  --code             Cournot access code (visible in shell history; prefer the above)');
   console.log('  --strict           Enable strict mode');
   console.log('  --collectors       Comma-separated list of collectors');
   console.log('  --include-raw      Include raw content from collectors');
-  console.log('  --json             Output raw JSON instead of formatted report');
+  console.log('  --consensus        Run each of --collectors separately and aggregate the verdicts');
+  console.log('  --consensus-groups Collector groups to compare, e.g. "A,B;C" (implies --consensus)');
+  console.log('  --samples          Repeat the run N times and report outcome stability');
+  console.log('  --sample-scope     What each sample re-runs: reasoning (default) or full');
+  console.log('  --unstable-threshold  Minimum share of agreeing samples to count as stable (default: 0.8)');
+  console.log('  --strict-schema    Fail if any step response drifts from the contract schemas');
+  console.log('  --prefer-domains   Rank evidence from these domains first, in order, e.g. "sec.gov,gov"');
+  console.log('  --allow-domains    Only show evidence from these domains (subdomains included)');
+  console.log('  --deny-domains     Never show evidence from these domains');
+  console.log('  --max-evidence     Evidence highlights shown in the report (default: 10)');
+  console.log('  --max-reasoning-steps  Reasoning steps shown in the report (default: 10)');
+  console.log('  --snippet-length   Truncate evidence snippets to this many characters');
+  console.log('  --step-details     Show step ids, evidence references, conclusions and other fields');
+  console.log('  --full             Every evidence item and reasoning step, untruncated, with details');
+  console.log('  --gateway-url      Gateway endpoint (default: $COURNOT_GATEWAY_URL or Cournot)');
+  console.log('  --timeout          Per-request timeout in seconds (default: $COURNOT_TIMEOUT or 300)');
+  console.log('  --step-timeout     Per-step timeouts in seconds, e.g. "collect=900,prompt=60"');
+  console.log('  --retries          Attempts per request (default: $COURNOT_RETRIES or 3)');
+  console.log('  --total-timeout    Overall budget for the run, e.g. 20m or 1200 (seconds)');
+  console.log('  --record           Save every gateway exchange to a directory (code redacted)');
+  console.log('  --replay           Serve gateway responses from a recorded directory (offline)');
+  console.log('  --no-cache         Do not read or write the response cache');
+  console.log('  --refresh-step     Skip cached responses for these steps, e.g. "collect,audit"');
+  console.log('  --cache-ttl        Per-step cache lifetimes, e.g. "prompt=7d,collect=5m" (0 = off)');
+  console.log('  --rate-limit       Client-side limit, e.g. "30/m" or "collect=2/m,*=30/m" ($COURNOT_RATE_LIMIT)');
+  console.log('  --shared-rate-limit  Share the limit with other cournot-por processes via a lock file');
+  console.log(`  --format           Report format: ${listFormats().join(', ')} (default: markdown)`);
+  console.log('  --json             Same as --format json (schema-versioned, without raw responses)');
+  console.log('  --resume           Resume a previous run by id, skipping completed steps');
+  console.log('  --run-dir          Directory for run checkpoints (default: data dir/runs)');
+  console.log('  --no-checkpoint    Do not persist step results');
+  console.log('  --events           Progress on stderr: progress (default), ndjson, or none');
+  console.log('  --bundle-out       Write the /step/bundle response to a file for `verify`');
+  console.log('  --no-history       Do not record the resolution in the local history');
+  console.log('  --fail-on-errors   Exit non-zero (after printing the report) if any step reported errors');
+  console.log('  --preflight        Lint the query first: warn (report issues) or strict (abort on errors)');
+  console.log('  --reference-date   Day relative dates ("by Saturday") count from, YYYY-MM-DD (default: today)');
+  console.log('  --confirm          Show the prompt step\'s interpretation and ask before collecting');
+  console.log('');
+  console.log('Batch options:');
+  console.log('  --input            JSONL file of queries (strings or {"query", "id", overrides})');
+  console.log('  --output           JSONL file for results (default: <input>.results.jsonl)');
+  console.log('  --concurrency      Number of markets resolved in parallel (default: 2)');
+  console.log('  --format csv       Print results as CSV instead of the summary table');
+  console.log('');
+  console.log('Watch options (plus the resolve options above):');
+  console.log('  --every            Interval between runs, e.g. 30m, 1h, 1h30m');
+  console.log('  --until            Stop at this date/time (ISO 8601), or --for 3d');
+  console.log('  --thresholds       Confidence levels that alert when crossed, e.g. 0.5,0.8');
+  console.log('  --output           Append alerts as JSONL to this file instead of stdout');
+  console.log('  --webhook          POST each alert as JSON to this URL');
+  console.log('  --state            State file (default: data dir/watch/<query hash>.json)');
+  console.log('');
+  console.log('Step options:');
+  console.log('  --input            JSON request for the step (default: stdin; "-" also reads stdin)');
+  console.log('  --strict-schema    Fail if the response drifts from the contract schemas');
+  console.log('');
+  console.log('Lint options:');
+  console.log('  --reference-date   Day relative dates count from, YYYY-MM-DD (default: today)');
+  console.log('  --prompt           Also run the prompt step and show its prompt_spec');
+  console.log('  --fail-on-warnings Exit with code 9 on warnings too, not just errors');
+  console.log('');
+  console.log('Usage options:');
+  console.log('  --days             Days to summarize, including today (default: 7)');
+  console.log('  --all              Every access code, not just the configured one');
+  console.log('');
+  console.log('Mock server options:');
+  console.log('  --port             Port to listen on (default: 8787)');
+  console.log('  --host             Host to bind (default: 127.0.0.1)');
+  console.log('  --config           JSON file with canned responses and fault scripts');
+  console.log('  --latency          Milliseconds of latency added to every call');
+  console.log('  --expect-code      Reject envelopes whose code differs (401)');
+  console.log('');
+  console.log('Serve options:');
+  console.log('  --port             Port to listen on (default: 8788)');
+  console.log('  --host             Host to bind (default: 127.0.0.1)');
+  console.log(`  --concurrency      Jobs run at once (default: ${DEFAULT_SERVICE_CONCURRENCY})`);
+  console.log('  --persist          Keep jobs on disk so results survive a restart');
+  console.log(`  --jobs-dir         Where --persist keeps jobs (default: ${jobsDir()})`);
+  console.log('  --shared-code      Use the configured access code for callers that send none');
+  console.log('');
   console.log('  --help             Show this help message');
+  console.log('');
+  console.log('Access code lookup order: --code-stdin, --code, $COURNOT_CODE,');
+  console.log(`then the credentials file saved by login (${credentialsPath()}).`);
+  console.log('');
+  console.log('Exit codes:');
+  console.log('  0  Success');
+  console.log('  1  Other failure (invalid arguments, local files, ...)');
+  console.log('  2  Gateway rejected the request');
+  console.log('  3  Missing, invalid or expired access code');
+  console.log('  4  Rate limited after all retries');
+  console.log('  5  Timed out after all retries');
+  console.log('  6  Server or network error after all retries');
+  console.log('  7  Request or response failed schema validation');
+  console.log('  8  Steps reported errors (with --fail-on-errors)');
+  console.log('  9  Query failed pre-flight checks, or its interpretation was not confirmed');
+  console.log('  10  verify: a root could not be reproduced from the bundle');
+  console.log('  11  verify: a root could not be checked (missing from the bundle)');
+  console.log('  130  Interrupted with Ctrl-C');
 }
 
 async function main(): Promise<void> {
@@ -37,20 +460,340 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  const code = getArg(args, 'code');
-  if (!code) {
-    console.error('Error: --code is required. Provide your Cournot access code.');
+  if (command === 'schema') {
+    console.log(JSON.stringify(REPORT_JSON_SCHEMA, null, 2));
+    return;
+  }
+
+  if (command === 'verify') {
+    const file = args[1];
+    if (!file || file.startsWith('--')) {
+      console.error('Error: verify requires a path to a bundle JSON file.');
+      process.exit(1);
+      return; // unreachable, helps TypeScript narrow
+    }
+
+    try {
+      const input = JSON.parse(await readFile(file, 'utf8'));
+      const result = verifyBundle(input);
+      if (hasFlag(args, 'json')) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(formatVerification(result));
+      }
+      const exitCodes = { valid: 0, mismatch: EXIT_CODES.verify_mismatch, incomplete: EXIT_CODES.verify_incomplete };
+      process.exit(exitCodes[result.status]);
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'history') {
+    const sub = args[1];
+    try {
+      const entries = await readHistory();
+      if (sub === 'list' || sub === 'search') {
+        let matches = entries;
+        if (sub === 'search') {
+          const text = args[2];
+          if (!text || text.startsWith('--')) {
+            console.error('Error: history search requires search text.');
+            process.exit(1);
+            return; // unreachable, helps TypeScript narrow
+          }
+          matches = searchHistory(entries, text);
+        }
+        const limit = parsePositiveNumber(getArg(args, 'limit'), 'limit') ?? 20;
+        matches = matches.slice(-limit);
+        if (hasFlag(args, 'json')) {
+          console.log(JSON.stringify(
+            matches.map(({ report: _report, ...summary }) => summary),
+            null,
+            2,
+          ));
+        } else {
+          console.log(formatHistoryList(matches));
+        }
+      } else if (sub === 'show') {
+        const id = args[2];
+        if (!id || id.startsWith('--')) {
+          console.error('Error: history show requires a resolution id.');
+          process.exit(1);
+          return; // unreachable, helps TypeScript narrow
+        }
+        const entry = findHistoryEntry(entries, id);
+        const format = hasFlag(args, 'json') ? 'json' : getArg(args, 'format') ?? 'markdown';
+        console.error(`${entry.id}: ${entry.query} (${entry.finished_at})`);
+        console.log(getFormatter(format)(entry.report));
+      } else {
+        console.error('Error: history requires list, show or search.');
+        process.exit(1);
+      }
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'diff') {
+    const [idA, idB] = args.slice(1, 3);
+    if (!idA || !idB || idA.startsWith('--') || idB.startsWith('--')) {
+      console.error('Error: diff requires two resolution ids (see `history list`).');
+      process.exit(1);
+      return; // unreachable, helps TypeScript narrow
+    }
+    try {
+      const entries = await readHistory();
+      const diff = diffHistoryEntries(
+        findHistoryEntry(entries, idA),
+        findHistoryEntry(entries, idB),
+      );
+      console.log(hasFlag(args, 'json') ? JSON.stringify(diff, null, 2) : formatDiff(diff));
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'lint') {
+    const query = getArg(args, 'query');
+    if (query === undefined) {
+      console.error('Error: --query is required.');
+      process.exit(1);
+      return; // unreachable, helps TypeScript narrow
+    }
+    try {
+      const lint = lintQuery(query, getArg(args, 'reference-date'));
+      // Only spend a gateway call on a question that can be resolved
+      let promptSpec: unknown;
+      if (hasFlag(args, 'prompt') && !hasLintErrors(lint)) {
+        const resolved = await resolveAccessCode({
+          argv: getArg(args, 'code'),
+          readStdin: hasFlag(args, 'code-stdin') ? () => readAllStdin() : undefined,
+        });
+        if (!resolved) {
+          throw new AuthError(
+            'no access code found for --prompt. Run `cournot-por login`, set COURNOT_CODE, or pass --code-stdin.',
+          );
+        }
+        const response = await runSingleStep(
+          'prompt',
+          resolved.code,
+          { user_input: lint.normalized_query, strict_mode: hasFlag(args, 'strict') },
+          await clientOptionsFromArgs(args),
+          hasFlag(args, 'strict-schema') ? 'strict' : 'lenient',
+        ) as PromptResponse;
+        promptSpec = response.prompt_spec;
+      }
+
+      if (hasFlag(args, 'json')) {
+        console.log(JSON.stringify(promptSpec !== undefined ? { ...lint, prompt_spec: promptSpec } : lint, null, 2));
+      } else {
+        console.log(formatLint(lint));
+        if (promptSpec !== undefined) {
+          console.log(`\n${formatPromptSpec(promptSpec)}`);
+        } else if (hasFlag(args, 'prompt')) {
+          console.log('\nSkipped the prompt step: fix the errors above first.');
+        }
+      }
+      if (hasLintErrors(lint) || (hasFlag(args, 'fail-on-warnings') && lint.issues.length > 0)) {
+        process.exit(EXIT_CODES.preflight);
+      }
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'usage') {
+    try {
+      const days = parsePositiveNumber(getArg(args, 'days'), 'days') ?? 7;
+      const since = new Date(Date.now() - (days - 1) * 86_400_000).toISOString().slice(0, 10);
+      // Without --all, only the configured code's usage (or everyone's if none is configured)
+      const current = hasFlag(args, 'all') ? undefined : await resolveAccessCode({ env: process.env });
+      const rows = summarizeUsage(await readUsage(), {
+        since,
+        code_id: current ? codeId(current.code) : undefined,
+      });
+      if (hasFlag(args, 'json')) {
+        console.log(JSON.stringify(rows, null, 2));
+      } else {
+        const scope = current ? `access code ${codeId(current.code)}` : 'all access codes';
+        console.log(`Gateway usage since ${since} for ${scope}:`);
+        console.log(formatUsage(rows));
+      }
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'mock-server') {
+    try {
+      const configPath = getArg(args, 'config');
+      const config: MockServerConfig = configPath
+        ? JSON.parse(await readFile(configPath, 'utf8'))
+        : {};
+      const latency = parsePositiveNumber(getArg(args, 'latency'), 'latency');
+      if (latency !== undefined) config.latency_ms = latency;
+      const expectCode = getArg(args, 'expect-code');
+      if (expectCode) config.code = expectCode;
+
+      const mock = await startMockGateway(
+        config,
+        parsePort(getArg(args, 'port'), 8787),
+        getArg(args, 'host') ?? '127.0.0.1',
+      );
+      console.error(`Mock gateway listening on ${mock.url}`);
+      console.error(`Point clients at it with --gateway-url ${mock.url}`);
+      process.once('SIGINT', () => {
+        mock.close().finally(() => process.exit(0));
+      });
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'mcp') {
+    // stdout carries the protocol; everything else goes to stderr
+    try {
+      const startup = await resolveAccessCode({ env: process.env });
+      if (!startup) {
+        console.error('Warning: no access code configured yet; tool calls will fail until `cournot-por login`.');
+      }
+      await serveStdio({
+        getCode: async () => (await resolveAccessCode({ env: process.env }))?.code,
+        // MCP clients cancel with notifications/cancelled, not SIGINT
+        clientOptions: await clientOptionsFromArgs(args, false),
+      });
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'serve') {
+    try {
+      if (getArg(args, 'record')) {
+        // One recording would interleave every caller's jobs
+        throw new Error('--record is not supported with serve.');
+      }
+      let defaultCode: string | undefined;
+      if (hasFlag(args, 'shared-code')) {
+        defaultCode = (await resolveAccessCode({ env: process.env }))?.code;
+        if (!defaultCode) {
+          throw new AuthError('--shared-code needs a configured access code; run `cournot-por login` first.');
+        }
+      }
+      const persist = hasFlag(args, 'persist') || getArg(args, 'jobs-dir') !== undefined;
+      // A cache shared between callers would serve results to codes the gateway never checked
+      const { cache: _cache, ...clientOptions } = await clientOptionsFromArgs(args, false);
+      const service = await startService(
+        {
+          concurrency: parsePositiveNumber(getArg(args, 'concurrency'), 'concurrency'),
+          jobsDir: persist ? getArg(args, 'jobs-dir') ?? jobsDir() : undefined,
+          defaultCode,
+          clientOptions,
+          recordHistory: !hasFlag(args, 'no-history'),
+        },
+        parsePort(getArg(args, 'port'), 8788),
+        getArg(args, 'host') ?? '127.0.0.1',
+      );
+      console.error(`Cournot service listening on ${service.url}`);
+      process.once('SIGINT', () => {
+        console.error('Shutting down; cancelling running jobs.');
+        service.close().finally(() => process.exit(0));
+      });
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'login') {
+    try {
+      if (hasFlag(args, 'check')) {
+        const resolved = await resolveAccessCode({ env: process.env });
+        if (!resolved) {
+          console.error('No access code configured.');
+          process.exit(1);
+        }
+        console.log(`Access code available (source: ${resolved.source}).`);
+        return;
+      }
+
+      const code = process.stdin.isTTY
+        ? await promptHidden('Cournot access code: ')
+        : await readAllStdin();
+      if (!code.trim()) {
+        console.error('Error: no access code provided.');
+        process.exit(1);
+      }
+      const path = credentialsPath();
+      await saveCredentials(code, path);
+      console.error(`Access code saved to ${path}`);
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'logout') {
+    try {
+      const path = credentialsPath();
+      const removed = await deleteCredentials(path);
+      console.error(removed ? `Removed ${path}` : 'No stored access code.');
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'step' && hasFlag(args, 'code-stdin') && (getArg(args, 'input') ?? '-') === '-') {
+    console.error('Error: --code-stdin cannot be combined with reading the step input from stdin; pass --input <file>.');
     process.exit(1);
+  }
+
+  let code: string | undefined;
+  try {
+    const resolved = await resolveAccessCode({
+      argv: getArg(args, 'code'),
+      readStdin: hasFlag(args, 'code-stdin') ? () => readAllStdin() : undefined,
+    });
+    code = resolved?.code;
+  } catch (err) {
+    printError(err);
+    process.exit(exitCodeFor(err));
+  }
+  // Replays never reach the gateway, so no real access code is needed
+  code ??= hasFlag(args, 'replay') ? 'replay' : undefined;
+  if (!code) {
+    console.error(
+      'Error: no access code found. Run `cournot-por login`, set COURNOT_CODE, or pass --code-stdin.',
+    );
+    process.exit(EXIT_CODES.auth);
     return; // unreachable, helps TypeScript narrow
   }
 
   if (command === 'capabilities') {
     try {
-      const result = await getCapabilities(code);
+      const result = await getCapabilities(code, await clientOptionsFromArgs(args));
       console.log(JSON.stringify(result, null, 2));
     } catch (err) {
-      console.error('Error:', err instanceof Error ? err.message : String(err));
-      process.exit(1);
+      printError(err);
+      process.exit(exitCodeFor(err));
     }
     return;
   }
@@ -63,28 +806,252 @@ async function main(): Promise<void> {
       return; // unreachable, helps TypeScript narrow
     }
 
-    const collectorsArg = getArg(args, 'collectors');
-    const collectors = collectorsArg ? collectorsArg.split(',') : undefined;
+    let options: PipelineOptions;
+    try {
+      options = pipelineOptionsFromArgs(args, query, code);
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    if (hasFlag(args, 'confirm')) {
+      if (!process.stdin.isTTY) {
+        console.error('Error: --confirm needs an interactive terminal; check the interpretation with `lint --prompt` instead.');
+        process.exit(1);
+      }
+      options.confirm_prompt = confirmPromptSpec;
+    }
 
+    const format = hasFlag(args, 'json') ? 'json' : getArg(args, 'format') ?? 'markdown';
+    let formatter: ReturnType<typeof getFormatter>;
     try {
-      const report = await runPipeline({
-        query,
+      formatter = getFormatter(format);
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+
+    const eventsMode = getArg(args, 'events') ?? 'progress';
+    let renderer: ProgressRenderer | undefined;
+    if (eventsMode === 'progress') {
+      renderer = createProgressRenderer();
+    } else if (eventsMode === 'ndjson') {
+      renderer = createNdjsonRenderer();
+    } else if (eventsMode !== 'none') {
+      console.error('Error: --events must be progress, ndjson or none.');
+      process.exit(1);
+    }
+
+    let checkpoint: RunCheckpoint | undefined;
+    try {
+      // Invalid client flags fail here, before a checkpoint is created
+      const clientOptions = await clientOptionsFromArgs(args);
+      const baseDir = getArg(args, 'run-dir') ?? runsDir();
+      const resumeId = getArg(args, 'resume');
+      if (resumeId) {
+        checkpoint = await RunCheckpoint.resume(baseDir, resumeId, resolveRunInputs(options));
+      } else if (!hasFlag(args, 'no-checkpoint')) {
+        checkpoint = await RunCheckpoint.create(baseDir, resolveRunInputs(options));
+      }
+      if (checkpoint) {
+        console.error(`Run ID: ${checkpoint.runId}`);
+      }
+
+      const startedAt = new Date().toISOString();
+      const report = await runPipeline(
+        { ...options, checkpoint, onEvent: renderer?.onEvent },
+        clientOptions,
+      );
+      renderer?.stop();
+
+      const bundleOut = getArg(args, 'bundle-out');
+      if (bundleOut && report.raw) {
+        await writeFile(
+          bundleOut,
+          JSON.stringify(report.raw.bundle_response, null, 2) + '\n',
+        );
+      }
+
+      if (!hasFlag(args, 'no-history')) {
+        await recordHistory(checkpoint?.runId ?? newRunId(), options, startedAt, report);
+      }
+
+      console.log(formatter(report));
+      if (hasFlag(args, 'fail-on-errors') && hasStepErrors(report.diagnostics)) {
+        const err = new StepReportedError(report.diagnostics!.errors);
+        console.error(`Error: ${err.message} (--fail-on-errors).`);
+        process.exit(err.exitCode);
+      }
+    } catch (err) {
+      renderer?.stop();
+      printError(err);
+      // Nothing to resume when the run failed before any step was saved
+      if (checkpoint && (await checkpoint.hasSavedSteps())) {
+        console.error(`Completed steps were saved. Re-run with --resume ${checkpoint.runId} to continue.`);
+      }
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'step') {
+    const step = args[1] as StepName | undefined;
+    if (!step || !Object.hasOwn(STEP_PATHS, step)) {
+      console.error(`Error: step requires one of: ${Object.keys(STEP_PATHS).join(', ')}.`);
+      process.exit(1);
+      return; // unreachable, helps TypeScript narrow
+    }
+
+    try {
+      const inputPath = getArg(args, 'input') ?? '-';
+      const text = inputPath === '-' ? await readAllStdin() : await readFile(inputPath, 'utf8');
+      const result = await runSingleStep(
+        step,
         code,
-        strict_mode: hasFlag(args, 'strict'),
-        collectors,
-        include_raw_content: hasFlag(args, 'include-raw'),
+        JSON.parse(text),
+        await clientOptionsFromArgs(args),
+        hasFlag(args, 'strict-schema') ? 'strict' : 'lenient',
+      );
+      console.log(JSON.stringify(result, null, 2));
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
+
+  if (command === 'watch') {
+    const query = getArg(args, 'query');
+    const every = getArg(args, 'every');
+    if (!query || !every) {
+      console.error('Error: watch requires --query and --every.');
+      process.exit(1);
+      return; // unreachable, helps TypeScript narrow
+    }
+
+    try {
+      const options = pipelineOptionsFromArgs(args, query, code);
+      const intervalMs = parseDuration(every);
+      const untilArg = getArg(args, 'until');
+      const forArg = getArg(args, 'for');
+      let until: Date | undefined;
+      if (untilArg) {
+        until = new Date(untilArg);
+        if (Number.isNaN(until.getTime())) throw new Error(`Invalid --until date "${untilArg}"`);
+      } else if (forArg) {
+        until = new Date(Date.now() + parseDuration(forArg));
+      }
+      const thresholds = getArg(args, 'thresholds')?.split(',').map(Number);
+      if (thresholds?.some(t => !(t >= 0 && t <= 1))) {
+        throw new Error('--thresholds must be numbers between 0 and 1.');
+      }
+      const output = getArg(args, 'output');
+      const webhook = getArg(args, 'webhook');
+      const clientOptions = await clientOptionsFromArgs(args);
+      // Each watch run must look for new evidence
+      clientOptions.cache = clientOptions.cache?.withRefresh([STEP_PATHS.collect]);
+      const statePath = getArg(args, 'state') ?? watchStatePath(options);
+      // A restarted watch keeps the reference date it started with
+      if (options.preflight && !getArg(args, 'reference-date')) {
+        options.reference_date = (await loadWatchState(statePath))?.reference_date ?? options.reference_date;
+      }
+
+      const onAlert = async (alert: WatchAlert) => {
+        console.error(`Alert: ${alert.reasons.join('; ')}`);
+        if (output) {
+          await appendFile(output, JSON.stringify(alert) + '\n');
+        } else {
+          console.log(JSON.stringify(alert));
+        }
+        if (webhook) {
+          const problem = await postWebhook(webhook, alert);
+          if (problem) console.error(`Warning: ${problem}`);
+        }
+      };
+
+      console.error(`Watching "${query}" every ${every}; state in ${statePath}`);
+      const state = await runWatch({
+        query,
+        intervalMs,
+        until,
+        referenceDate: options.reference_date,
+        thresholds,
+        statePath,
+        onAlert,
+        signal: clientOptions.signal,
+        resolve: async () => {
+          const startedAt = new Date().toISOString();
+          const report = await runPipeline(options, clientOptions);
+          if (!hasFlag(args, 'no-history')) {
+            await recordHistory(newRunId(), options, startedAt, report);
+          }
+          return report;
+        },
+        onRun: (current, report, error) => {
+          const summary = report
+            ? `${report.outcome} (${(report.confidence * 100).toFixed(1)}%)`
+            : `failed: ${error?.message}`;
+          console.error(`[run ${current.runs}] ${summary}; next run at ${current.next_run_at}`);
+        },
       });
+      if (clientOptions.signal?.aborted) {
+        console.error(`Watch interrupted after ${state.runs} run(s); state kept in ${statePath}.`);
+        process.exit(EXIT_CODES.cancelled);
+      }
+      console.error(
+        state.until ? `Deadline ${state.until} reached; stopping.` : 'Watch finished.',
+      );
+    } catch (err) {
+      printError(err);
+      process.exit(exitCodeFor(err));
+    }
+    return;
+  }
 
-      if (hasFlag(args, 'json')) {
-        // Omit raw data from JSON output to keep it concise
-        const { raw: _raw, ...summary } = report;
-        console.log(JSON.stringify(summary, null, 2));
+  if (command === 'batch') {
+    const input = getArg(args, 'input');
+    if (!input) {
+      console.error('Error: --input is required.');
+      process.exit(1);
+      return; // unreachable, helps TypeScript narrow
+    }
+    const output = getArg(args, 'output') ?? input.replace(/\.jsonl$/, '') + '.results.jsonl';
+    const concurrencyArg = getArg(args, 'concurrency');
+    const concurrency = concurrencyArg ? Number(concurrencyArg) : undefined;
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      console.error('Error: --concurrency must be a positive integer.');
+      process.exit(1);
+      return; // unreachable, helps TypeScript narrow
+    }
+    const collectorsArg = getArg(args, 'collectors');
+
+    try {
+      const entries = parseBatchInput(await readFile(input, 'utf8'));
+      const clientOptions = await clientOptionsFromArgs(args);
+      const { results, skipped } = await runBatch(entries, {
+        code,
+        concurrency,
+        outputPath: output,
+        strict_mode: hasFlag(args, 'strict') || undefined,
+        collectors: collectorsArg ? collectorsArg.split(',') : undefined,
+        include_raw_content: hasFlag(args, 'include-raw') || undefined,
+        clientOptions,
+        onResult: r => console.error(`[${r.status}] ${r.id}`),
+      });
+      if (getArg(args, 'format') === 'csv') {
+        console.log(formatResultsCsv(results));
       } else {
-        console.log(formatReport(report));
+        console.log(formatBatchSummary(results, skipped.length));
+      }
+      console.error(`Results written to ${output}`);
+      if (clientOptions.signal?.aborted) {
+        process.exit(EXIT_CODES.cancelled);
+      }
+      if (results.some(r => r.status === 'error')) {
+        process.exit(1);
       }
     } catch (err) {
-      console.error('Error:', err instanceof Error ? err.message : String(err));
-      process.exit(1);
+      printError(err);
+      process.exit(exitCodeFor(err));
     }
     return;
   }
@@ -1,8 +1,26 @@
-import type { GatewayEnvelope } from './types.js';
+import {
+  AuthError,
+  CancelledError,
+  CournotError,
+  DeadlineError,
+  GatewayError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+} from './errors.js';
+import type { ResponseCache } from './cache.js';
+import type { RateLimiter } from './rate-limit.js';
+import type { AttemptStatus, UsageLedger } from './usage.js';
+import type { CacheLookup, GatewayEnvelope } from './types.js';
 
 export const GATEWAY_URL = 'https://interface.cournot.ai/play/polymarket/ai_data';
 export const MAX_RETRIES = 3;
 export const TIMEOUT_MS = 300_000; // 300 seconds
+export const BACKOFF_BASE_MS = 1000;
+export const BACKOFF_MAX_MS = 10_000;
+export const BACKOFF_JITTER = 0.5;
+/** Upper bound on how long a Retry-After header may make us wait */
+export const MAX_RETRY_AFTER_MS = 60_000;
 
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -46,40 +64,259 @@ function isNetworkError(err: unknown): boolean {
   );
 }
 
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff before retry number `attempt` (1-based), capped at
+ * `maxMs`. A `jitter` fraction of the delay is randomized so concurrent
+ * clients do not retry in lockstep.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  jitter: number,
+  random: () => number = Math.random,
+): number {
+  const delay = Math.min(baseMs * Math.pow(2, attempt), maxMs);
+  return Math.round(delay * (1 - jitter) + delay * jitter * random());
+}
+
+/** A positive number (a whole one if `integer`) from the environment, checked as the CLI flags are */
+function envNumber(name: string, integer = false): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+    throw new Error(`${name} must be a positive ${integer ? 'integer' : 'number'}`);
+  }
+  return value;
+}
+
+export interface RetryInfo {
+  path: string;
+  /** 1-based number of the attempt about to be made */
+  attempt: number;
+  backoff_ms: number;
+  /** HTTP status of the failed attempt, absent for network errors */
+  status?: number;
+  error: string;
+}
+
 export interface GatewayClientOptions {
+  /** Defaults to COURNOT_GATEWAY_URL, then GATEWAY_URL */
+  gatewayUrl?: string;
+  /** Per-attempt timeout; defaults to COURNOT_TIMEOUT (seconds), then TIMEOUT_MS */
+  timeoutMs?: number;
+  /** Per-path timeout overrides, e.g. `{ '/step/collect': 900_000 }` */
+  stepTimeouts?: Record<string, number>;
+  /** Attempts per call; defaults to COURNOT_RETRIES, then MAX_RETRIES */
+  maxRetries?: number;
+  backoffBaseMs?: number;
+  backoffMaxMs?: number;
+  /** Fraction of each backoff that is randomized, 0 to 1 */
+  backoffJitter?: number;
   fetchFn?: typeof globalThis.fetch;
   sleepFn?: (ms: number) => Promise<void>;
+  randomFn?: () => number;
+  /** Called before each retry sleep */
+  onRetry?: (info: RetryInfo) => void;
+  /** Aborts in-flight requests and backoff sleeps */
+  signal?: AbortSignal;
+  /** Epoch ms after which requests are aborted and no retry is attempted */
+  deadline?: number;
+  /** Serve and store successful responses; off when unset */
+  cache?: ResponseCache;
+  /** Called after each cache lookup */
+  onCache?: (info: CacheLookup) => void;
+  /** Paces attempts; share one instance between clients to pace them together */
+  rateLimiter?: RateLimiter;
+  /** Records every HTTP attempt */
+  usage?: UsageLedger;
 }
 
 export class GatewayClient {
   private code: string;
+  private gatewayUrl: string;
+  private timeoutMs: number;
+  private stepTimeouts: Record<string, number>;
+  private maxRetries: number;
+  private backoffBaseMs: number;
+  private backoffMaxMs: number;
+  private backoffJitter: number;
   private fetchFn: typeof globalThis.fetch;
   private sleepFn: (ms: number) => Promise<void>;
+  private randomFn: () => number;
+  private onRetry?: (info: RetryInfo) => void;
+  private signal?: AbortSignal;
+  private deadline?: number;
+  private cache?: ResponseCache;
+  private onCache?: (info: CacheLookup) => void;
+  private rateLimiter?: RateLimiter;
+  private usage?: UsageLedger;
 
   constructor(code: string, options?: GatewayClientOptions) {
     this.code = code;
+    this.gatewayUrl = options?.gatewayUrl ?? process.env.COURNOT_GATEWAY_URL ?? GATEWAY_URL;
+    // Flags take precedence, so a bad environment value only matters when it is used
+    const envTimeout = options?.timeoutMs === undefined ? envNumber('COURNOT_TIMEOUT') : undefined;
+    this.timeoutMs =
+      options?.timeoutMs ?? (envTimeout !== undefined ? envTimeout * 1000 : TIMEOUT_MS);
+    this.stepTimeouts = options?.stepTimeouts ?? {};
+    this.maxRetries = Math.max(1, options?.maxRetries ?? envNumber('COURNOT_RETRIES', true) ?? MAX_RETRIES);
+    this.backoffBaseMs = options?.backoffBaseMs ?? BACKOFF_BASE_MS;
+    this.backoffMaxMs = options?.backoffMaxMs ?? BACKOFF_MAX_MS;
+    this.backoffJitter = Math.min(1, Math.max(0, options?.backoffJitter ?? BACKOFF_JITTER));
     this.fetchFn = options?.fetchFn ?? globalThis.fetch.bind(globalThis);
     this.sleepFn = options?.sleepFn ?? sleep;
+    this.randomFn = options?.randomFn ?? Math.random;
+    this.onRetry = options?.onRetry;
+    this.signal = options?.signal;
+    this.deadline = options?.deadline;
+    this.cache = options?.cache;
+    this.onCache = options?.onCache;
+    this.rateLimiter = options?.rateLimiter;
+    this.usage = options?.usage;
+  }
+
+  /** Throw if the caller cancelled or the deadline has passed */
+  private checkStopped(path: string, attempts: number, deadlineHit = false): void {
+    if (this.signal?.aborted) {
+      throw new CancelledError(`Cancelled while calling ${path}`, { attempts });
+    }
+    if (deadlineHit || (this.deadline !== undefined && Date.now() >= this.deadline)) {
+      throw new DeadlineError(`Deadline exceeded while calling ${path}`, { path, attempts });
+    }
+  }
+
+  /**
+   * Sleep that ends early on cancellation and never outlasts the deadline;
+   * `throttled` waits are for the rate limiter rather than a retry backoff.
+   */
+  private async pause(
+    ms: number,
+    path: string,
+    attempts: number,
+    lastError: Error | null,
+    throttled = false,
+  ): Promise<void> {
+    if (this.deadline !== undefined && Date.now() + ms >= this.deadline) {
+      const last = lastError ? ` (last error: ${lastError.message})` : '';
+      const before = throttled ? 'rate limit allows calling' : 'retrying';
+      throw new DeadlineError(`Deadline exceeded before ${before} ${path}${last}`, { path, attempts });
+    }
+    const signal = this.signal;
+    if (!signal) return this.sleepFn(ms);
+    await new Promise<void>((resolve, reject) => {
+      const waitingTo = throttled ? 'call' : 'retry';
+      const onAbort = () => reject(new CancelledError(`Cancelled while waiting to ${waitingTo} ${path}`, { attempts }));
+      if (signal.aborted) return onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.sleepFn(ms).then(
+        () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject,
+      );
+    });
+  }
+
+  /** Wait until the rate limiter grants a token for `path` */
+  private async throttle(path: string, attempts: number): Promise<void> {
+    if (!this.rateLimiter) return;
+    for (let wait = await this.rateLimiter.take(path); wait > 0; wait = await this.rateLimiter.take(path)) {
+      await this.pause(wait, path, attempts, null, true);
+    }
   }
 
+  /**
+   * Call the gateway, going through the response cache when one is configured.
+   * A cache that cannot be read or written never fails the call.
+   */
   async call(path: string, method: string, payload: unknown): Promise<unknown> {
+    const cache = this.cache;
+    if (!cache?.caches(path)) return this.request(path, method, payload);
+
+    const refresh = cache.refreshes(path);
+    if (!refresh) {
+      const cached = await cache.get(path, method, payload).catch(() => undefined);
+      if (cached) {
+        this.checkStopped(path, 0);
+        this.onCache?.({ path, status: 'hit', age_ms: cached.age_ms });
+        return cached.response;
+      }
+    }
+    const response = await this.request(path, method, payload);
+    this.onCache?.({ path, status: refresh ? 'refresh' : 'miss' });
+    await cache.set(path, method, payload, response).catch(() => {});
+    return response;
+  }
+
+  private async request(path: string, method: string, payload: unknown): Promise<unknown> {
     const envelope = buildEnvelope(this.code, path, method, payload);
 
-    let lastError: Error | null = null;
+    const timeoutMs = this.stepTimeouts[path] ?? this.timeoutMs;
 
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    let lastError: CournotError | null = null;
+    let lastStatus: number | undefined;
+    let retryAfterMs: number | undefined;
+
+    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
       if (attempt > 0) {
-        const backoff = Math.min(1000 * Math.pow(2, attempt), 10_000);
-        await this.sleepFn(backoff);
+        const backoff = retryAfterMs ?? backoffDelay(
+          attempt,
+          this.backoffBaseMs,
+          this.backoffMaxMs,
+          this.backoffJitter,
+          this.randomFn,
+        );
+        retryAfterMs = undefined;
+        this.onRetry?.({
+          path,
+          attempt: attempt + 1,
+          backoff_ms: backoff,
+          status: lastStatus,
+          error: lastError?.message ?? 'unknown error',
+        });
+        await this.pause(backoff, path, attempt, lastError);
       }
 
+      const attempts = attempt + 1;
+      this.checkStopped(path, attempts);
+      await this.throttle(path, attempts);
+      this.checkStopped(path, attempts);
+      const attemptStarted = Date.now();
+      let status: AttemptStatus = 'network';
+      const remaining = this.deadline !== undefined ? this.deadline - Date.now() : Infinity;
+      const controller = new AbortController();
+      let deadlineHit = false;
+      const onAbort = () => controller.abort();
+      this.signal?.addEventListener('abort', onAbort, { once: true });
       try {
-        const controller = new AbortController();
-        const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+        const timer = setTimeout(() => {
+          deadlineHit = remaining < timeoutMs;
+          controller.abort();
+        }, Math.min(timeoutMs, remaining));
 
         let response: Response;
         try {
-          response = await this.fetchFn(GATEWAY_URL, {
+          response = await this.fetchFn(this.gatewayUrl, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(envelope),
@@ -88,41 +325,75 @@ export class GatewayClient {
         } finally {
           clearTimeout(timer);
         }
+        status = response.status;
 
         if (!response.ok) {
           const body = await response.text().catch(() => '');
           const safeBody = redactCode(body, this.code);
+          const message = `Gateway returned ${response.status} for ${path}: ${safeBody}`;
+          const httpStatus = response.status;
 
-          if (isTransientError(response.status)) {
-            lastError = new Error(
-              `Gateway returned ${response.status} for ${path}: ${safeBody}`,
-            );
+          if (isTransientError(httpStatus)) {
+            if (httpStatus === 429) {
+              const retryAfter = parseRetryAfter(response.headers?.get('retry-after'));
+              if (retryAfter !== undefined) {
+                retryAfterMs = Math.min(retryAfter, MAX_RETRY_AFTER_MS);
+                await this.rateLimiter?.block(path, retryAfterMs);
+              }
+              lastError = new RateLimitError(message, { path, status: httpStatus, attempts, retryAfterMs: retryAfter });
+            } else {
+              lastError = new ServerError(message, { path, status: httpStatus, attempts });
+            }
+            lastStatus = httpStatus;
             continue;
           }
 
-          throw new Error(
-            `Gateway returned ${response.status} for ${path}: ${safeBody}`,
-          );
+          if (httpStatus === 401 || httpStatus === 403) {
+            throw new AuthError(message, { path, status: httpStatus, attempts });
+          }
+          throw new GatewayError(message, { path, status: httpStatus, attempts });
         }
 
-        const data = await response.json();
+        let data: unknown;
+        try {
+          data = await response.json();
+        } catch (err) {
+          throw new ServerError(
+            `Gateway returned a malformed body for ${path}: ${(err as Error).message}`,
+            { path, status: response.status, attempts, cause: err },
+          );
+        }
         return data;
       } catch (err: unknown) {
-        if (err instanceof Error && !err.message.startsWith('Gateway returned')) {
-          if (isNetworkError(err)) {
-            lastError = new Error(
-              redactCode(
-                `Network error calling ${path}: ${err.message}`,
-                this.code,
-              ),
-            );
-            continue;
-          }
+        if (err instanceof CournotError) throw err;
+        if (controller.signal.aborted) {
+          status = this.signal?.aborted ? 'cancelled' : 'timeout';
+          this.checkStopped(path, attempts, deadlineHit);
+          lastError = new TimeoutError(
+            `Network error calling ${path}: timed out after ${timeoutMs / 1000}s`,
+            { path, attempts, timeoutMs, cause: err },
+          );
+          lastStatus = undefined;
+          continue;
+        }
+        if (isNetworkError(err)) {
+          lastError = new ServerError(
+            redactCode(
+              `Network error calling ${path}: ${(err as Error).message}`,
+              this.code,
+            ),
+            { path, attempts },
+          );
+          lastStatus = undefined;
+          continue;
         }
         throw err;
+      } finally {
+        this.signal?.removeEventListener('abort', onAbort);
+        await this.usage?.record(this.code, { path, status, duration_ms: Date.now() - attemptStarted });
       }
     }
 
-    throw lastError ?? new Error(`Failed after ${MAX_RETRIES} retries for ${path}`);
+    throw lastError ?? new ServerError(`Failed after ${this.maxRetries} retries for ${path}`, { path });
   }
 }
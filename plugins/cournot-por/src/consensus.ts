@@ -0,0 +1,128 @@
+import { BranchesFailedError } from './errors.js';
+import type {
+  ConsensusBranch,
+  ConsensusSummary,
+  PorReport,
+  RequirementDisagreement,
+} from './types.js';
+
+/**
+ * Aggregation of independent per-collector-group runs. Each group's verdict is
+ * one vote; the consensus outcome is the one most groups reached, with ties
+ * broken by summed confidence.
+ */
+
+export function groupLabel(collectors: string[]): string {
+  return collectors.join('+');
+}
+
+export function branchFromReport(collectors: string[], report: PorReport): ConsensusBranch {
+  return {
+    group: groupLabel(collectors),
+    collectors,
+    outcome: report.outcome,
+    confidence: report.confidence,
+    requirements_fulfilled: report.requirements_fulfilled,
+    requirements_unfulfilled: report.requirements_unfulfilled,
+    evidence_count: report.evidence_highlights.length,
+    por_root: report.roots.por_root,
+  };
+}
+
+function findRequirementDisagreements(branches: ConsensusBranch[]): RequirementDisagreement[] {
+  const byRequirement = new Map<string, RequirementDisagreement>();
+  const entry = (requirement: string) => {
+    let found = byRequirement.get(requirement);
+    if (!found) {
+      found = { requirement, met_by: [], unmet_by: [] };
+      byRequirement.set(requirement, found);
+    }
+    return found;
+  };
+
+  for (const branch of branches) {
+    for (const r of branch.requirements_fulfilled ?? []) entry(r).met_by.push(branch.group);
+    for (const r of branch.requirements_unfulfilled ?? []) entry(r).unmet_by.push(branch.group);
+  }
+
+  return [...byRequirement.values()].filter(d => d.met_by.length > 0 && d.unmet_by.length > 0);
+}
+
+/**
+ * Aggregate per-group results. Throws a BranchesFailedError if no group
+ * produced a verdict; `causes` are the errors the failed groups threw.
+ */
+export function summarizeConsensus(branches: ConsensusBranch[], causes: unknown[] = []): ConsensusSummary {
+  const succeeded = branches.filter(b => b.error === undefined && b.outcome !== undefined);
+  if (succeeded.length === 0) {
+    const details = branches.map(b => `  - ${b.group}: ${b.error ?? 'no outcome'}`).join('\n');
+    // A group that ran but reached no outcome has no cause to share
+    throw new BranchesFailedError(
+      `All collector groups failed:\n${details}`,
+      causes.length === branches.length ? causes : [],
+    );
+  }
+
+  const tally = new Map<string, { votes: number; confidence: number }>();
+  for (const b of succeeded) {
+    const t = tally.get(b.outcome!) ?? { votes: 0, confidence: 0 };
+    t.votes += 1;
+    t.confidence += b.confidence ?? 0;
+    tally.set(b.outcome!, t);
+  }
+
+  let outcome = succeeded[0].outcome!;
+  for (const [candidate, t] of tally) {
+    const best = tally.get(outcome)!;
+    if (t.votes > best.votes || (t.votes === best.votes && t.confidence > best.confidence)) {
+      outcome = candidate;
+    }
+  }
+
+  const agreeing = succeeded.filter(b => b.outcome === outcome);
+  const agreement = agreeing.length / succeeded.length;
+  const meanConfidence = tally.get(outcome)!.confidence / agreeing.length;
+  const representative = agreeing.reduce((best, b) =>
+    (b.confidence ?? 0) > (best.confidence ?? 0) ? b : best,
+  );
+
+  return {
+    outcome,
+    confidence: meanConfidence * agreement,
+    agreement,
+    representative: representative.group,
+    branches,
+    dissenting: succeeded.filter(b => b.outcome !== outcome).map(b => b.group),
+    requirement_disagreements: findRequirementDisagreements(succeeded),
+  };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * One line per disagreement, shared by the report formatters.
+ */
+export function describeDisagreements(summary: ConsensusSummary): string[] {
+  const lines: string[] = [];
+  for (const group of summary.dissenting) {
+    const branch = summary.branches.find(b => b.group === group);
+    lines.push(
+      `${group} reached ${branch?.outcome} (${percent(branch?.confidence ?? 0)}) against the consensus ${summary.outcome}`,
+    );
+  }
+  for (const d of summary.requirement_disagreements) {
+    lines.push(
+      `Requirement "${d.requirement}": met according to ${d.met_by.join(', ')}; not met according to ${d.unmet_by.join(', ')}`,
+    );
+  }
+  return lines;
+}
+
+/** e.g. "2/3 groups (66.7%)" */
+export function describeAgreement(summary: ConsensusSummary): string {
+  const succeeded = summary.branches.filter(b => b.error === undefined).length;
+  const agreeing = Math.round(summary.agreement * succeeded);
+  return `${agreeing}/${succeeded} groups (${percent(summary.agreement)})`;
+}
@@ -0,0 +1,113 @@
+import { chmod, mkdir, readFile, stat, unlink, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+export const CODE_ENV_VAR = 'COURNOT_CODE';
+
+/** Where the access code came from, in precedence order */
+export type CodeSource = 'stdin' | 'argv' | 'env' | 'file';
+
+export interface ResolvedCode {
+  code: string;
+  source: CodeSource;
+}
+
+export interface ResolveCodeOptions {
+  /** Value of --code, if given */
+  argv?: string;
+  /** Set when --code-stdin was given */
+  readStdin?: () => Promise<string>;
+  env?: NodeJS.ProcessEnv;
+  filePath?: string;
+}
+
+/**
+ * Location of the stored credential. Honors COURNOT_CREDENTIALS_FILE, then
+ * XDG_CONFIG_HOME.
+ */
+export function credentialsPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.COURNOT_CREDENTIALS_FILE) return env.COURNOT_CREDENTIALS_FILE;
+  const base = env.XDG_CONFIG_HOME ?? join(homedir(), '.config');
+  return join(base, 'cournot', 'credentials');
+}
+
+/**
+ * Read the stored access code. Like ssh keys, the file is refused if group or
+ * other users can read it.
+ */
+export async function readCredentialsFile(path: string = credentialsPath()): Promise<string | undefined> {
+  let mode: number;
+  try {
+    mode = (await stat(path)).mode;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw err;
+  }
+
+  if (process.platform !== 'win32' && (mode & 0o077) !== 0) {
+    throw new Error(
+      `Permissions on ${path} are too open (${(mode & 0o777).toString(8)}); run chmod 600 ${path}`,
+    );
+  }
+
+  const code = (await readFile(path, 'utf8')).trim();
+  return code || undefined;
+}
+
+export async function saveCredentials(code: string, path: string = credentialsPath()): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await writeFile(path, code.trim() + '\n', { mode: 0o600 });
+  // writeFile only applies the mode when it creates the file
+  await chmod(path, 0o600);
+}
+
+/**
+ * Remove the stored access code. Returns false if there was none.
+ */
+export async function deleteCredentials(path: string = credentialsPath()): Promise<boolean> {
+  try {
+    await unlink(path);
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw err;
+  }
+}
+
+export async function readAllStdin(stream: NodeJS.ReadableStream = process.stdin): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Resolve the access code from, in order: stdin (--code-stdin), --code,
+ * COURNOT_CODE, then the credentials file.
+ */
+export async function resolveAccessCode(
+  options: ResolveCodeOptions = {},
+): Promise<ResolvedCode | undefined> {
+  if (options.readStdin) {
+    const code = (await options.readStdin()).trim();
+    if (!code) throw new Error('--code-stdin was given but stdin was empty');
+    return { code, source: 'stdin' };
+  }
+
+  if (options.argv) {
+    return { code: options.argv, source: 'argv' };
+  }
+
+  const envCode = (options.env ?? process.env)[CODE_ENV_VAR]?.trim();
+  if (envCode) {
+    return { code: envCode, source: 'env' };
+  }
+
+  const fileCode = await readCredentialsFile(options.filePath ?? credentialsPath(options.env));
+  if (fileCode) {
+    return { code: fileCode, source: 'file' };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,123 @@
+import type {
+  AuditResponse,
+  BundleResponse,
+  CacheLookup,
+  CollectResponse,
+  JudgeResponse,
+  PromptResponse,
+  ReportDiagnostics,
+  StepError,
+  StepName,
+} from './types.js';
+
+/**
+ * Errors and logs reported by the steps themselves. The gateway returns these
+ * alongside a successful response, so a run can succeed while some collectors
+ * failed; the report surfaces them rather than dropping them.
+ */
+
+type Obj = Record<string, unknown>;
+
+function isObject(val: unknown): val is Obj {
+  return typeof val === 'object' && val !== null && !Array.isArray(val);
+}
+
+/**
+ * One line for an error or log entry: strings as-is, objects as
+ * "[source] level: message" where those fields exist, anything else as JSON.
+ */
+export function describeEntry(entry: unknown): string {
+  if (typeof entry === 'string') return entry;
+  if (isObject(entry)) {
+    const message = entry.message ?? entry.msg ?? entry.error ?? entry.detail;
+    if (typeof message === 'string') {
+      const source = entry.collector ?? entry.source ?? entry.step;
+      const level = entry.level ?? entry.severity;
+      return [
+        typeof source === 'string' ? `[${source}]` : '',
+        typeof level === 'string' ? `${level}:` : '',
+        message,
+      ].filter(Boolean).join(' ');
+    }
+  }
+  return JSON.stringify(entry) ?? String(entry);
+}
+
+function stepErrors(step: StepName, response: unknown): StepError[] {
+  const errors = isObject(response) ? response.errors : undefined;
+  if (!Array.isArray(errors)) return [];
+  return errors.map(error => ({ step, message: describeEntry(error) }));
+}
+
+/**
+ * Gather step errors, collector coverage and collector logs from a run's
+ * responses. `requested` is the collectors the run asked for, if known.
+ */
+export function collectDiagnostics(
+  responses: {
+    prompt: PromptResponse;
+    collect: CollectResponse;
+    audit: AuditResponse;
+    judge: JudgeResponse;
+    bundle: BundleResponse;
+  },
+  requested?: string[],
+): ReportDiagnostics {
+  const used = responses.collect.collectors_used;
+  // Responses read from step files or older checkpoints have no flag; trust their list
+  const reported = responses.collect.collectors_reported ?? true;
+  return {
+    errors: [
+      ...stepErrors('prompt', responses.prompt),
+      ...stepErrors('collect', responses.collect),
+      ...stepErrors('audit', responses.audit),
+      ...stepErrors('judge', responses.judge),
+      ...stepErrors('bundle', responses.bundle),
+    ],
+    collectors_requested: requested,
+    collectors_used: used,
+    collectors_reported: reported,
+    // Without a report of what ran, no collector can be called missing
+    collectors_missing: reported ? (requested ?? []).filter(c => !used.includes(c)) : [],
+    execution_logs: (responses.collect.execution_logs ?? []).map(describeEntry),
+  };
+}
+
+/** True when any step reported an error */
+export function hasStepErrors(diagnostics: ReportDiagnostics | undefined): boolean {
+  return (diagnostics?.errors.length ?? 0) > 0;
+}
+
+/** e.g. "CollectorA, CollectorB ran (requested: CollectorA, CollectorB, CollectorC; did not run: CollectorC)" */
+export function describeCollectors(diagnostics: ReportDiagnostics): string {
+  const ran = diagnostics.collectors_used;
+  let used = 'The collect step did not report which collectors ran';
+  if (diagnostics.collectors_reported) used = ran.length > 0 ? `${ran.join(', ')} ran` : 'No collectors reported as run';
+  if (!diagnostics.collectors_requested) return used;
+  const notes = [`requested: ${diagnostics.collectors_requested.join(', ')}`];
+  if (diagnostics.collectors_missing.length > 0) {
+    notes.push(`did not run: ${diagnostics.collectors_missing.join(', ')}`);
+  }
+  return `${used} (${notes.join('; ')})`;
+}
+
+/** Rough age for display: "45s", "12m", "3h", "2d" */
+export function describeAge(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86_400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86_400)}d`;
+}
+
+/** e.g. "prompt hit (3h old), collect miss, audit refreshed"; "no lookups" when empty */
+export function describeCache(lookups: CacheLookup[]): string {
+  if (lookups.length === 0) return 'no lookups';
+  return lookups.map(lookup => {
+    const name = lookup.step ?? lookup.path;
+    if (lookup.status === 'hit') {
+      return lookup.age_ms !== undefined ? `${name} hit (${describeAge(lookup.age_ms)} old)` : `${name} hit`;
+    }
+    return `${name} ${lookup.status === 'refresh' ? 'refreshed' : 'miss'}`;
+  }).join(', ');
+}
@@ -0,0 +1,144 @@
+import type { EvidenceHighlight, PorReport } from './types.js';
+import type { HistoryEntry } from './history.js';
+
+type Roots = PorReport['roots'];
+
+export interface RequirementChange {
+  requirement: string;
+  before: 'met' | 'not met' | 'absent';
+  after: 'met' | 'not met' | 'absent';
+}
+
+export interface ReportChanges {
+  outcome?: { before: string; after: string };
+  confidence: { before: number; after: number; delta: number };
+  evidence_added: EvidenceHighlight[];
+  evidence_removed: EvidenceHighlight[];
+  requirement_changes: RequirementChange[];
+  /** Roots whose value differs between the two runs */
+  roots_changed: { root: keyof Roots; before: string; after: string }[];
+}
+
+export interface ReportDiff extends ReportChanges {
+  from: { id: string; query: string; finished_at: string };
+  to: { id: string; query: string; finished_at: string };
+}
+
+/** Identity of a highlight across runs: its URL, else its title */
+function evidenceKey(item: EvidenceHighlight): string {
+  return item.source_url ?? item.title ?? item.snippet ?? '';
+}
+
+function requirementStates(report: PorReport): Map<string, 'met' | 'not met'> {
+  const states = new Map<string, 'met' | 'not met'>();
+  for (const r of report.requirements_fulfilled ?? []) states.set(r, 'met');
+  for (const r of report.requirements_unfulfilled ?? []) states.set(r, 'not met');
+  return states;
+}
+
+/**
+ * What changed between two reports of the same market.
+ */
+export function diffReports(before: PorReport, after: PorReport): ReportChanges {
+  const beforeKeys = new Set(before.evidence_highlights.map(evidenceKey));
+  const afterKeys = new Set(after.evidence_highlights.map(evidenceKey));
+
+  const beforeReqs = requirementStates(before);
+  const afterReqs = requirementStates(after);
+  const requirementChanges: RequirementChange[] = [];
+  for (const requirement of new Set([...beforeReqs.keys(), ...afterReqs.keys()])) {
+    const was = beforeReqs.get(requirement) ?? 'absent';
+    const now = afterReqs.get(requirement) ?? 'absent';
+    if (was !== now) requirementChanges.push({ requirement, before: was, after: now });
+  }
+
+  const rootNames = Object.keys(before.roots) as (keyof Roots)[];
+
+  return {
+    outcome: before.outcome !== after.outcome
+      ? { before: before.outcome, after: after.outcome }
+      : undefined,
+    confidence: {
+      before: before.confidence,
+      after: after.confidence,
+      delta: after.confidence - before.confidence,
+    },
+    evidence_added: after.evidence_highlights.filter(e => !beforeKeys.has(evidenceKey(e))),
+    evidence_removed: before.evidence_highlights.filter(e => !afterKeys.has(evidenceKey(e))),
+    requirement_changes: requirementChanges,
+    roots_changed: rootNames
+      .filter(root => before.roots[root] !== after.roots[root])
+      .map(root => ({ root, before: before.roots[root], after: after.roots[root] })),
+  };
+}
+
+/**
+ * Compare two recorded resolutions, typically of the same market at
+ * different times.
+ */
+export function diffHistoryEntries(a: HistoryEntry, b: HistoryEntry): ReportDiff {
+  return {
+    from: { id: a.id, query: a.query, finished_at: a.finished_at },
+    to: { id: b.id, query: b.query, finished_at: b.finished_at },
+    ...diffReports(a.report, b.report),
+  };
+}
+
+function describeEvidence(item: EvidenceHighlight): string {
+  const label = item.title ?? item.source_url ?? '(untitled)';
+  return item.title && item.source_url ? `${label} (${item.source_url})` : label;
+}
+
+export function formatDiff(diff: ReportDiff): string {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+  const lines: string[] = [];
+
+  lines.push(`--- ${diff.from.id}  ${diff.from.finished_at}`);
+  lines.push(`+++ ${diff.to.id}  ${diff.to.finished_at}`);
+  if (diff.from.query !== diff.to.query) {
+    lines.push('');
+    lines.push('Note: the two runs resolved different queries:');
+    lines.push(`  - ${diff.from.query}`);
+    lines.push(`  + ${diff.to.query}`);
+  }
+
+  lines.push('');
+  lines.push(
+    diff.outcome
+      ? `Outcome:    ${diff.outcome.before} -> ${diff.outcome.after}`
+      : 'Outcome:    unchanged',
+  );
+  const sign = diff.confidence.delta >= 0 ? '+' : '';
+  lines.push(
+    `Confidence: ${pct(diff.confidence.before)} -> ${pct(diff.confidence.after)} ` +
+      `(${sign}${(diff.confidence.delta * 100).toFixed(1)} pts)`,
+  );
+
+  lines.push('');
+  lines.push('Evidence:');
+  if (diff.evidence_added.length === 0 && diff.evidence_removed.length === 0) {
+    lines.push('  unchanged');
+  }
+  for (const item of diff.evidence_removed) lines.push(`  - ${describeEvidence(item)}`);
+  for (const item of diff.evidence_added) lines.push(`  + ${describeEvidence(item)}`);
+
+  lines.push('');
+  lines.push('Requirements:');
+  if (diff.requirement_changes.length === 0) {
+    lines.push('  unchanged');
+  }
+  for (const change of diff.requirement_changes) {
+    lines.push(`  ${change.requirement}: ${change.before} -> ${change.after}`);
+  }
+
+  lines.push('');
+  lines.push('Roots:');
+  if (diff.roots_changed.length === 0) {
+    lines.push('  unchanged');
+  }
+  for (const change of diff.roots_changed) {
+    lines.push(`  ${change.root}: ${change.before} -> ${change.after}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,216 @@
+import type { ContractIssue } from './schemas.js';
+import type { LintIssue, StepError, StepName } from './types.js';
+
+/**
+ * Typed failures. Each kind maps to its own CLI exit code so callers can tell
+ * "retry later" from "ask for a new code" from "give up" without parsing
+ * messages.
+ */
+
+/** CLI exit codes; 0 is success */
+export const EXIT_CODES = {
+  /** Anything not covered below, e.g. invalid arguments or local I/O errors */
+  failure: 1,
+  /** The gateway rejected the request (4xx other than auth and rate limiting) */
+  rejected: 2,
+  /** Missing, invalid or expired access code; ask for a new one */
+  auth: 3,
+  /** Still rate limited after all retries; retry later */
+  rate_limited: 4,
+  /** A request timed out on every attempt; retry, perhaps with a longer --timeout */
+  timeout: 5,
+  /** Server or network errors on every attempt; retry later */
+  server: 6,
+  /** A request or response did not match the expected schema */
+  schema: 7,
+  /** The run finished but steps reported errors (with --fail-on-errors) */
+  step_errors: 8,
+  /** The query failed pre-flight checks, or its interpretation was not confirmed */
+  preflight: 9,
+  /** `verify`: a root could not be reproduced from the bundle (not proof of tampering) */
+  verify_mismatch: 10,
+  /** `verify`: a root could not be checked because it or its inputs are missing */
+  verify_incomplete: 11,
+  /** Interrupted (Ctrl-C); completed steps are kept for --resume */
+  cancelled: 130,
+} as const;
+
+export type ErrorKind = keyof typeof EXIT_CODES;
+
+export interface CournotErrorOptions {
+  step?: StepName;
+  /** Attempts made before giving up */
+  attempts?: number;
+  cause?: unknown;
+}
+
+export class CournotError extends Error {
+  readonly kind: ErrorKind = 'failure';
+  /** Whether the same request may succeed if retried later */
+  readonly retryable: boolean = false;
+  /** The failing step, when the error happened inside one */
+  step?: StepName;
+  attempts?: number;
+
+  constructor(message: string, options: CournotErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.step = options.step;
+    this.attempts = options.attempts;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.kind];
+  }
+}
+
+export interface GatewayErrorOptions extends CournotErrorOptions {
+  /** Gateway path, e.g. "/step/collect" */
+  path?: string;
+  /** HTTP status; absent for network errors and timeouts */
+  status?: number;
+}
+
+/** The gateway answered with an error status */
+export class GatewayError extends CournotError {
+  override readonly kind: ErrorKind = 'rejected';
+  readonly path?: string;
+  readonly status?: number;
+
+  constructor(message: string, options: GatewayErrorOptions = {}) {
+    super(message, options);
+    this.path = options.path;
+    this.status = options.status;
+  }
+}
+
+export class AuthError extends GatewayError {
+  override readonly kind: ErrorKind = 'auth';
+}
+
+export class RateLimitError extends GatewayError {
+  override readonly kind: ErrorKind = 'rate_limited';
+  override readonly retryable = true;
+  /** From the last Retry-After header, if any */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: GatewayErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class TimeoutError extends GatewayError {
+  override readonly kind: ErrorKind = 'timeout';
+  override readonly retryable = true;
+  readonly timeoutMs?: number;
+
+  constructor(message: string, options: GatewayErrorOptions & { timeoutMs?: number } = {}) {
+    super(message, options);
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+/** The run's overall deadline passed */
+export class DeadlineError extends TimeoutError {}
+
+/** The caller's AbortSignal fired */
+export class CancelledError extends CournotError {
+  override readonly kind: ErrorKind = 'cancelled';
+}
+
+/** True for errors that should stop a run outright rather than fail one branch of it */
+export function isStopError(err: unknown): boolean {
+  return err instanceof CancelledError || err instanceof DeadlineError;
+}
+
+/** 5xx responses and network failures */
+export class ServerError extends GatewayError {
+  override readonly kind: ErrorKind = 'server';
+  override readonly retryable = true;
+}
+
+/** A drifted field: dotted path into the payload ("(root)" for the payload itself) and message */
+export type SchemaIssue = ContractIssue;
+
+export class SchemaError extends CournotError {
+  override readonly kind: ErrorKind = 'schema';
+  readonly issues: SchemaIssue[];
+
+  constructor(message: string, issues: SchemaIssue[], options: CournotErrorOptions = {}) {
+    super(message, options);
+    this.issues = issues;
+  }
+
+  /** "<heading>:" followed by one "  - path: message" line per issue */
+  static fromIssues(heading: string, issues: SchemaIssue[], options: CournotErrorOptions = {}): SchemaError {
+    const details = issues.map(i => `  - ${i.path}: ${i.message}`).join('\n');
+    return new SchemaError(`${heading}:\n${details}`, issues, options);
+  }
+}
+
+/**
+ * Every consensus group or stability sample failed. Takes the kind, and so the
+ * exit code, its causes share; 'failure' when they differ or are unknown.
+ */
+export class BranchesFailedError extends CournotError {
+  override readonly kind: ErrorKind;
+  override readonly retryable: boolean;
+  /** One error per branch, in run order */
+  readonly causes: unknown[];
+
+  constructor(message: string, causes: unknown[]) {
+    const typed = causes.filter((c): c is CournotError => c instanceof CournotError);
+    const shared = typed.length > 0 && typed.length === causes.length && typed.every(c => c.kind === typed[0].kind)
+      ? typed[0]
+      : undefined;
+    super(message, {
+      step: shared && typed.every(c => c.step === shared.step) ? shared.step : undefined,
+      cause: shared,
+    });
+    this.kind = shared?.kind ?? 'failure';
+    this.retryable = shared !== undefined && typed.every(c => c.retryable);
+    this.causes = causes;
+  }
+}
+
+/** Steps completed but reported errors of their own */
+export class StepReportedError extends CournotError {
+  override readonly kind: ErrorKind = 'step_errors';
+  readonly errors: StepError[];
+
+  constructor(errors: StepError[]) {
+    super(`${errors.length} step error(s) reported`, { step: errors[0]?.step });
+    this.errors = errors;
+  }
+}
+
+/** Stopped before collecting: the query failed pre-flight checks or its prompt_spec was rejected */
+export class PreflightError extends CournotError {
+  override readonly kind: ErrorKind = 'preflight';
+  readonly issues: LintIssue[];
+
+  constructor(message: string, issues: LintIssue[] = [], options: CournotErrorOptions = {}) {
+    super(message, options);
+    this.issues = issues;
+  }
+
+  /** "<heading>:" followed by one "  - check: message" line per issue */
+  static fromIssues(heading: string, issues: LintIssue[]): PreflightError {
+    const details = issues.map(i => `  - ${i.check}: ${i.message}`).join('\n');
+    return new PreflightError(`${heading}:\n${details}`, issues);
+  }
+}
+
+export function exitCodeFor(err: unknown): number {
+  return err instanceof CournotError ? err.exitCode : EXIT_CODES.failure;
+}
+
+/** e.g. "collect step, 3 attempts"; empty when nothing is known */
+export function describeErrorContext(err: unknown): string {
+  if (!(err instanceof CournotError)) return '';
+  const parts: string[] = [];
+  if (err.step) parts.push(`${err.step} step`);
+  if (err.attempts !== undefined) parts.push(`${err.attempts} attempt${err.attempts === 1 ? '' : 's'}`);
+  return parts.join(', ');
+}
@@ -0,0 +1,145 @@
+import type {
+  DomainPolicy,
+  EvidenceBundle,
+  EvidenceCounts,
+  EvidenceHighlight,
+} from './types.js';
+
+/** Highlights shown in a report unless configured otherwise */
+export const DEFAULT_MAX_EVIDENCE = 10;
+
+/** Snippets whose word sets overlap at least this much are treated as one */
+const NEAR_DUPLICATE_SIMILARITY = 0.9;
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+/**
+ * A URL key that ignores scheme, `www.`, fragments, tracking parameters,
+ * parameter order and trailing slashes. Returns undefined for unparseable or
+ * non-http(s) URLs.
+ */
+export function canonicalUrl(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return undefined;
+
+  const params = [...parsed.searchParams]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? '?' + new URLSearchParams(params).toString() : '';
+  const path = parsed.pathname.replace(/\/+$/, '');
+  return `${domainOf(url)}${path}${query}`;
+}
+
+/** Hostname without `www.`, lowercased */
+export function domainOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function snippetWords(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** True when `domain` is `pattern` or a subdomain of it ("gov" matches "sec.gov") */
+function domainMatches(domain: string, pattern: string): boolean {
+  const p = pattern.toLowerCase().replace(/^\*?\./, '');
+  return domain === p || domain.endsWith(`.${p}`);
+}
+
+function priorityRank(domain: string | undefined, priority: string[]): number {
+  if (!domain) return priority.length;
+  const index = priority.findIndex(p => domainMatches(domain, p));
+  return index === -1 ? priority.length : index;
+}
+
+export interface EvidenceSelection {
+  highlights: EvidenceHighlight[];
+  counts: EvidenceCounts;
+}
+
+/**
+ * Turn collected bundles into report highlights: deduplicate by canonical URL
+ * and near-identical snippet, apply the domain allow/deny lists, rank by the
+ * priority list (collector order breaks ties), then keep the first `limit`.
+ */
+export function selectEvidence(
+  bundles: EvidenceBundle[],
+  policy: DomainPolicy = {},
+  limit: number = DEFAULT_MAX_EVIDENCE,
+): EvidenceSelection {
+  const candidates: EvidenceHighlight[] = bundles.flatMap(bundle =>
+    bundle.items.map(item => ({
+      title: item.title,
+      source_url: item.source_url,
+      snippet: item.snippet,
+      domain: item.source_url ? domainOf(item.source_url) : undefined,
+      collector: bundle.collector,
+      retrieved_at: item.retrieved_at,
+    })),
+  );
+
+  const seenUrls = new Set<string>();
+  const seenSnippets: Set<string>[] = [];
+  const unique: EvidenceHighlight[] = [];
+  for (const item of candidates) {
+    const url = item.source_url ? canonicalUrl(item.source_url) : undefined;
+    if (url && seenUrls.has(url)) continue;
+    const words = item.snippet ? snippetWords(item.snippet) : undefined;
+    if (words && words.size > 0 && seenSnippets.some(s => similarity(s, words) >= NEAR_DUPLICATE_SIMILARITY)) {
+      continue;
+    }
+    if (url) seenUrls.add(url);
+    if (words && words.size > 0) seenSnippets.push(words);
+    unique.push(item);
+  }
+
+  const allow = policy.allow ?? [];
+  const deny = policy.deny ?? [];
+  const allowed = unique.filter(item => {
+    if (item.domain && deny.some(p => domainMatches(item.domain!, p))) return false;
+    if (allow.length > 0) return !!item.domain && allow.some(p => domainMatches(item.domain!, p));
+    return true;
+  });
+
+  const priority = policy.priority ?? [];
+  const ranked = allowed
+    .map((item, index) => ({ item, index, rank: priorityRank(item.domain, priority) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(entry => entry.item);
+
+  const highlights = ranked.slice(0, limit);
+  return {
+    highlights,
+    counts: {
+      collected: candidates.length,
+      duplicates: candidates.length - unique.length,
+      excluded: unique.length - allowed.length,
+      shown: highlights.length,
+    },
+  };
+}
+
+/** e.g. "Showing 10 of 23 evidence items (5 duplicates merged, 2 excluded by domain policy)" */
+export function describeEvidenceCounts(counts: EvidenceCounts): string {
+  const available = counts.collected - counts.duplicates - counts.excluded;
+  const notes: string[] = [];
+  if (counts.duplicates > 0) notes.push(`${counts.duplicates} duplicates merged`);
+  if (counts.excluded > 0) notes.push(`${counts.excluded} excluded by domain policy`);
+  return `Showing ${counts.shown} of ${available} evidence items` +
+    (notes.length > 0 ? ` (${notes.join(', ')})` : '');
+}
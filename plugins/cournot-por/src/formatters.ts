@@ -0,0 +1,440 @@
+import {
+  describeProvenance,
+  describeReasoningCounts,
+  describeStepDetail,
+  describeStepMetadata,
+  formatReport,
+} from './report.js';
+import { describeEvidenceCounts } from './evidence.js';
+import { describeCache, describeCollectors } from './diagnostics.js';
+import { describeLint } from './lint.js';
+import { describeAgreement, describeDisagreements } from './consensus.js';
+import { describeDistribution } from './sampling.js';
+import { REPORT_SCHEMA_ID, REPORT_SCHEMA_VERSION } from './report-schema.js';
+import type { BatchResult } from './batch.js';
+import type { PorReport } from './types.js';
+
+export type ReportFormatter = (report: PorReport) => string;
+
+const formatters = new Map<string, ReportFormatter>();
+
+export function registerFormatter(name: string, formatter: ReportFormatter): void {
+  formatters.set(name, formatter);
+}
+
+export function getFormatter(name: string): ReportFormatter {
+  const formatter = formatters.get(name);
+  if (!formatter) {
+    throw new Error(`Unknown format "${name}". Available: ${listFormats().join(', ')}`);
+  }
+  return formatter;
+}
+
+export function listFormats(): string[] {
+  return [...formatters.keys()];
+}
+
+// --- JSON ---
+
+/**
+ * The report as a JSON document conforming to REPORT_JSON_SCHEMA. Raw step
+ * responses are omitted.
+ */
+export function toReportJson(report: PorReport): Record<string, unknown> {
+  const { raw: _raw, ...summary } = report;
+  return {
+    $schema: REPORT_SCHEMA_ID,
+    schema_version: REPORT_SCHEMA_VERSION,
+    ...summary,
+  };
+}
+
+function formatJson(report: PorReport): string {
+  return JSON.stringify(toReportJson(report), null, 2);
+}
+
+// --- Plain text ---
+
+function formatText(report: PorReport): string {
+  const lines: string[] = [];
+
+  lines.push('PoR Report');
+  lines.push('==========');
+  lines.push(`Outcome:    ${report.outcome}`);
+  lines.push(`Confidence: ${(report.confidence * 100).toFixed(1)}%`);
+  if (report.resolution_rule_id) {
+    lines.push(`Rule:       ${report.resolution_rule_id}`);
+  }
+
+  if (report.consensus) {
+    const consensus = report.consensus;
+    lines.push('');
+    lines.push(`Consensus:  ${describeAgreement(consensus)}; evidence from ${consensus.representative}`);
+    for (const b of consensus.branches) {
+      lines.push(
+        b.error !== undefined
+          ? `  ${b.group}: failed: ${b.error.split('\n')[0]}`
+          : `  ${b.group}: ${b.outcome} (${((b.confidence ?? 0) * 100).toFixed(1)}%)`,
+      );
+    }
+    for (const d of describeDisagreements(consensus)) lines.push(`  ! ${d}`);
+  }
+
+  if (report.stability) {
+    const stability = report.stability;
+    lines.push('');
+    lines.push(
+      `Stability:  ${stability.unstable ? 'UNSTABLE' : 'stable'}; ${describeDistribution(stability)} ` +
+        `over ${stability.samples.length} samples; evidence from sample ${stability.representative}`,
+    );
+    for (const sample of stability.samples) {
+      lines.push(
+        sample.error !== undefined
+          ? `  #${sample.index}: failed: ${sample.error.split('\n')[0]}`
+          : `  #${sample.index}: ${sample.outcome} (${((sample.confidence ?? 0) * 100).toFixed(1)}%) ${sample.por_root}`,
+      );
+    }
+  }
+
+  lines.push('');
+  lines.push(
+    report.evidence_counts
+      ? `Evidence (${describeEvidenceCounts(report.evidence_counts)}):`
+      : 'Evidence:',
+  );
+  if (report.evidence_highlights.length === 0) {
+    lines.push('  (none)');
+  }
+  for (const item of report.evidence_highlights) {
+    lines.push(`  * ${item.title ?? item.source_url ?? '(untitled)'}`);
+    if (item.title && item.source_url) lines.push(`    ${item.source_url}`);
+    if (item.snippet) lines.push(`    ${item.snippet}`);
+    const provenance = describeProvenance(item);
+    if (provenance) lines.push(`    [${provenance}]`);
+  }
+
+  if (report.requirements_fulfilled?.length || report.requirements_unfulfilled?.length) {
+    lines.push('');
+    lines.push('Requirements:');
+    for (const r of report.requirements_fulfilled ?? []) lines.push(`  [met]     ${r}`);
+    for (const r of report.requirements_unfulfilled ?? []) lines.push(`  [not met] ${r}`);
+  }
+
+  lines.push('');
+  lines.push(
+    report.reasoning_counts && report.reasoning_counts.shown < report.reasoning_counts.total
+      ? `Reasoning (${describeReasoningCounts(report.reasoning_counts)}):`
+      : 'Reasoning:',
+  );
+  if (report.reasoning_summary.length === 0) {
+    lines.push('  (none)');
+  }
+  if (report.reasoning_steps) {
+    report.reasoning_steps.forEach((step, i) => {
+      lines.push(`  ${i + 1}. ${step.description}`);
+      const detail = describeStepDetail(step);
+      if (detail) lines.push(`     [${detail}]`);
+      for (const field of describeStepMetadata(step)) lines.push(`     ${field}`);
+    });
+  } else {
+    report.reasoning_summary.forEach((step, i) => lines.push(`  ${i + 1}. ${step}`));
+  }
+
+  if (report.diagnostics) {
+    const d = report.diagnostics;
+    lines.push('');
+    lines.push('Diagnostics:');
+    lines.push(`  Collectors: ${describeCollectors(d)}`);
+    if (d.cache) lines.push(`  Cache: ${describeCache(d.cache)}`);
+    if (d.preflight) lines.push(`  Pre-flight: ${describeLint(d.preflight)}`);
+    if (d.errors.length === 0) lines.push('  No step errors reported.');
+    for (const e of d.errors) lines.push(`  [${e.step}] ${e.message}`);
+    if (d.execution_logs.length > 0) lines.push('  Collector logs:');
+    for (const log of d.execution_logs) lines.push(`    ${log}`);
+  }
+
+  lines.push('');
+  lines.push('Roots:');
+  lines.push(`  Prompt Spec Hash: ${report.roots.prompt_spec_hash}`);
+  lines.push(`  Evidence Root:    ${report.roots.evidence_root}`);
+  lines.push(`  Reasoning Root:   ${report.roots.reasoning_root}`);
+  lines.push(`  PoR Root:         ${report.roots.por_root}`);
+
+  lines.push('');
+  lines.push("Don't trust the output -- verify the evidence and reasoning.");
+
+  return lines.join('\n');
+}
+
+// --- HTML ---
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isHttpUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h1 { margin-bottom: 0.25rem; }
+.summary { display: flex; gap: 2rem; margin: 1rem 0; }
+.summary div { font-size: 1.1rem; }
+.outcome { font-weight: 700; }
+details { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.5rem 1rem; margin: 0.75rem 0; }
+summary { cursor: pointer; font-weight: 600; }
+li { margin: 0.4rem 0; }
+.snippet { color: #57606a; }
+.meta { color: #57606a; font-size: 0.85rem; }
+.met { color: #1a7f37; }
+.unmet { color: #cf222e; }
+code { font-size: 0.85rem; word-break: break-all; }
+footer { margin-top: 2rem; font-style: italic; color: #57606a; }
+`;
+
+function formatHtml(report: PorReport): string {
+  const parts: string[] = [];
+
+  parts.push('<!DOCTYPE html>');
+  parts.push('<html lang="en">');
+  parts.push('<head>');
+  parts.push('<meta charset="utf-8">');
+  parts.push('<meta name="viewport" content="width=device-width, initial-scale=1">');
+  parts.push(`<title>PoR Report: ${escapeHtml(report.outcome)}</title>`);
+  parts.push(`<style>${HTML_STYLE}</style>`);
+  parts.push('</head>');
+  parts.push('<body>');
+  parts.push('<h1>PoR Report</h1>');
+  parts.push('<div class="summary">');
+  parts.push(`<div>Outcome: <span class="outcome">${escapeHtml(report.outcome)}</span></div>`);
+  parts.push(`<div>Confidence: ${(report.confidence * 100).toFixed(1)}%</div>`);
+  if (report.resolution_rule_id) {
+    parts.push(`<div>Rule: ${escapeHtml(report.resolution_rule_id)}</div>`);
+  }
+  parts.push('</div>');
+
+  if (report.consensus) {
+    const consensus = report.consensus;
+    parts.push('<details open>');
+    parts.push(`<summary>Collector Consensus: ${escapeHtml(describeAgreement(consensus))}</summary>`);
+    parts.push(`<p>Evidence and roots from ${escapeHtml(consensus.representative)}.</p>`);
+    parts.push('<ul>');
+    for (const b of consensus.branches) {
+      parts.push(
+        b.error !== undefined
+          ? `<li class="unmet">${escapeHtml(b.group)}: failed: ${escapeHtml(b.error)}</li>`
+          : `<li>${escapeHtml(b.group)}: ${escapeHtml(b.outcome ?? '')} (${((b.confidence ?? 0) * 100).toFixed(1)}%)</li>`,
+      );
+    }
+    parts.push('</ul>');
+    const disagreements = describeDisagreements(consensus);
+    if (disagreements.length > 0) {
+      parts.push('<ul>');
+      for (const d of disagreements) parts.push(`<li class="unmet">${escapeHtml(d)}</li>`);
+      parts.push('</ul>');
+    }
+    parts.push('</details>');
+  }
+
+  if (report.stability) {
+    const stability = report.stability;
+    const status = stability.unstable ? 'UNSTABLE' : 'Stable';
+    parts.push('<details open>');
+    parts.push(
+      `<summary>Outcome Stability: ${status} (${escapeHtml(describeDistribution(stability))})</summary>`,
+    );
+    parts.push(
+      `<p>Confidence mean ${(stability.confidence_mean * 100).toFixed(1)}%, ` +
+        `std dev ${(Math.sqrt(stability.confidence_variance) * 100).toFixed(1)}%. ` +
+        `Evidence and roots from sample ${stability.representative}.</p>`,
+    );
+    parts.push('<ol>');
+    for (const sample of stability.samples) {
+      parts.push(
+        sample.error !== undefined
+          ? `<li class="unmet">failed: ${escapeHtml(sample.error)}</li>`
+          : `<li>${escapeHtml(sample.outcome ?? '')} (${((sample.confidence ?? 0) * 100).toFixed(1)}%) <code>${escapeHtml(sample.por_root ?? '')}</code></li>`,
+      );
+    }
+    parts.push('</ol>');
+    parts.push('</details>');
+  }
+
+  parts.push('<details open>');
+  parts.push(`<summary>Evidence (${report.evidence_highlights.length})</summary>`);
+  if (report.evidence_highlights.length === 0) {
+    parts.push('<p>No evidence highlights available.</p>');
+  } else {
+    parts.push('<ul>');
+    for (const item of report.evidence_highlights) {
+      const title = escapeHtml(item.title ?? item.source_url ?? 'Untitled');
+      const heading = item.source_url && isHttpUrl(item.source_url)
+        ? `<a href="${escapeHtml(item.source_url)}" rel="noopener noreferrer">${title}</a>`
+        : title;
+      const snippet = item.snippet
+        ? `<div class="snippet">${escapeHtml(item.snippet)}</div>`
+        : '';
+      const provenance = describeProvenance(item);
+      const meta = provenance ? `<div class="meta">${escapeHtml(provenance)}</div>` : '';
+      parts.push(`<li><strong>${heading}</strong>${snippet}${meta}</li>`);
+    }
+    parts.push('</ul>');
+  }
+  if (report.evidence_counts) {
+    parts.push(`<p class="meta">${escapeHtml(describeEvidenceCounts(report.evidence_counts))}</p>`);
+  }
+  parts.push('</details>');
+
+  if (report.requirements_fulfilled?.length || report.requirements_unfulfilled?.length) {
+    parts.push('<details open>');
+    parts.push('<summary>Requirements</summary>');
+    parts.push('<ul>');
+    for (const r of report.requirements_fulfilled ?? []) {
+      parts.push(`<li class="met">&#10003; ${escapeHtml(r)}</li>`);
+    }
+    for (const r of report.requirements_unfulfilled ?? []) {
+      parts.push(`<li class="unmet">&#10007; ${escapeHtml(r)}</li>`);
+    }
+    parts.push('</ul>');
+    parts.push('</details>');
+  }
+
+  parts.push('<details>');
+  parts.push(`<summary>Reasoning (${report.reasoning_summary.length} steps)</summary>`);
+  if (report.reasoning_summary.length === 0) {
+    parts.push('<p>No reasoning steps available.</p>');
+  } else {
+    parts.push('<ol>');
+    if (report.reasoning_steps) {
+      for (const step of report.reasoning_steps) {
+        const detail = describeStepDetail(step);
+        const meta = [detail, ...describeStepMetadata(step)]
+          .filter(Boolean)
+          .map(line => `<div class="meta">${escapeHtml(line)}</div>`)
+          .join('');
+        parts.push(`<li>${escapeHtml(step.description)}${meta}</li>`);
+      }
+    } else {
+      for (const step of report.reasoning_summary) {
+        parts.push(`<li>${escapeHtml(step)}</li>`);
+      }
+    }
+    parts.push('</ol>');
+  }
+  if (report.reasoning_counts && report.reasoning_counts.shown < report.reasoning_counts.total) {
+    parts.push(`<p class="meta">${escapeHtml(describeReasoningCounts(report.reasoning_counts))}</p>`);
+  }
+  parts.push('</details>');
+
+  if (report.diagnostics) {
+    const d = report.diagnostics;
+    // Open when something went wrong, so it is not missed
+    parts.push(d.errors.length > 0 || d.collectors_missing.length > 0 ? '<details open>' : '<details>');
+    parts.push(`<summary>Diagnostics (${d.errors.length} errors)</summary>`);
+    parts.push(`<p>Collectors: ${escapeHtml(describeCollectors(d))}</p>`);
+    if (d.cache) parts.push(`<p>Cache: ${escapeHtml(describeCache(d.cache))}</p>`);
+    if (d.preflight) parts.push(`<p>Pre-flight: ${escapeHtml(describeLint(d.preflight))}</p>`);
+    if (d.errors.length > 0) {
+      parts.push('<ul>');
+      for (const e of d.errors) {
+        parts.push(`<li class="unmet">${escapeHtml(e.step)}: ${escapeHtml(e.message)}</li>`);
+      }
+      parts.push('</ul>');
+    }
+    if (d.execution_logs.length > 0) {
+      parts.push('<ul class="meta">');
+      for (const log of d.execution_logs) parts.push(`<li>${escapeHtml(log)}</li>`);
+      parts.push('</ul>');
+    }
+    parts.push('</details>');
+  }
+
+  parts.push('<details>');
+  parts.push('<summary>PoR Roots</summary>');
+  parts.push('<ul>');
+  parts.push(`<li>Prompt Spec Hash: <code>${escapeHtml(report.roots.prompt_spec_hash)}</code></li>`);
+  parts.push(`<li>Evidence Root: <code>${escapeHtml(report.roots.evidence_root)}</code></li>`);
+  parts.push(`<li>Reasoning Root: <code>${escapeHtml(report.roots.reasoning_root)}</code></li>`);
+  parts.push(`<li>PoR Root: <code>${escapeHtml(report.roots.por_root)}</code></li>`);
+  parts.push('</ul>');
+  parts.push('</details>');
+
+  parts.push("<footer>Don't trust the output -- verify the evidence and reasoning.</footer>");
+  parts.push('</body>');
+  parts.push('</html>');
+
+  return parts.join('\n');
+}
+
+// --- CSV ---
+
+const CSV_COLUMNS = [
+  'id',
+  'query',
+  'status',
+  'outcome',
+  'confidence',
+  'resolution_rule_id',
+  'requirements_fulfilled',
+  'requirements_unfulfilled',
+  'evidence_count',
+  'por_root',
+  'error',
+] as const;
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  let text = String(value);
+  // Keep spreadsheets from evaluating cells as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(
+  report: Omit<PorReport, 'raw'> | undefined,
+  extra: { id?: string; query?: string; status: string; error?: string },
+): string {
+  const values: Record<(typeof CSV_COLUMNS)[number], string | number | undefined> = {
+    id: extra.id,
+    query: extra.query,
+    status: extra.status,
+    outcome: report?.outcome,
+    confidence: report?.confidence,
+    resolution_rule_id: report?.resolution_rule_id,
+    requirements_fulfilled: report?.requirements_fulfilled?.join('; '),
+    requirements_unfulfilled: report?.requirements_unfulfilled?.join('; '),
+    evidence_count: report?.evidence_highlights.length,
+    por_root: report?.roots.por_root,
+    error: extra.error,
+  };
+  return CSV_COLUMNS.map(col => csvCell(values[col])).join(',');
+}
+
+function formatCsv(report: PorReport): string {
+  return [CSV_COLUMNS.join(','), csvRow(report, { status: 'ok' })].join('\n');
+}
+
+/**
+ * Flatten batch results into CSV, one row per market.
+ */
+export function formatResultsCsv(results: BatchResult[]): string {
+  const lines: string[] = [CSV_COLUMNS.join(',')];
+  for (const r of results) {
+    lines.push(csvRow(r.report, { id: r.id, query: r.query, status: r.status, error: r.error }));
+  }
+  return lines.join('\n');
+}
+
+registerFormatter('markdown', formatReport);
+registerFormatter('text', formatText);
+registerFormatter('html', formatHtml);
+registerFormatter('json', formatJson);
+registerFormatter('csv', formatCsv);
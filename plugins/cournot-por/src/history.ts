@@ -0,0 +1,168 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { historyPath } from './paths.js';
+import type { PipelineOptions, PorReport } from './types.js';
+
+/** The options that shaped a resolution, as recorded in history */
+export type HistoryOptions = Pick<
+  PipelineOptions,
+  | 'strict_mode'
+  | 'collectors'
+  | 'include_raw_content'
+  | 'schema_mode'
+  | 'consensus_groups'
+  | 'samples'
+  | 'sample_scope'
+  | 'stability_threshold'
+>;
+
+export interface HistoryEntry {
+  /** The run ID when the run was checkpointed */
+  id: string;
+  query: string;
+  options: HistoryOptions;
+  started_at: string;
+  finished_at: string;
+  outcome: string;
+  confidence: number;
+  roots: PorReport['roots'];
+  /** The full report, including raw step responses */
+  report: PorReport;
+}
+
+/**
+ * The recordable subset of pipeline options; never the access code.
+ */
+export function historyOptions(options: PipelineOptions): HistoryOptions {
+  return {
+    strict_mode: options.strict_mode,
+    collectors: options.collectors,
+    include_raw_content: options.include_raw_content,
+    schema_mode: options.schema_mode,
+    consensus_groups: options.consensus_groups,
+    samples: options.samples,
+    sample_scope: options.sample_scope,
+    stability_threshold: options.stability_threshold,
+  };
+}
+
+/**
+ * Append one resolution to the history file, one JSON object per line.
+ */
+export async function appendHistory(
+  entry: HistoryEntry,
+  path: string = historyPath(),
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, JSON.stringify(entry) + '\n');
+}
+
+/**
+ * Append a finished resolution to the history, unless a run with this ID is
+ * already there (a `--resume` of a run that had finished). A history failure
+ * should not discard a completed resolution, so it only warns.
+ */
+export async function recordHistory(
+  id: string,
+  options: PipelineOptions,
+  startedAt: string,
+  report: PorReport,
+  path: string = historyPath(),
+): Promise<void> {
+  try {
+    if ((await readHistory(path)).some(e => e.id === id)) return;
+    await appendHistory({
+      id,
+      query: options.query,
+      options: historyOptions(options),
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      outcome: report.outcome,
+      confidence: report.confidence,
+      roots: report.roots,
+      report,
+    }, path);
+  } catch (err) {
+    console.error('Warning: could not record history:', err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * All recorded resolutions, oldest first. A truncated last line (from an
+ * interrupted write) is skipped.
+ */
+export async function readHistory(path: string = historyPath()): Promise<HistoryEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // Partial line from an interrupted append
+    }
+  }
+  return entries;
+}
+
+/**
+ * Look up an entry by ID or unique ID prefix. An ID recorded more than once
+ * (by older versions on resume) resolves to its newest entry.
+ */
+export function findHistoryEntry(entries: HistoryEntry[], id: string): HistoryEntry {
+  const latest = new Map<string, HistoryEntry>();
+  for (const entry of entries) latest.set(entry.id, entry);
+  const exact = latest.get(id);
+  if (exact) return exact;
+
+  const matches = [...latest.values()].filter(e => e.id.startsWith(id));
+  if (matches.length === 0) {
+    throw new Error(`No resolution found with id ${id}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Id ${id} is ambiguous; it matches ${matches.map(e => e.id).join(', ')}`,
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Entries whose query contains every word of `text`, case-insensitively.
+ */
+export function searchHistory(entries: HistoryEntry[], text: string): HistoryEntry[] {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(e => {
+    const query = e.query.toLowerCase();
+    return words.every(w => query.includes(w));
+  });
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+/**
+ * One line per entry, newest first.
+ */
+export function formatHistoryList(entries: HistoryEntry[]): string {
+  if (entries.length === 0) return 'No resolutions recorded.';
+
+  const lines: string[] = [];
+  lines.push(`${'ID'.padEnd(24)} ${'Finished'.padEnd(20)} ${'Outcome'.padEnd(10)} ${'Conf.'.padStart(6)}  Query`);
+  for (const e of [...entries].reverse()) {
+    lines.push(
+      `${e.id.padEnd(24)} ${e.finished_at.slice(0, 19).replace('T', ' ').padEnd(20)} ` +
+        `${truncate(e.outcome, 10).padEnd(10)} ${`${(e.confidence * 100).toFixed(1)}%`.padStart(6)}  ` +
+        truncate(e.query, 60),
+    );
+  }
+  return lines.join('\n');
+}
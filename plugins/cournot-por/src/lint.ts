@@ -0,0 +1,417 @@
+import type { DateRewrite, LintIssue, QueryLint } from './types.js';
+
+/**
+ * Pre-flight checks on a question before any gateway call. A question the
+ * pipeline can resolve names a subject, a measurable criterion and a
+ * deadline; "Will BTC go up?" has none of the last two and only ends in a
+ * low-confidence UNKNOWN after five steps. Relative dates ("by Saturday",
+ * "end of the month") are rewritten as absolute ones against a reference
+ * date, so the prompt step and later re-runs read the same question.
+ *
+ * The checks are heuristics: errors mean the question cannot be resolved as
+ * written, warnings that it probably resolves poorly.
+ */
+
+const DAY_MS = 86_400_000;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+/** Only a capitalized name counts in a bare "March 10", so the verbs "march" and "may" stay verbs */
+const CAPITALIZED_MONTH = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+const ORDINAL = '(?:st|nd|rd|th)?';
+const COUNT_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+const COUNT = `(\\d+|${Object.keys(COUNT_WORDS).join('|')})`;
+
+/** Absolute dates and periods that give a question its deadline */
+const ABSOLUTE_DATE = new RegExp(
+  [
+    '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+    `\\b${MONTH}\\s+\\d{1,2}${ORDINAL},?\\s+\\d{4}\\b`,
+    `\\b\\d{1,2}${ORDINAL}\\s+(?:of\\s+)?${MONTH},?\\s+\\d{4}\\b`,
+    `\\b${MONTH},?\\s+\\d{4}\\b`,
+    '\\b[qh][1-4]\\s+\\d{4}\\b',
+    '\\b(?:by|before|in|during|until|through|after|end of)\\s+(?:the\\s+)?(?:year\\s+)?(?:19|20)\\d{2}\\b(?!-)',
+  ].join('|'),
+  'i',
+);
+
+const QUESTION_WORDS = [
+  'will', 'would', 'did', 'does', 'do', 'is', 'are', 'was', 'were', 'has', 'have', 'had',
+  'can', 'could', 'should', 'who', 'what', 'when', 'which', 'where', 'how',
+];
+
+/** Capitalized words that do not name a subject */
+const NOT_SUBJECTS = new Set([
+  ...QUESTION_WORDS,
+  ...WEEKDAYS,
+  ...MONTHS.map(m => m.toLowerCase()),
+  'the', 'a', 'an', 'i', 'by', 'before', 'in', 'on', 'at', 'of', 'utc', 'gmt', 'et', 'est', 'pst',
+]);
+
+const PRONOUN_SUBJECT = new RegExp(
+  `^\\s*(?:${QUESTION_WORDS.join('|')})\\s+(it|they|this|that|he|she|someone|something|anyone|anything|things|prices?)\\b`,
+  'i',
+);
+
+/** Relative periods too vague to rewrite as a date ("in the coming weeks", "soon") */
+const VAGUE_RELATIVE =
+  /\b(?:(?:in|within|over|during)\s+the\s+(?:next|coming)\s+(?:(?:few|several|couple(?:\s+of)?)\s+)?(?:days|weeks|months|years)|in\s+(?:a\s+few|several|a\s+couple\s+of)\s+(?:days|weeks|months|years)|in\s+the\s+(?:near|foreseeable)\s+future|(?:any\s*time\s+)?soon|shortly)\b/i;
+
+/** A year on its own ("the 2028 election"), not a price, percentage or part of a date */
+const BARE_YEAR = /(?<![$\d.,-])\b(?:19|20)\d{2}\b(?![-\d%]|\.\d)/;
+
+/** Directions without a threshold */
+const VAGUE_CRITERION =
+  /\b(go(?:es)? up|go(?:es)? down|rise|fall|increase|decrease|do(?:es)? well|perform well|be (?:successful|popular|good|bad|big)|succeed|moon|pump|dump|crash|rally|improve|get (?:better|worse)|recover|soar|plummet|tank)\b/i;
+
+/** Events that either happen or not, which makes a question measurable without a number */
+const DECISIVE_EVENT =
+  /\b(win|won|lose|lost|announc|approv|reject|releas|launch|sign|pass|resign|elect|nominat|acquir|merg|list|delist|ban|default|file[sd]?|ship|confirm|cut|rais|hike|reach|exceed|surpass|clos|hit|top|beat|declar|invad|occur|happen|held|hold|ipo|split|indict|convict|sentenc|arrest|die|retir|fire|hire|appoint|veto|ratif|legaliz|impos|lift|resum|suspend|complet|finish|qualif|advanc|eliminat)\w*/i;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/** Same day `months` later, clamped to the end of a shorter month */
+function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const last = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), last)));
+}
+
+/** "3", "three", "a" or "an" as a number */
+function countValue(word: string): number {
+  return COUNT_WORDS[word.toLowerCase()] ?? Number(word);
+}
+
+function monthIndex(name: string): number {
+  const prefix = name.toLowerCase().slice(0, 3);
+  return MONTHS.findIndex(m => m.toLowerCase().startsWith(prefix));
+}
+
+/** Midnight UTC of a YYYY-MM-DD date; throws on anything else */
+export function parseReferenceDate(value: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(date.getTime()) || isoDate(date) !== value) {
+    throw new Error(`Invalid reference date "${value}"; use YYYY-MM-DD`);
+  }
+  return date;
+}
+
+/** Today as YYYY-MM-DD (UTC) */
+export function today(): string {
+  return isoDate(new Date());
+}
+
+interface DateRule {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, ref: Date) => string | undefined;
+}
+
+/** Last day of the week (Sunday), month or year containing `ref`, or of the next one */
+function endOfPeriod(period: string, next: boolean, ref: Date): Date {
+  const year = ref.getUTCFullYear();
+  const month = ref.getUTCMonth();
+  switch (period) {
+    case 'week':
+      return addDays(ref, (7 - ref.getUTCDay()) % 7 + (next ? 7 : 0));
+    case 'month':
+      return new Date(Date.UTC(year, month + (next ? 2 : 1), 0));
+    default:
+      return new Date(Date.UTC(year + (next ? 1 : 0), 11, 31));
+  }
+}
+
+/** The preposition the phrase came with, or `fallback`; "at the end of" becomes "on" */
+function preposition(found: string | undefined, fallback: string): string {
+  if (!found) return fallback;
+  return found.toLowerCase() === 'at' ? 'on' : found;
+}
+
+function offset(amount: number, unit: string, ref: Date): Date {
+  if (unit === 'year') return addMonths(ref, amount * 12);
+  if (unit === 'month') return addMonths(ref, amount);
+  return addDays(ref, amount * (unit === 'week' ? 7 : 1));
+}
+
+/** Rules in order: longer phrases first, so "end of next week" is not read as "next week" */
+const DATE_RULES: DateRule[] = [
+  {
+    pattern: /\b(?:(by|before|until|at|on)\s+)?(?:the\s+)?end\s+of\s+(?:(?:the|this)\s+)?(next\s+)?(week|month|year)\b/gi,
+    resolve: (m, ref) =>
+      `${preposition(m[1], 'by')} ${isoDate(endOfPeriod(m[3].toLowerCase(), Boolean(m[2]), ref))}`,
+  },
+  {
+    pattern: new RegExp(
+      `\\b(?:(?:in|within|over|during)\\s+the\\s+(?:next|coming)|in|within|(?:the\\s+)?next)\\s+${COUNT}\\s+(day|week|month|year)s?(?:\\s+from\\s+(?:now|today))?\\b`,
+      'gi',
+    ),
+    resolve: (m, ref) => `by ${isoDate(offset(countValue(m[1]), m[2].toLowerCase(), ref))}`,
+  },
+  {
+    pattern: new RegExp(`\\b${COUNT}\\s+(day|week|month|year)s?\\s+from\\s+(?:now|today)\\b`, 'gi'),
+    resolve: (m, ref) => isoDate(offset(countValue(m[1]), m[2].toLowerCase(), ref)),
+  },
+  {
+    pattern: /\b(?:(by|in|during|before|until)\s+)?(next|this)\s+(week|month|year)\b/gi,
+    resolve: (m, ref) => {
+      const next = m[2].toLowerCase() === 'next';
+      const prep = preposition(m[1], 'in');
+      switch (m[3].toLowerCase()) {
+        case 'week':
+          return `${prep} the week of ${isoDate(addDays(endOfPeriod('week', next, ref), -6))}`;
+        case 'month': {
+          const start = addMonths(new Date(Date.UTC(ref.getUTCFullYear(), ref.getUTCMonth(), 1)), next ? 1 : 0);
+          return `${prep} ${MONTHS[start.getUTCMonth()]} ${start.getUTCFullYear()}`;
+        }
+        default:
+          return `${prep} ${ref.getUTCFullYear() + (next ? 1 : 0)}`;
+      }
+    },
+  },
+  {
+    pattern: /\b(?:(by|on|before|until|after)\s+)?(today|tonight|tomorrow)\b/gi,
+    resolve: (m, ref) => `${preposition(m[1], 'on')} ${isoDate(addDays(ref, m[2].toLowerCase() === 'tomorrow' ? 1 : 0))}`,
+  },
+  {
+    pattern: new RegExp(`\\b(?:(by|on|before|until|after)\\s+)?(?:(next|this|coming)\\s+)?(${WEEKDAYS.join('|')})\\b`, 'gi'),
+    resolve: (m, ref) => {
+      // A bare or "this" weekday can be today; "next" is always a later day
+      const ahead = (WEEKDAYS.indexOf(m[3].toLowerCase()) - ref.getUTCDay() + 7) % 7;
+      const date = addDays(ref, m[2]?.toLowerCase() === 'next' ? ahead || 7 : ahead);
+      return `${preposition(m[1], 'on')} ${isoDate(date)}`;
+    },
+  },
+  {
+    pattern: new RegExp(`\\b${CAPITALIZED_MONTH}\\s+(\\d{1,2})${ORDINAL}\\b(?!,?\\s*\\d{4})`, 'g'),
+    resolve: (m, ref) => nextOccurrence(monthIndex(m[1]), Number(m[2]), ref),
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${CAPITALIZED_MONTH}\\b(?!,?\\s*\\d{4})`, 'g'),
+    resolve: (m, ref) => nextOccurrence(monthIndex(m[2]), Number(m[1]), ref),
+  },
+  {
+    pattern: new RegExp(`\\b(in|by|before|during|until|through|end of)\\s+${MONTH}\\b(?!,?\\s*\\d)`, 'gi'),
+    resolve: (m, ref) => {
+      const month = monthIndex(m[2]);
+      const year = ref.getUTCFullYear() + (month < ref.getUTCMonth() ? 1 : 0);
+      return `${m[1]} ${MONTHS[month]} ${year}`;
+    },
+  },
+];
+
+/** A month and day without a year: the first such date on or after `ref` */
+function nextOccurrence(month: number, day: number, ref: Date): string | undefined {
+  for (const year of [ref.getUTCFullYear(), ref.getUTCFullYear() + 1]) {
+    const date = new Date(Date.UTC(year, month, day));
+    if (date.getUTCMonth() !== month) return undefined;
+    if (date.getTime() >= ref.getTime()) return isoDate(date);
+  }
+  return undefined;
+}
+
+/**
+ * Rewrite relative dates in `query` as absolute ones. Returns the rewritten
+ * query and each rewrite made.
+ */
+export function normalizeQueryDates(query: string, ref: Date): { query: string; rewrites: DateRewrite[] } {
+  const rewrites: DateRewrite[] = [];
+  let text = query;
+  for (const rule of DATE_RULES) {
+    text = text.replace(rule.pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpExecArray;
+      const normalized = rule.resolve(match, ref);
+      if (normalized === undefined) return match[0];
+      rewrites.push({ original: match[0], normalized });
+      return normalized;
+    });
+  }
+  return { query: text, rewrites };
+}
+
+function hasNamedSubject(query: string): boolean {
+  if (/["“][^"”]+["”]/.test(query)) return true;
+  return query.split(/\s+/).some(word => {
+    const token = word.replace(/^[^\w$]+|[^\w&]+$/g, '');
+    if (!token || NOT_SUBJECTS.has(token.toLowerCase())) return false;
+    if (/^\$[a-z]/i.test(token)) return true;
+    if (/^[qh][1-4]$/i.test(token)) return false;
+    return /^[A-Z]/.test(token);
+  });
+}
+
+function checkSubject(query: string): LintIssue | undefined {
+  if (hasNamedSubject(query)) return undefined;
+  const pronoun = PRONOUN_SUBJECT.exec(query);
+  if (pronoun) {
+    return {
+      check: 'subject',
+      severity: 'warning',
+      message: `Unclear subject "${pronoun[1]}": name the asset, person, organization or event.`,
+    };
+  }
+  return {
+    check: 'subject',
+    severity: 'warning',
+    message: 'No clear subject: name the asset, person, organization or event the question is about.',
+  };
+}
+
+function checkCriterion(query: string): LintIssue | undefined {
+  // Dates and years say when, not what; only other numbers make a threshold
+  const withoutDates = query.replace(new RegExp(ABSOLUTE_DATE.source, 'gi'), ' ').replace(/\b(?:19|20)\d{2}\b/g, ' ');
+  const hasNumber = /\d/.test(withoutDates);
+  const vague = VAGUE_CRITERION.exec(query);
+  if (vague && !hasNumber) {
+    return {
+      check: 'criterion',
+      severity: 'warning',
+      message: `"${vague[0]}" is not measurable: give a threshold and a source, e.g. "close above $70,000 on Coinbase".`,
+    };
+  }
+  if (!vague && !hasNumber && !DECISIVE_EVENT.test(query)) {
+    return {
+      check: 'criterion',
+      severity: 'warning',
+      message: 'No measurable criterion: say what outcome counts as YES, e.g. a price threshold or a specific announcement.',
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Lint a question and normalize its relative dates. `referenceDate`
+ * (YYYY-MM-DD) is the day relative dates count from; defaults to today (UTC).
+ */
+export function lintQuery(query: string, referenceDate: string = today()): QueryLint {
+  const { query: normalized, rewrites } = normalizeQueryDates(query, parseReferenceDate(referenceDate));
+  const issues: LintIssue[] = [];
+
+  if (!normalized.trim()) {
+    issues.push({ check: 'subject', severity: 'error', message: 'The query is empty.' });
+  } else {
+    const subject = checkSubject(normalized);
+    if (subject) issues.push(subject);
+    const criterion = checkCriterion(normalized);
+    if (criterion) issues.push(criterion);
+  }
+
+  const deadline = ABSOLUTE_DATE.exec(normalized)?.[0];
+  const vague = VAGUE_RELATIVE.exec(normalized)?.[0];
+  const year = BARE_YEAR.exec(normalized)?.[0];
+  if (!deadline && vague) {
+    issues.push({
+      check: 'deadline',
+      severity: 'warning',
+      message: `"${vague}" is not a date: give the deadline, e.g. "by 2026-12-31", so every run reads it the same way.`,
+    });
+  } else if (!deadline && year) {
+    // "the 2028 election" resolves when the event does; only the exact date is unclear
+    issues.push({
+      check: 'deadline',
+      severity: 'warning',
+      message: `Only a year (${year}) bounds the question: give the date it resolves by, e.g. "by ${year}-12-31".`,
+    });
+  } else if (!deadline && normalized.trim()) {
+    issues.push({
+      check: 'deadline',
+      severity: 'error',
+      message: 'No resolution deadline: add a date or period, e.g. "by 2026-12-31" or "in Q1 2027".',
+    });
+  }
+
+  return {
+    query,
+    normalized_query: normalized,
+    reference_date: referenceDate,
+    deadline,
+    date_rewrites: rewrites,
+    issues,
+  };
+}
+
+export function hasLintErrors(lint: QueryLint): boolean {
+  return lint.issues.some(issue => issue.severity === 'error');
+}
+
+/** e.g. "no issues; dates normalized against 2026-10-19: Saturday → 2026-10-24" */
+export function describeLint(lint: QueryLint): string {
+  const parts = [
+    lint.issues.length === 0
+      ? 'no issues'
+      : lint.issues.map(issue => `${issue.check} ${issue.severity}: ${issue.message}`).join('; '),
+  ];
+  if (lint.date_rewrites.length > 0) {
+    const rewrites = lint.date_rewrites.map(r => `${r.original} → ${r.normalized}`).join(', ');
+    parts.push(`dates normalized against ${lint.reference_date}: ${rewrites}`);
+  }
+  return parts.join('; ');
+}
+
+/** Multi-line lint result for the `lint` command */
+export function formatLint(lint: QueryLint): string {
+  const lines = [`Query:      ${lint.query}`];
+  if (lint.normalized_query !== lint.query) {
+    lines.push(`Normalized: ${lint.normalized_query}`);
+    for (const r of lint.date_rewrites) lines.push(`            "${r.original}" → ${r.normalized}`);
+  }
+  lines.push(`Reference:  ${lint.reference_date}`);
+  lines.push(`Deadline:   ${lint.deadline ?? '(none found)'}`);
+  lines.push('');
+  if (lint.issues.length === 0) {
+    lines.push('✓ No issues found.');
+  } else {
+    for (const issue of lint.issues) {
+      lines.push(`${issue.severity === 'error' ? '✗' : '!'} ${issue.check}: ${issue.message}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function describeValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  return text.length > 200 ? `${text.slice(0, 199)}…` : text;
+}
+
+/**
+ * The prompt step's interpretation of a question: its question, deadline
+ * and resolution rules first, then any other fields.
+ */
+export function formatPromptSpec(spec: unknown): string {
+  if (typeof spec !== 'object' || spec === null || Array.isArray(spec)) {
+    return `Interpretation (prompt_spec): ${describeValue(spec)}`;
+  }
+  const fields = spec as Record<string, unknown>;
+  const lines = ['Interpretation (prompt_spec):'];
+  const shown = new Set(['question', 'market_id', 'deadline', 'resolution_rules']);
+  if (fields.question !== undefined) lines.push(`  Question: ${describeValue(fields.question)}`);
+  if (fields.market_id !== undefined) lines.push(`  Market:   ${describeValue(fields.market_id)}`);
+  lines.push(`  Deadline: ${fields.deadline !== undefined ? describeValue(fields.deadline) : '(not set)'}`);
+  if (Array.isArray(fields.resolution_rules) && fields.resolution_rules.length > 0) {
+    lines.push('  Resolution rules:');
+    for (const rule of fields.resolution_rules) {
+      const r = (rule ?? {}) as Record<string, unknown>;
+      lines.push(typeof r.rule_id === 'string'
+        ? `    - ${r.rule_id}${r.description ? `: ${describeValue(r.description)}` : ''}`
+        : `    - ${describeValue(rule)}`);
+    }
+  } else {
+    lines.push('  Resolution rules: (none)');
+  }
+  for (const [key, value] of Object.entries(fields)) {
+    if (!shown.has(key)) lines.push(`  ${key}: ${describeValue(value)}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,427 @@
+import { createInterface } from 'node:readline';
+import { getCapabilities, runPipeline, runSingleStep, STEP_PATHS } from './pipeline.js';
+import { formatReport } from './report.js';
+import { toReportJson } from './formatters.js';
+import { REPORT_JSON_SCHEMA } from './report-schema.js';
+import { verifyBundle, formatVerification } from './verify.js';
+import { formatLint, lintQuery } from './lint.js';
+import { recordHistory } from './history.js';
+import { newRunId } from './checkpoint.js';
+import { issuesFromZod, resolveRequestOptions, resolveRequestSchema } from './schemas.js';
+import { AuthError, CournotError, SchemaError, describeErrorContext } from './errors.js';
+import type { GatewayClientOptions } from './client.js';
+import type { PipelineEvent, StepName } from './types.js';
+
+/**
+ * Model Context Protocol server over stdio: newline-delimited JSON-RPC 2.0 on
+ * stdin/stdout. The access code comes from the server's own configuration
+ * (COURNOT_CODE or the login credentials file), never from tool arguments, so
+ * it does not appear in transcripts.
+ */
+
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = { name: 'cournot-por', version: '1.0.0' };
+
+type JsonRpcId = string | number;
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: JsonRpcId | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+export interface McpServerOptions {
+  /** Looked up on every tool call, so a later `login` is picked up */
+  getCode: () => Promise<string | undefined>;
+  clientOptions?: GatewayClientOptions;
+  /** Send a notification (e.g. progress) to the client */
+  notify?: (message: JsonRpcMessage) => void;
+  /** Record por_resolve results in the local history (default: true) */
+  recordHistory?: boolean;
+}
+
+interface ToolContext {
+  getCode: () => Promise<string>;
+  clientOptions: GatewayClientOptions;
+  onEvent: (event: PipelineEvent) => void;
+  recordHistory: boolean;
+}
+
+interface ToolOutput {
+  text: string;
+  structured?: Record<string, unknown>;
+}
+
+interface ToolDefinition {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  run: (args: Record<string, unknown>, ctx: ToolContext) => Promise<ToolOutput>;
+}
+
+// --- Tool input schemas ---
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const RESOLVE_INPUT_SCHEMA = {
+  type: 'object',
+  required: ['query'],
+  additionalProperties: false,
+  properties: {
+    query: { type: 'string', description: 'The question or market to resolve' },
+    strict_mode: { type: 'boolean', description: 'Enable strict mode' },
+    collectors: { ...stringArray, description: 'Collectors to use (default: CollectorGeminiGrounded)' },
+    include_raw_content: { type: 'boolean', description: 'Include raw evidence content' },
+    consensus_groups: {
+      type: 'array',
+      items: stringArray,
+      minItems: 2,
+      description: 'Judge each collector group separately and report their agreement',
+    },
+    samples: { type: 'integer', minimum: 1, description: 'Repeat the judgement N times and report stability' },
+    sample_scope: { enum: ['reasoning', 'full'], description: 'What each sample re-runs' },
+    prefer_domains: { ...stringArray, description: 'Rank evidence from these domains first, in order' },
+    allow_domains: { ...stringArray, description: 'Only show evidence from these domains' },
+    deny_domains: { ...stringArray, description: 'Never show evidence from these domains' },
+    max_evidence: { type: 'integer', minimum: 0, description: 'Evidence highlights shown (default: 10)' },
+    full: { type: 'boolean', description: 'Every evidence item and reasoning step, with step details' },
+    total_timeout_seconds: { type: 'number', exclusiveMinimum: 0, description: 'Overall budget for the run' },
+    preflight: {
+      enum: ['warn', 'strict'],
+      description: 'Lint the question first and send the prompt step its normalized form; strict aborts on errors',
+    },
+    reference_date: { type: 'string', description: 'Day relative dates count from, YYYY-MM-DD (default: today)' },
+  },
+};
+
+const payload = (description: string) => ({ description });
+
+const STEP_INPUT_SCHEMAS: Record<StepName, Record<string, unknown>> = {
+  prompt: {
+    type: 'object',
+    required: ['user_input'],
+    properties: {
+      user_input: { type: 'string', description: 'The question or market to resolve' },
+      strict_mode: { type: 'boolean' },
+    },
+  },
+  collect: {
+    type: 'object',
+    required: ['prompt_spec', 'tool_plan'],
+    properties: {
+      prompt_spec: payload('prompt_spec from por_step_prompt'),
+      tool_plan: payload('tool_plan from por_step_prompt'),
+      collectors: stringArray,
+      include_raw_content: { type: 'boolean' },
+    },
+  },
+  audit: {
+    type: 'object',
+    required: ['prompt_spec', 'evidence_bundles'],
+    properties: {
+      prompt_spec: payload('prompt_spec from por_step_prompt'),
+      evidence_bundles: { type: 'array', description: 'evidence_bundles from por_step_collect' },
+    },
+  },
+  judge: {
+    type: 'object',
+    required: ['prompt_spec', 'evidence_bundles', 'reasoning_trace'],
+    properties: {
+      prompt_spec: payload('prompt_spec from por_step_prompt'),
+      evidence_bundles: { type: 'array', description: 'evidence_bundles from por_step_collect' },
+      reasoning_trace: payload('reasoning_trace from por_step_audit'),
+    },
+  },
+  bundle: {
+    type: 'object',
+    required: ['prompt_spec', 'evidence_bundles', 'reasoning_trace', 'verdict'],
+    properties: {
+      prompt_spec: payload('prompt_spec from por_step_prompt'),
+      evidence_bundles: { type: 'array', description: 'evidence_bundles from por_step_collect' },
+      reasoning_trace: payload('reasoning_trace from por_step_audit'),
+      verdict: payload('verdict from por_step_judge'),
+    },
+  },
+};
+
+const STEP_DESCRIPTIONS: Record<StepName, string> = {
+  prompt: 'Step 1: turn a question into a prompt_spec and tool_plan.',
+  collect: 'Step 2: gather evidence bundles for a prompt_spec.',
+  audit: 'Step 3: produce a reasoning trace from the evidence.',
+  judge: 'Step 4: render a verdict, outcome and confidence.',
+  bundle: 'Step 5: build the PoR bundle and its Merkle roots.',
+};
+
+function asObject(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+// --- Tools ---
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'por_resolve',
+    title: 'Resolve with Proof-of-Reasoning',
+    description:
+      'Run the full 5-step Cournot PoR pipeline for a question and return the report: ' +
+      'outcome, confidence, evidence, requirements, reasoning, diagnostics and verifiable roots.',
+    inputSchema: RESOLVE_INPUT_SCHEMA,
+    outputSchema: REPORT_JSON_SCHEMA as unknown as Record<string, unknown>,
+    run: async (raw, ctx) => {
+      const parsed = resolveRequestSchema.safeParse(raw);
+      if (!parsed.success) {
+        throw SchemaError.fromIssues('Invalid arguments for por_resolve', issuesFromZod(parsed.error));
+      }
+      const options = resolveRequestOptions(parsed.data, await ctx.getCode());
+      const startedAt = new Date().toISOString();
+      const report = await runPipeline({ ...options, onEvent: ctx.onEvent }, ctx.clientOptions);
+      if (ctx.recordHistory) {
+        await recordHistory(newRunId(), options, startedAt, report);
+      }
+      return { text: formatReport(report), structured: toReportJson(report) };
+    },
+  },
+  {
+    name: 'por_capabilities',
+    title: 'Cournot capabilities',
+    description: 'List the collectors and providers the Cournot gateway offers.',
+    inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+    run: async (_args, ctx) => {
+      const result = asObject(await getCapabilities(await ctx.getCode(), ctx.clientOptions));
+      return { text: JSON.stringify(result, null, 2), structured: result };
+    },
+  },
+  ...(Object.keys(STEP_PATHS) as StepName[]).map((step): ToolDefinition => ({
+    name: `por_step_${step}`,
+    title: `PoR step: ${step}`,
+    description: `${STEP_DESCRIPTIONS[step]} Calls ${STEP_PATHS[step]} and returns the validated response.`,
+    inputSchema: STEP_INPUT_SCHEMAS[step],
+    run: async (args, ctx) => {
+      const result = asObject(await runSingleStep(step, await ctx.getCode(), args, ctx.clientOptions));
+      return { text: JSON.stringify(result, null, 2), structured: result };
+    },
+  })),
+  {
+    name: 'por_lint',
+    title: 'Lint a question',
+    description:
+      'Check a question for a clear subject, a measurable criterion and a resolvable deadline, and rewrite ' +
+      'relative dates as absolute ones. Makes no gateway calls; pass normalized_query to por_step_prompt ' +
+      'to see how the gateway interprets it before resolving.',
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      additionalProperties: false,
+      properties: {
+        query: { type: 'string', description: 'The question or market to check' },
+        reference_date: { type: 'string', description: 'Day relative dates count from, YYYY-MM-DD (default: today)' },
+      },
+    },
+    run: async args => {
+      const lint = lintQuery(
+        typeof args.query === 'string' ? args.query : '',
+        typeof args.reference_date === 'string' ? args.reference_date : undefined,
+      );
+      return { text: formatLint(lint), structured: lint as unknown as Record<string, unknown> };
+    },
+  },
+  {
+    name: 'por_verify',
+    title: 'Verify a PoR bundle',
+    description:
+      'Recompute the Merkle roots of a PoR bundle offline and compare them with the claimed roots. ' +
+      'Accepts a /step/bundle response, a por_step_bundle result, or a report with raw data.',
+    inputSchema: {
+      type: 'object',
+      required: ['bundle'],
+      properties: { bundle: { type: 'object', description: 'The bundle to verify' } },
+    },
+    run: async args => {
+      const result = verifyBundle(args.bundle);
+      return {
+        text: formatVerification(result),
+        structured: result as unknown as Record<string, unknown>,
+      };
+    },
+  },
+];
+
+/** "Error: ..." plus what a caller needs to decide whether to retry */
+function describeToolError(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err);
+  if (!(err instanceof CournotError)) return `Error: ${message}`;
+  const details = [`kind: ${err.kind}`, describeErrorContext(err), `retryable: ${err.retryable}`]
+    .filter(Boolean)
+    .join(', ');
+  return `Error: ${message}\n(${details})`;
+}
+
+/**
+ * Protocol handling without the transport, so it can be driven directly.
+ * `handle` returns the response for requests and undefined for notifications.
+ */
+export function createMcpServer(options: McpServerOptions) {
+  const inFlight = new Map<JsonRpcId, AbortController>();
+  const notify = options.notify ?? (() => {});
+
+  const getCode = async () => {
+    const code = await options.getCode();
+    if (!code) {
+      throw new AuthError(
+        'No access code configured for the MCP server. Run `cournot-por login` or set COURNOT_CODE in its environment.',
+      );
+    }
+    return code;
+  };
+
+  async function callTool(id: JsonRpcId, params: Record<string, unknown>): Promise<unknown> {
+    const tool = TOOLS.find(t => t.name === params.name);
+    if (!tool) {
+      throw Object.assign(new Error(`Unknown tool: ${String(params.name)}`), { rpcCode: INVALID_PARAMS });
+    }
+
+    const controller = new AbortController();
+    inFlight.set(id, controller);
+    const progressToken = asObject(params._meta).progressToken;
+    let completed = 0;
+    const onEvent = (event: PipelineEvent) => {
+      if (progressToken === undefined || event.type !== 'step:complete') return;
+      completed += 1;
+      notify({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: completed,
+          message: event.branch ? `${event.step} (${event.branch})` : event.step,
+        },
+      });
+    };
+
+    try {
+      const output = await tool.run(asObject(params.arguments), {
+        getCode,
+        clientOptions: { ...options.clientOptions, signal: controller.signal },
+        onEvent,
+        recordHistory: options.recordHistory ?? true,
+      });
+      return {
+        content: [{ type: 'text', text: output.text }],
+        ...(output.structured ? { structuredContent: output.structured } : {}),
+      };
+    } catch (err) {
+      // Tool failures are results the model can read, not protocol errors
+      return { content: [{ type: 'text', text: describeToolError(err) }], isError: true };
+    } finally {
+      inFlight.delete(id);
+    }
+  }
+
+  async function dispatch(id: JsonRpcId, method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion: typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: SERVER_INFO,
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: TOOLS.map(({ name, title, description, inputSchema, outputSchema }) => ({
+            name,
+            title,
+            description,
+            inputSchema,
+            ...(outputSchema ? { outputSchema } : {}),
+          })),
+        };
+      case 'tools/call':
+        return callTool(id, params);
+      default:
+        throw Object.assign(new Error(`Method not found: ${method}`), { rpcCode: METHOD_NOT_FOUND });
+    }
+  }
+
+  async function handle(message: unknown): Promise<JsonRpcMessage | undefined> {
+    const msg = asObject(message) as Partial<JsonRpcMessage>;
+    if (msg.jsonrpc !== '2.0' || typeof msg.method !== 'string') {
+      return { jsonrpc: '2.0', id: msg.id ?? null, error: { code: INVALID_REQUEST, message: 'Invalid request' } };
+    }
+    const params = asObject(msg.params);
+
+    // Notifications get no response
+    if (msg.id === undefined || msg.id === null) {
+      if (msg.method === 'notifications/cancelled') {
+        inFlight.get(params.requestId as JsonRpcId)?.abort();
+      }
+      return undefined;
+    }
+
+    try {
+      return { jsonrpc: '2.0', id: msg.id, result: await dispatch(msg.id, msg.method, params) };
+    } catch (err) {
+      const code = (err as { rpcCode?: number }).rpcCode ?? -32603;
+      return {
+        jsonrpc: '2.0',
+        id: msg.id,
+        error: { code, message: err instanceof Error ? err.message : String(err) },
+      };
+    }
+  }
+
+  return { handle, tools: TOOLS.map(t => t.name) };
+}
+
+/**
+ * Serve MCP over stdio until the input closes. Requests are handled
+ * concurrently; responses are written as they complete. Nothing but protocol
+ * messages may go to `output`.
+ */
+export async function serveStdio(
+  options: McpServerOptions,
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+): Promise<void> {
+  const send = (message: JsonRpcMessage) => {
+    output.write(JSON.stringify(message) + '\n');
+  };
+  const server = createMcpServer({ ...options, notify: send });
+  const pending = new Set<Promise<void>>();
+
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      continue;
+    }
+    const task = server.handle(message).then(response => {
+      if (response) send(response);
+    });
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  }
+  await Promise.all(pending);
+}
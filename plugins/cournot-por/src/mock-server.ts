@@ -0,0 +1,257 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { computeRoots } from './verify.js';
+import type { GatewayEnvelope } from './types.js';
+
+/**
+ * One scripted reaction to a gateway call. Entries are consumed in order per
+ * path; once a path's script is exhausted the canned response is served.
+ *
+ * - `latency_ms` delays the reply
+ * - `status` replies with that HTTP status (and `body` if given)
+ * - `malformed` replies 200 with a body that is not valid JSON
+ * - `body` alone replaces the canned response for this call
+ * - `headers` are added to the reply (e.g. `Retry-After` on a 429)
+ */
+export interface MockScriptEntry {
+  latency_ms?: number;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  malformed?: boolean;
+}
+
+export interface MockServerConfig {
+  /** Per-path response bodies (before `{ data }` wrapping) overriding the defaults */
+  responses?: Record<string, unknown>;
+  script?: Record<string, MockScriptEntry[]>;
+  /** Latency added to every call */
+  latency_ms?: number;
+  /** If set, envelopes carrying any other code are rejected with 401 */
+  code?: string;
+  /** Envelopes kept in `requests`, oldest dropped first (default: DEFAULT_MAX_RECORDED_REQUESTS) */
+  max_requests?: number;
+}
+
+export const DEFAULT_MAX_RECORDED_REQUESTS = 1000;
+
+export interface MockGateway {
+  url: string;
+  server: Server;
+  /** Envelopes received so far, in order (the most recent `max_requests`) */
+  requests: GatewayEnvelope[];
+  close(): Promise<void>;
+}
+
+type Payload = Record<string, unknown>;
+
+/**
+ * Default responses. They echo their inputs so the pipeline output reflects the
+ * query, and `/step/bundle` computes real roots so `verify` succeeds.
+ */
+const DEFAULT_HANDLERS: Record<string, (payload: Payload) => unknown> = {
+  '/step/prompt': payload => ({
+    market_id: 'mock-market',
+    prompt_spec: {
+      query: payload.user_input,
+      strict_mode: payload.strict_mode ?? false,
+      resolution_rules: [{ rule_id: 'MOCK-RULE', description: 'Resolve from mock evidence' }],
+    },
+    tool_plan: { tools: ['search'] },
+    metadata: { mock: true },
+  }),
+  '/step/collect': payload => {
+    const collectors = Array.isArray(payload.collectors) ? payload.collectors as string[] : [];
+    return {
+      evidence_bundles: collectors.map(collector => ({
+        collector,
+        items: [
+          {
+            title: `Mock evidence from ${collector}`,
+            source_url: `https://example.com/mock/${encodeURIComponent(collector)}`,
+            snippet: `Mock evidence snippet from ${collector}`,
+          },
+        ],
+      })),
+      collectors_used: collectors,
+      execution_logs: [],
+      errors: [],
+    };
+  },
+  '/step/audit': () => ({
+    reasoning_trace: [
+      { description: 'Reviewed mock evidence' },
+      { description: 'Applied mock resolution rule' },
+    ],
+    errors: [],
+  }),
+  '/step/judge': () => ({
+    verdict: {
+      resolution_rule_id: 'MOCK-RULE',
+      requirements: [{ description: 'Mock evidence present', fulfilled: true }],
+    },
+    outcome: 'YES',
+    confidence: 0.9,
+    errors: [],
+  }),
+  '/step/bundle': payload => {
+    const porBundle = {
+      prompt_spec: payload.prompt_spec,
+      evidence_bundles: payload.evidence_bundles,
+      reasoning_trace: payload.reasoning_trace,
+      verdict: payload.verdict,
+    };
+    const roots = computeRoots(porBundle);
+    return { por_bundle: porBundle, por_root: roots.por_root, roots, errors: [] };
+  },
+  '/capabilities': () => ({
+    collectors: ['CollectorGeminiGrounded', 'CollectorMock'],
+    providers: ['MockProvider'],
+  }),
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(text);
+}
+
+function parseEnvelope(text: string): GatewayEnvelope | undefined {
+  try {
+    const e = JSON.parse(text) as Partial<GatewayEnvelope>;
+    if (
+      typeof e.code === 'string' &&
+      typeof e.post_data === 'string' &&
+      typeof e.path === 'string' &&
+      typeof e.method === 'string'
+    ) {
+      return e as GatewayEnvelope;
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+/**
+ * Create an HTTP server speaking the gateway envelope protocol. It accepts
+ * POSTs on any URL path so it can stand in for GATEWAY_URL.
+ */
+export function createMockGateway(
+  config: MockServerConfig = {},
+  requests: GatewayEnvelope[] = [],
+): Server {
+  const scripts = new Map(
+    Object.entries(config.script ?? {}).map(([path, entries]) => [path, [...entries]]),
+  );
+
+  const maxRequests = config.max_requests ?? DEFAULT_MAX_RECORDED_REQUESTS;
+
+  async function respond(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      send(res, 405, { error: 'Only POST is supported' });
+      return;
+    }
+
+    const envelope = parseEnvelope(await readBody(req));
+    if (!envelope) {
+      send(res, 400, { error: 'Body must be a gateway envelope (code, post_data, path, method)' });
+      return;
+    }
+    requests.push(envelope);
+    if (requests.length > maxRequests) requests.splice(0, requests.length - maxRequests);
+
+    if (config.code !== undefined && envelope.code !== config.code) {
+      send(res, 401, { error: 'Invalid access code' });
+      return;
+    }
+
+    let payload: Payload;
+    try {
+      payload = JSON.parse(envelope.post_data) as Payload;
+    } catch {
+      send(res, 400, { error: 'post_data is not valid JSON' });
+      return;
+    }
+
+    const entry = scripts.get(envelope.path)?.shift() ?? {};
+    const latency = (config.latency_ms ?? 0) + (entry.latency_ms ?? 0);
+    if (latency > 0) await sleep(latency);
+
+    if (entry.status !== undefined) {
+      send(res, entry.status, entry.body ?? { error: `Scripted ${entry.status}` }, entry.headers);
+      return;
+    }
+    if (entry.malformed) {
+      send(res, 200, '{"data": {"truncated": ', entry.headers);
+      return;
+    }
+    if (entry.body !== undefined) {
+      send(res, 200, { data: entry.body }, entry.headers);
+      return;
+    }
+
+    if (config.responses && envelope.path in config.responses) {
+      send(res, 200, { data: config.responses[envelope.path] });
+      return;
+    }
+    const handler = DEFAULT_HANDLERS[envelope.path];
+    if (!handler) {
+      send(res, 404, { error: `Unknown path ${envelope.path}` });
+      return;
+    }
+    send(res, 200, { data: handler(payload) });
+  }
+
+  return createServer((req, res) => {
+    // An aborted or failing request must not take the whole server down
+    respond(req, res).catch(err => {
+      if (!res.headersSent) send(res, 500, { error: err instanceof Error ? err.message : String(err) });
+      else res.destroy();
+    });
+  });
+}
+
+/**
+ * Start a mock gateway and resolve once it is listening. Port 0 picks a free port.
+ */
+export async function startMockGateway(
+  config: MockServerConfig = {},
+  port: number = 0,
+  host: string = '127.0.0.1',
+): Promise<MockGateway> {
+  const requests: GatewayEnvelope[] = [];
+  const server = createMockGateway(config, requests);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    url: `http://${host}:${address.port}/play/polymarket/ai_data`,
+    server,
+    requests,
+    close: () => new Promise((resolve, reject) => {
+      server.close(err => (err ? reject(err) : resolve()));
+    }),
+  };
+}
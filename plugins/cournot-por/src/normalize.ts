@@ -0,0 +1,172 @@
+import type {
+  EvidenceBundle,
+  EvidenceItem,
+  ReasoningStep,
+  ReasoningTrace,
+  Requirement,
+  Verdict,
+} from './types.js';
+
+/**
+ * Lenient normalization of step payloads into the contract types. Field
+ * aliases seen from different collectors and model versions are mapped onto
+ * the contract names, and anything unrecognizable is dropped rather than
+ * rejected. Unknown fields are preserved.
+ */
+
+type Obj = Record<string, unknown>;
+
+function isObject(val: unknown): val is Obj {
+  return typeof val === 'object' && val !== null && !Array.isArray(val);
+}
+
+function asOptionalString(val: unknown): string | undefined {
+  return typeof val === 'string' ? val : undefined;
+}
+
+function asStringArray(val: unknown): string[] | undefined {
+  if (!Array.isArray(val)) return undefined;
+  const strings = val.filter((v): v is string => typeof v === 'string');
+  return strings.length > 0 ? strings : undefined;
+}
+
+/** Copy `source`, then set each defined field from `fields` */
+function withFields<T>(source: Obj, fields: Obj): T {
+  const out: Obj = { ...source };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) out[key] = value;
+  }
+  return out as T;
+}
+
+export function normalizeEvidenceItem(raw: Obj): EvidenceItem {
+  return withFields<EvidenceItem>(raw, {
+    id: asOptionalString(raw.id ?? raw.evidence_id),
+    title: asOptionalString(raw.title ?? raw.headline ?? raw.name),
+    source_url: asOptionalString(raw.source_url ?? raw.url ?? raw.link),
+    snippet: asOptionalString(raw.snippet ?? raw.text ?? raw.content ?? raw.summary),
+    retrieved_at: asOptionalString(raw.retrieved_at ?? raw.fetched_at ?? raw.timestamp),
+  });
+}
+
+export function normalizeEvidenceBundle(raw: unknown): EvidenceBundle | undefined {
+  if (!isObject(raw)) return undefined;
+
+  const collector = asOptionalString(raw.collector ?? raw.collector_name ?? raw.collector_id);
+  const list = raw.items ?? raw.evidence_items ?? raw.results ?? raw.snippets;
+  let items: EvidenceItem[];
+
+  if (Array.isArray(list)) {
+    items = list.filter(isObject).map(normalizeEvidenceItem);
+  } else if (raw.title || raw.snippet || raw.source_url || raw.url || raw.text) {
+    // The bundle itself is a single evidence item
+    items = [
+      withFields<EvidenceItem>({}, {
+        title: asOptionalString(raw.title ?? raw.headline),
+        source_url: asOptionalString(raw.source_url ?? raw.url),
+        snippet: asOptionalString(raw.snippet ?? raw.text ?? raw.summary),
+        retrieved_at: asOptionalString(raw.retrieved_at ?? raw.fetched_at ?? raw.timestamp),
+      }),
+    ];
+  } else {
+    items = [];
+  }
+
+  return withFields<EvidenceBundle>(raw, { collector, items });
+}
+
+export function normalizeEvidenceBundles(raw: unknown): EvidenceBundle[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(normalizeEvidenceBundle)
+    .filter((b): b is EvidenceBundle => b !== undefined);
+}
+
+/** Raw keys normalizeReasoningStep maps onto the contract fields */
+export const REASONING_STEP_KEYS: readonly string[] = [
+  'step_id', 'id',
+  'description', 'summary', 'step', 'text',
+  'evidence_refs', 'evidence_ids', 'inputs', 'refs',
+  'conclusion', 'result', 'output',
+];
+
+/**
+ * A readable line for a step without a description: its conclusion, else its
+ * scalar fields, else its id or position.
+ */
+function describeStep(raw: Obj, stepId: string | undefined, conclusion: string | undefined, index: number): string {
+  if (conclusion) return conclusion;
+  const fields = Object.entries(raw)
+    .filter(([key, value]) => !REASONING_STEP_KEYS.includes(key) && ['string', 'number', 'boolean'].includes(typeof value))
+    .map(([key, value]) => `${key}: ${String(value)}`);
+  if (fields.length > 0) return fields.join('; ');
+  return `Step ${stepId ?? index + 1}`;
+}
+
+export function normalizeReasoningStep(raw: Obj, index: number): ReasoningStep {
+  const id = raw.step_id ?? raw.id;
+  const stepId = typeof id === 'number' ? String(id) : asOptionalString(id);
+  const conclusion = asOptionalString(raw.conclusion ?? raw.result ?? raw.output);
+  return withFields<ReasoningStep>(raw, {
+    step_id: stepId,
+    description: asOptionalString(raw.description ?? raw.summary ?? raw.step ?? raw.text)
+      ?? describeStep(raw, stepId, conclusion, index),
+    evidence_refs: asStringArray(raw.evidence_refs ?? raw.evidence_ids ?? raw.inputs ?? raw.refs),
+    conclusion,
+  });
+}
+
+export function normalizeReasoningTrace(raw: unknown): ReasoningTrace {
+  if (typeof raw === 'string') {
+    return { steps: [], summary: raw };
+  }
+
+  if (Array.isArray(raw)) {
+    return { steps: raw.filter(isObject).map(normalizeReasoningStep) };
+  }
+
+  if (isObject(raw)) {
+    const steps = raw.steps ?? raw.trace ?? raw.reasoning_steps;
+    if (Array.isArray(steps)) {
+      return withFields<ReasoningTrace>(raw, {
+        steps: steps.filter(isObject).map(normalizeReasoningStep),
+        summary: asOptionalString(raw.summary ?? raw.text),
+      });
+    }
+    return withFields<ReasoningTrace>(raw, {
+      steps: [],
+      summary: asOptionalString(raw.summary ?? raw.text),
+    });
+  }
+
+  return { steps: [] };
+}
+
+export function normalizeRequirement(raw: Obj): Requirement | undefined {
+  const description = asOptionalString(raw.description ?? raw.label ?? raw.name ?? raw.id);
+  if (!description) return undefined;
+  return withFields<Requirement>(raw, {
+    id: asOptionalString(raw.id),
+    description,
+    fulfilled: Boolean(raw.fulfilled ?? raw.met ?? raw.satisfied ?? raw.passed),
+  });
+}
+
+export function normalizeVerdict(raw: unknown): Verdict {
+  if (!isObject(raw)) return { requirements: [] };
+
+  const reqs = raw.requirements ?? raw.criteria ?? raw.rules;
+  const requirements = Array.isArray(reqs)
+    ? reqs
+        .filter(isObject)
+        .map(normalizeRequirement)
+        .filter((r): r is Requirement => r !== undefined)
+    : [];
+
+  return withFields<Verdict>(raw, {
+    outcome: asOptionalString(raw.outcome),
+    confidence: typeof raw.confidence === 'number' ? raw.confidence : undefined,
+    resolution_rule_id: asOptionalString(raw.resolution_rule_id ?? raw.rule_id),
+    requirements,
+  });
+}
@@ -0,0 +1,36 @@
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Root directory for locally persisted state (runs, history, caches).
+ * Honors COURNOT_DATA_DIR, then XDG_DATA_HOME.
+ */
+export function dataDir(): string {
+  if (process.env.COURNOT_DATA_DIR) return process.env.COURNOT_DATA_DIR;
+  const base = process.env.XDG_DATA_HOME ?? join(homedir(), '.local', 'share');
+  return join(base, 'cournot');
+}
+
+export function runsDir(): string {
+  return join(dataDir(), 'runs');
+}
+
+export function historyPath(): string {
+  return join(dataDir(), 'history.jsonl');
+}
+
+export function jobsDir(): string {
+  return join(dataDir(), 'jobs');
+}
+
+export function cacheDir(): string {
+  return join(dataDir(), 'cache');
+}
+
+export function usagePath(): string {
+  return join(dataDir(), 'usage.jsonl');
+}
+
+export function rateLimitStatePath(): string {
+  return join(dataDir(), 'rate-limit.json');
+}
@@ -6,89 +6,334 @@ import {
   judgeResponseSchema,
   bundleResponseSchema,
   capabilitiesResponseSchema,
+  checkContract,
+  issuesFromZod,
+  stepRequestSchemas,
+  DEFAULT_COLLECTORS,
 } from './schemas.js';
+import type { ZodTypeAny } from 'zod';
+import { CournotError, PreflightError, SchemaError, isStopError } from './errors.js';
+import { hasLintErrors, lintQuery } from './lint.js';
 import { buildReport } from './report.js';
+import { branchFromReport, groupLabel, summarizeConsensus } from './consensus.js';
+import { sampleFromReport, sampleLabel, summarizeSamples } from './sampling.js';
 import type {
   PipelineOptions,
+  PromptRequest,
+  CollectRequest,
+  AuditRequest,
+  JudgeRequest,
+  BundleRequest,
   PromptResponse,
   CollectResponse,
   AuditResponse,
   JudgeResponse,
   BundleResponse,
   PorReport,
+  ConsensusBranch,
+  StabilitySample,
+  PipelineEvent,
+  CacheLookup,
+  QueryLint,
+  ReportOptions,
+  SchemaMode,
+  StepName,
 } from './types.js';
+import type { RunCheckpoint } from './checkpoint.js';
+
+export { DEFAULT_COLLECTORS };
 
 /**
  * Unwrap response envelope: if the API wraps results in { data: ... }, extract the inner value.
  */
-function extractData(raw: unknown): unknown {
+export function extractData(raw: unknown): unknown {
   if (raw && typeof raw === 'object' && 'data' in raw) {
     return (raw as Record<string, unknown>).data;
   }
   return raw;
 }
 
+export const STEP_PATHS: Record<StepName, string> = {
+  prompt: '/step/prompt',
+  collect: '/step/collect',
+  audit: '/step/audit',
+  judge: '/step/judge',
+  bundle: '/step/bundle',
+};
+
+export function stepFromPath(path: string): StepName | undefined {
+  return (Object.keys(STEP_PATHS) as StepName[]).find(step => STEP_PATHS[step] === path);
+}
+
 /**
- * Run the full 5-step PoR pipeline and return a structured report.
+ * Validate a raw step response. In strict mode the payload must also match the
+ * contract schemas; every drifted field is listed in the error.
  */
-export async function runPipeline(
-  options: PipelineOptions,
-  clientOptions?: GatewayClientOptions,
-): Promise<PorReport> {
-  const client = new GatewayClient(options.code, clientOptions);
-  const collectors = options.collectors ?? ['CollectorGeminiGrounded'];
-  const strictMode = options.strict_mode ?? false;
-  const includeRaw = options.include_raw_content ?? false;
+function parseStep<T>(
+  step: StepName,
+  schema: ZodTypeAny,
+  raw: unknown,
+  mode: SchemaMode,
+): T {
+  const data = extractData(raw);
+  if (mode === 'strict') {
+    const issues = checkContract(step, data);
+    if (issues.length > 0) {
+      throw SchemaError.fromIssues(`Response from ${STEP_PATHS[step]} does not match the contract`, issues, { step });
+    }
+  }
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw SchemaError.fromIssues(`Invalid response from ${STEP_PATHS[step]}`, issuesFromZod(parsed.error), { step });
+  }
+  return parsed.data as T;
+}
 
-  // Step 1: Prompt
-  const promptRaw = await client.call('/step/prompt', 'POST', {
-    user_input: options.query,
-    strict_mode: strictMode,
+interface StepContext {
+  checkpoint?: RunCheckpoint;
+  emit: (event: PipelineEvent) => void;
+  /** Label for repeated steps: a consensus group or a stability sample */
+  branch?: string;
+}
+
+/**
+ * Run a step unless the checkpoint already holds its result, saving fresh
+ * results and emitting progress events.
+ */
+async function runStep<T>(
+  ctx: StepContext,
+  step: StepName,
+  run: () => Promise<T>,
+): Promise<T> {
+  const branch = ctx.branch;
+  const saved = await ctx.checkpoint?.load<T>(step, branch);
+  if (saved !== undefined) {
+    ctx.emit({
+      type: 'step:complete',
+      step,
+      branch,
+      timestamp: new Date().toISOString(),
+      duration_ms: 0,
+      response: saved,
+      resumed: true,
+    });
+    return saved;
+  }
+
+  ctx.emit({ type: 'step:start', step, branch, timestamp: new Date().toISOString() });
+  const started = Date.now();
+  let result: T;
+  try {
+    result = await run();
+  } catch (err) {
+    if (err instanceof CournotError) err.step ??= step;
+    ctx.emit({
+      type: 'error',
+      step,
+      branch,
+      timestamp: new Date().toISOString(),
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+  await ctx.checkpoint?.save(step, result, branch);
+  ctx.emit({
+    type: 'step:complete',
+    step,
+    branch,
+    timestamp: new Date().toISOString(),
+    duration_ms: Date.now() - started,
+    response: result,
   });
-  const promptResponse = promptResponseSchema.parse(
-    extractData(promptRaw),
-  ) as PromptResponse;
+  return result;
+}
+
+/**
+ * Wrap client options so gateway retries and cache lookups are reported as
+ * pipeline events.
+ */
+function withClientEvents(
+  clientOptions: GatewayClientOptions | undefined,
+  emit: (event: PipelineEvent) => void,
+): GatewayClientOptions {
+  return {
+    ...clientOptions,
+    onRetry: info => {
+      clientOptions?.onRetry?.(info);
+      emit({
+        type: 'retry',
+        step: stepFromPath(info.path),
+        timestamp: new Date().toISOString(),
+        ...info,
+      });
+    },
+    onCache: info => {
+      clientOptions?.onCache?.(info);
+      emit({
+        type: 'cache',
+        step: stepFromPath(info.path),
+        timestamp: new Date().toISOString(),
+        ...info,
+      });
+    },
+  };
+}
 
+// --- Individual steps ---
+
+export async function runPromptStep(
+  client: GatewayClient,
+  request: PromptRequest,
+  schemaMode: SchemaMode = 'lenient',
+): Promise<PromptResponse> {
+  const raw = await client.call(STEP_PATHS.prompt, 'POST', request);
+  return parseStep<PromptResponse>('prompt', promptResponseSchema, raw, schemaMode);
+}
+
+export async function runCollectStep(
+  client: GatewayClient,
+  request: CollectRequest,
+  schemaMode: SchemaMode = 'lenient',
+): Promise<CollectResponse> {
+  const raw = await client.call(STEP_PATHS.collect, 'POST', request);
+  const response = parseStep<CollectResponse>('collect', collectResponseSchema, raw, schemaMode);
+  // collectors_used defaults to [], which alone cannot tell "none ran" from "not reported"
+  const data = extractData(raw) as Record<string, unknown>;
+  return { ...response, collectors_reported: Array.isArray(data.collectors_used) };
+}
+
+export async function runAuditStep(
+  client: GatewayClient,
+  request: AuditRequest,
+  schemaMode: SchemaMode = 'lenient',
+): Promise<AuditResponse> {
+  const raw = await client.call(STEP_PATHS.audit, 'POST', request);
+  return parseStep<AuditResponse>('audit', auditResponseSchema, raw, schemaMode);
+}
+
+export async function runJudgeStep(
+  client: GatewayClient,
+  request: JudgeRequest,
+  schemaMode: SchemaMode = 'lenient',
+): Promise<JudgeResponse> {
+  const raw = await client.call(STEP_PATHS.judge, 'POST', request);
+  return parseStep<JudgeResponse>('judge', judgeResponseSchema, raw, schemaMode);
+}
+
+export async function runBundleStep(
+  client: GatewayClient,
+  request: BundleRequest,
+  schemaMode: SchemaMode = 'lenient',
+): Promise<BundleResponse> {
+  const raw = await client.call(STEP_PATHS.bundle, 'POST', request);
+  return parseStep<BundleResponse>('bundle', bundleResponseSchema, raw, schemaMode);
+}
+
+/**
+ * Run one step on its own from a request object, e.g. read from a file.
+ * The request is validated first; missing `collectors`, `strict_mode` and
+ * `include_raw_content` take their pipeline defaults.
+ */
+export async function runSingleStep(
+  step: StepName,
+  code: string,
+  input: unknown,
+  clientOptions?: GatewayClientOptions,
+  schemaMode: SchemaMode = 'lenient',
+): Promise<unknown> {
+  const parsed = stepRequestSchemas[step].safeParse(extractData(input));
+  if (!parsed.success) {
+    throw SchemaError.fromIssues(`Invalid input for step ${step}`, issuesFromZod(parsed.error), { step });
+  }
+
+  const client = new GatewayClient(code, clientOptions);
+  switch (step) {
+    case 'prompt':
+      return runPromptStep(client, parsed.data as PromptRequest, schemaMode);
+    case 'collect':
+      return runCollectStep(client, parsed.data as CollectRequest, schemaMode);
+    case 'audit':
+      return runAuditStep(client, parsed.data as AuditRequest, schemaMode);
+    case 'judge':
+      return runJudgeStep(client, parsed.data as JudgeRequest, schemaMode);
+    case 'bundle':
+      return runBundleStep(client, parsed.data as BundleRequest, schemaMode);
+  }
+}
+
+interface BranchSettings {
+  collectors: string[];
+  includeRaw: boolean;
+  schemaMode: SchemaMode;
+  reportOptions?: ReportOptions;
+}
+
+/**
+ * Steps 2-5 for one set of collectors, starting from a prompt response.
+ */
+async function runBranch(
+  ctx: StepContext,
+  client: GatewayClient,
+  promptResponse: PromptResponse,
+  settings: BranchSettings,
+): Promise<PorReport> {
+  const collectResponse = await runCollect(ctx, client, promptResponse, settings);
+  return runReasoning(ctx, client, promptResponse, collectResponse, settings);
+}
+
+async function runCollect(
+  ctx: StepContext,
+  client: GatewayClient,
+  promptResponse: PromptResponse,
+  { collectors, includeRaw, schemaMode }: BranchSettings,
+): Promise<CollectResponse> {
   // Step 2: Collect
-  const collectRaw = await client.call('/step/collect', 'POST', {
-    prompt_spec: promptResponse.prompt_spec,
-    tool_plan: promptResponse.tool_plan,
-    collectors,
-    include_raw_content: includeRaw,
-  });
-  const collectResponse = collectResponseSchema.parse(
-    extractData(collectRaw),
-  ) as CollectResponse;
+  return runStep(ctx, 'collect', () =>
+    runCollectStep(client, {
+      prompt_spec: promptResponse.prompt_spec,
+      tool_plan: promptResponse.tool_plan,
+      collectors,
+      include_raw_content: includeRaw,
+    }, schemaMode),
+  );
+}
 
+/**
+ * Steps 3-5 over already collected evidence.
+ */
+async function runReasoning(
+  ctx: StepContext,
+  client: GatewayClient,
+  promptResponse: PromptResponse,
+  collectResponse: CollectResponse,
+  { collectors, schemaMode, reportOptions }: Pick<BranchSettings, 'collectors' | 'schemaMode' | 'reportOptions'>,
+): Promise<PorReport> {
   // Step 3: Audit
-  const auditRaw = await client.call('/step/audit', 'POST', {
-    prompt_spec: promptResponse.prompt_spec,
-    evidence_bundles: collectResponse.evidence_bundles,
-  });
-  const auditResponse = auditResponseSchema.parse(
-    extractData(auditRaw),
-  ) as AuditResponse;
+  const auditResponse = await runStep(ctx, 'audit', () =>
+    runAuditStep(client, {
+      prompt_spec: promptResponse.prompt_spec,
+      evidence_bundles: collectResponse.evidence_bundles,
+    }, schemaMode),
+  );
 
   // Step 4: Judge
-  const judgeRaw = await client.call('/step/judge', 'POST', {
-    prompt_spec: promptResponse.prompt_spec,
-    evidence_bundles: collectResponse.evidence_bundles,
-    reasoning_trace: auditResponse.reasoning_trace,
-  });
-  const judgeResponse = judgeResponseSchema.parse(
-    extractData(judgeRaw),
-  ) as JudgeResponse;
+  const judgeResponse = await runStep(ctx, 'judge', () =>
+    runJudgeStep(client, {
+      prompt_spec: promptResponse.prompt_spec,
+      evidence_bundles: collectResponse.evidence_bundles,
+      reasoning_trace: auditResponse.reasoning_trace,
+    }, schemaMode),
+  );
 
   // Step 5: Bundle
-  const bundleRaw = await client.call('/step/bundle', 'POST', {
-    prompt_spec: promptResponse.prompt_spec,
-    evidence_bundles: collectResponse.evidence_bundles,
-    reasoning_trace: auditResponse.reasoning_trace,
-    verdict: judgeResponse.verdict,
-  });
-  const bundleResponse = bundleResponseSchema.parse(
-    extractData(bundleRaw),
-  ) as BundleResponse;
+  const bundleResponse = await runStep(ctx, 'bundle', () =>
+    runBundleStep(client, {
+      prompt_spec: promptResponse.prompt_spec,
+      evidence_bundles: collectResponse.evidence_bundles,
+      reasoning_trace: auditResponse.reasoning_trace,
+      verdict: judgeResponse.verdict,
+    }, schemaMode),
+  );
 
   return buildReport(
     promptResponse,
@@ -96,9 +341,212 @@ export async function runPipeline(
     auditResponse,
     judgeResponse,
     bundleResponse,
+    { ...reportOptions, requested_collectors: collectors },
   );
 }
 
+/**
+ * Run each collector group's branch in turn and aggregate the verdicts. The
+ * report carries the representative group's evidence, reasoning and roots, so
+ * its bundle still verifies.
+ */
+async function runConsensus(
+  ctx: StepContext,
+  client: GatewayClient,
+  promptResponse: PromptResponse,
+  groups: string[][],
+  settings: Omit<BranchSettings, 'collectors'>,
+): Promise<PorReport> {
+  const reports = new Map<string, PorReport>();
+  const branches: ConsensusBranch[] = [];
+  const failures: unknown[] = [];
+  for (const collectors of groups) {
+    const group = groupLabel(collectors);
+    try {
+      const report = await runBranch({ ...ctx, branch: group }, client, promptResponse, {
+        ...settings,
+        collectors,
+      });
+      reports.set(group, report);
+      branches.push(branchFromReport(collectors, report));
+    } catch (err) {
+      if (isStopError(err)) throw err;
+      failures.push(err);
+      branches.push({
+        group,
+        collectors,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  const consensus = summarizeConsensus(branches, failures);
+  return {
+    ...reports.get(consensus.representative)!,
+    outcome: consensus.outcome,
+    confidence: consensus.confidence,
+    consensus,
+  };
+}
+
+/**
+ * Repeat the run and report how stable its outcome is. Every sample is bundled
+ * separately, so each sample's PoR root can be verified on its own.
+ * `sampleClient` runs the repeated steps; it must not serve them from a cache.
+ */
+async function runSamples(
+  ctx: StepContext,
+  client: GatewayClient,
+  sampleClient: GatewayClient,
+  promptResponse: PromptResponse,
+  options: PipelineOptions,
+  settings: BranchSettings,
+): Promise<PorReport> {
+  const count = options.samples!;
+  const scope = options.sample_scope ?? 'reasoning';
+  // With the 'reasoning' scope every sample judges the same evidence
+  const sharedCollect = scope === 'reasoning'
+    ? await runCollect(ctx, client, promptResponse, settings)
+    : undefined;
+
+  const reports = new Map<number, PorReport>();
+  const samples: StabilitySample[] = [];
+  const failures: unknown[] = [];
+  for (let index = 1; index <= count; index++) {
+    const sampleCtx = { ...ctx, branch: sampleLabel(index) };
+    try {
+      const collectResponse = sharedCollect
+        ?? await runCollect(sampleCtx, sampleClient, promptResponse, settings);
+      const report = await runReasoning(
+        sampleCtx,
+        sampleClient,
+        promptResponse,
+        collectResponse,
+        settings,
+      );
+      reports.set(index, report);
+      samples.push(sampleFromReport(index, report));
+    } catch (err) {
+      if (isStopError(err)) throw err;
+      failures.push(err);
+      samples.push({ index, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  const stability = summarizeSamples(samples, scope, options.stability_threshold, failures);
+  return {
+    ...reports.get(stability.representative)!,
+    outcome: stability.modal_outcome,
+    confidence: stability.confidence,
+    stability,
+  };
+}
+
+/**
+ * Run the full 5-step PoR pipeline and return a structured report.
+ */
+export async function runPipeline(
+  options: PipelineOptions,
+  clientOptions?: GatewayClientOptions,
+): Promise<PorReport> {
+  const emit = options.onEvent ?? (() => {});
+  const cacheLookups: CacheLookup[] = [];
+  const resolvedOptions = withClientEvents({
+    ...clientOptions,
+    signal: options.signal ?? clientOptions?.signal,
+    deadline: options.total_timeout_ms !== undefined
+      ? Date.now() + options.total_timeout_ms
+      : clientOptions?.deadline,
+    onCache: info => {
+      clientOptions?.onCache?.(info);
+      cacheLookups.push({ step: stepFromPath(info.path), ...info });
+    },
+  }, emit);
+  const client = new GatewayClient(options.code, resolvedOptions);
+  const collectors = options.collectors ?? DEFAULT_COLLECTORS;
+  const strictMode = options.strict_mode ?? false;
+  const includeRaw = options.include_raw_content ?? false;
+  const schemaMode = options.schema_mode ?? 'lenient';
+  const ctx: StepContext = { checkpoint: options.checkpoint, emit };
+
+  const groups = options.consensus_groups;
+  const sampling = options.samples !== undefined && options.samples > 1;
+  if (sampling && groups) {
+    throw new Error('Stability sampling cannot be combined with consensus groups');
+  }
+  if (groups) {
+    const labels = groups.map(groupLabel);
+    if (groups.length === 0 || groups.some(g => g.length === 0) || new Set(labels).size !== labels.length) {
+      throw new Error('Consensus groups must be non-empty and distinct');
+    }
+  }
+
+  // Pre-flight: lint the query before spending any gateway calls
+  let preflight: QueryLint | undefined;
+  if (options.preflight) {
+    preflight = lintQuery(options.query, options.reference_date);
+    emit({ type: 'lint', timestamp: new Date().toISOString(), lint: preflight });
+    if (options.preflight === 'strict' && hasLintErrors(preflight)) {
+      throw PreflightError.fromIssues(
+        'Query failed pre-flight checks',
+        preflight.issues.filter(issue => issue.severity === 'error'),
+      );
+    }
+  }
+
+  // Step 1: Prompt
+  const promptResponse = await runStep(ctx, 'prompt', () =>
+    runPromptStep(client, {
+      user_input: preflight?.normalized_query ?? options.query,
+      strict_mode: strictMode,
+    }, schemaMode),
+  );
+
+  if (options.confirm_prompt && !(await options.confirm_prompt(promptResponse.prompt_spec))) {
+    throw new PreflightError('Stopped after the prompt step: its interpretation was not confirmed', [], {
+      step: 'prompt',
+    });
+  }
+
+  let report: PorReport;
+  if (groups) {
+    report = await runConsensus(ctx, client, promptResponse, groups, {
+      includeRaw,
+      schemaMode,
+      reportOptions: options.report_options,
+    });
+  } else {
+    const settings: BranchSettings = {
+      collectors,
+      includeRaw,
+      schemaMode,
+      reportOptions: options.report_options,
+    };
+    if (sampling) {
+      // Cached audits and judgements would make every sample identical
+      const scope = options.sample_scope ?? 'reasoning';
+      const repeated: StepName[] = scope === 'full' ? ['collect', 'audit', 'judge'] : ['audit', 'judge'];
+      const sampleClient = resolvedOptions.cache
+        ? new GatewayClient(options.code, {
+            ...resolvedOptions,
+            cache: resolvedOptions.cache.withRefresh(repeated.map(step => STEP_PATHS[step])),
+          })
+        : client;
+      report = await runSamples(ctx, client, sampleClient, promptResponse, options, settings);
+    } else {
+      report = await runBranch(ctx, client, promptResponse, settings);
+    }
+  }
+
+  if (clientOptions?.cache && report.diagnostics) {
+    report = { ...report, diagnostics: { ...report.diagnostics, cache: cacheLookups } };
+  }
+  if (preflight && report.diagnostics) {
+    report = { ...report, diagnostics: { ...report.diagnostics, preflight } };
+  }
+  return report;
+}
+
 /**
  * Query backend capabilities (available collectors/providers).
  */
@@ -0,0 +1,121 @@
+import { describeAge } from './diagnostics.js';
+import type { PipelineEvent, StepName } from './types.js';
+
+const STEP_ORDER: StepName[] = ['prompt', 'collect', 'audit', 'judge', 'bundle'];
+
+export interface ProgressRenderer {
+  onEvent(event: PipelineEvent): void;
+  /** Stop the live timer; call once the pipeline settles */
+  stop(): void;
+}
+
+function label(step: StepName, branch?: string): string {
+  const base = `[${STEP_ORDER.indexOf(step) + 1}/${STEP_ORDER.length}] ${step}`;
+  return branch ? `${base} (${branch})` : base;
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Human-readable progress on a stream (stderr by default). On a terminal the
+ * running step's line is redrawn every second with its elapsed time; otherwise
+ * one line is written per event.
+ */
+export function createProgressRenderer(
+  stream: NodeJS.WritableStream & { isTTY?: boolean } = process.stderr,
+): ProgressRenderer {
+  const live = stream.isTTY === true;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let current: { step: StepName; branch?: string; started: number } | undefined;
+  /** Age of the cached response the running step was served from */
+  let cachedAge: number | undefined;
+
+  function clearLine(): void {
+    if (live && current) stream.write('\r\x1b[2K');
+  }
+
+  function drawRunning(): void {
+    if (!current) return;
+    const elapsed = Math.floor((Date.now() - current.started) / 1000);
+    stream.write(`\r\x1b[2K… ${label(current.step, current.branch)} ${elapsed}s`);
+  }
+
+  function stopTimer(): void {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+  }
+
+  return {
+    onEvent(event) {
+      switch (event.type) {
+        case 'step:start':
+          current = { step: event.step, branch: event.branch, started: Date.now() };
+          if (live) {
+            drawRunning();
+            stopTimer();
+            timer = setInterval(drawRunning, 1000);
+            timer.unref?.();
+          } else {
+            stream.write(`… ${label(event.step, event.branch)}\n`);
+          }
+          break;
+        case 'step:complete':
+          stopTimer();
+          clearLine();
+          current = undefined;
+          if (event.resumed) {
+            stream.write(`✓ ${label(event.step, event.branch)} (from checkpoint)\n`);
+          } else if (cachedAge !== undefined) {
+            stream.write(`✓ ${label(event.step, event.branch)} (cached, ${describeAge(cachedAge)} old)\n`);
+          } else {
+            stream.write(`✓ ${label(event.step, event.branch)} (${seconds(event.duration_ms)})\n`);
+          }
+          cachedAge = undefined;
+          break;
+        case 'cache':
+          if (event.status === 'hit') cachedAge = event.age_ms ?? 0;
+          break;
+        case 'retry': {
+          clearLine();
+          const cause = event.status !== undefined ? `HTTP ${event.status}` : 'network error';
+          stream.write(
+            `↻ ${event.step ?? event.path} ${cause}; attempt ${event.attempt} in ${seconds(event.backoff_ms)}\n`,
+          );
+          if (live) drawRunning();
+          break;
+        }
+        case 'lint':
+          if (event.lint.date_rewrites.length > 0) {
+            stream.write(`→ query sent as: ${event.lint.normalized_query}\n`);
+          }
+          for (const issue of event.lint.issues) {
+            stream.write(`! pre-flight ${issue.severity} (${issue.check}): ${issue.message}\n`);
+          }
+          break;
+        case 'error':
+          stopTimer();
+          clearLine();
+          current = undefined;
+          stream.write(`✗ ${label(event.step, event.branch)} failed: ${event.error}\n`);
+          break;
+      }
+    },
+    stop: stopTimer,
+  };
+}
+
+/**
+ * Machine-readable progress: one JSON object per line.
+ */
+export function createNdjsonRenderer(
+  stream: NodeJS.WritableStream = process.stderr,
+): ProgressRenderer {
+  return {
+    onEvent(event) {
+      stream.write(JSON.stringify(event) + '\n');
+    },
+    stop() {},
+  };
+}
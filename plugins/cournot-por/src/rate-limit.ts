@@ -0,0 +1,164 @@
+import { mkdir, open, readFile, stat, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { writeJsonAtomic } from './checkpoint.js';
+
+/**
+ * Client-side token buckets, one per gateway path (or one shared "*" bucket),
+ * so concurrent pipelines pace themselves instead of tripping 429s. One
+ * limiter instance is shared by every client in the process; with a state
+ * file, buckets are also shared between processes under a lock file.
+ */
+
+export interface RateLimitRule {
+  /** Requests allowed per interval */
+  limit: number;
+  interval_ms: number;
+  /** Requests that may be made at once after idling; defaults to `limit`, and is at least 1 */
+  burst?: number;
+}
+
+export interface RateLimiterOptions {
+  /** Per-path rules; "*" applies to paths without their own */
+  rules: Record<string, RateLimitRule>;
+  /** Share buckets with other processes through this file */
+  statePath?: string;
+  now?: () => number;
+}
+
+interface BucketState {
+  tokens: number;
+  updated_at: number;
+}
+
+type Buckets = Record<string, BucketState>;
+
+const LOCK_RETRY_MS = 20;
+/** A lock older than this was left by a crashed process */
+const STALE_LOCK_MS = 10_000;
+
+const INTERVALS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Parse "30/m" (every path) or "collect=2/m,*=30/m". Step names stand for
+ * their /step/ paths.
+ */
+export function parseRateLimits(value: string): Record<string, RateLimitRule> {
+  const rules: Record<string, RateLimitRule> = {};
+  for (const part of value.split(',')) {
+    const [target, spec] = part.includes('=') ? part.split('=') : ['*', part];
+    const match = /^\s*(\d+(?:\.\d+)?)\s*\/\s*([smh])\s*$/.exec(spec ?? '');
+    // Below one request per interval a bucket could never hold a whole token
+    if (!target || !match || Number(match[1]) < 1) {
+      throw new Error(`Invalid rate limit "${part}"; use e.g. 30/m or collect=2/m`);
+    }
+    const path = target === '*' || target.startsWith('/') ? target : `/step/${target}`;
+    rules[path] = { limit: Number(match[1]), interval_ms: INTERVALS[match[2]] };
+  }
+  return rules;
+}
+
+function refill(bucket: BucketState | undefined, rule: RateLimitRule, now: number): BucketState {
+  const capacity = Math.max(1, rule.burst ?? rule.limit);
+  if (!bucket) return { tokens: capacity, updated_at: now };
+  const elapsed = Math.max(0, now - bucket.updated_at);
+  return {
+    tokens: Math.min(capacity, bucket.tokens + elapsed * rule.limit / rule.interval_ms),
+    updated_at: now,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Run `fn` holding an exclusive lock file, taking over stale locks */
+async function withLockFile<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  await mkdir(dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      await (await open(lockPath, 'wx')).close();
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      const info = await stat(lockPath).catch(() => undefined);
+      if (info && Date.now() - info.mtimeMs > STALE_LOCK_MS) {
+        await unlink(lockPath).catch(() => {});
+      } else {
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => {});
+  }
+}
+
+export class RateLimiter {
+  private rules: Record<string, RateLimitRule>;
+  private statePath?: string;
+  private now: () => number;
+  private buckets: Buckets = {};
+
+  constructor(options: RateLimiterOptions) {
+    this.rules = options.rules;
+    this.statePath = options.statePath;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** The bucket a path draws from, if any rule covers it */
+  private bucketFor(path: string): string | undefined {
+    if (this.rules[path]) return path;
+    return this.rules['*'] ? '*' : undefined;
+  }
+
+  private async update<T>(fn: (buckets: Buckets) => T): Promise<T> {
+    if (!this.statePath) return fn(this.buckets);
+    const statePath = this.statePath;
+    return withLockFile(`${statePath}.lock`, async () => {
+      let buckets: Buckets = {};
+      try {
+        buckets = JSON.parse(await readFile(statePath, 'utf8')) as Buckets;
+      } catch {
+        // Missing or corrupt state starts with full buckets
+      }
+      const result = fn(buckets);
+      await writeJsonAtomic(statePath, buckets);
+      return result;
+    });
+  }
+
+  /**
+   * Take a token for a call to `path`. Returns 0 when the call may proceed,
+   * otherwise the milliseconds until a token is available (none was taken).
+   */
+  async take(path: string): Promise<number> {
+    const key = this.bucketFor(path);
+    if (!key) return 0;
+    const rule = this.rules[key];
+    return this.update(buckets => {
+      const bucket = refill(buckets[key], rule, this.now());
+      if (bucket.tokens >= 1) {
+        buckets[key] = { ...bucket, tokens: bucket.tokens - 1 };
+        return 0;
+      }
+      buckets[key] = bucket;
+      return Math.ceil((1 - bucket.tokens) * rule.interval_ms / rule.limit);
+    });
+  }
+
+  /**
+   * Hold back every caller of `path` for `ms`, e.g. after a 429 with
+   * Retry-After, so concurrent pipelines back off together.
+   */
+  async block(path: string, ms: number): Promise<void> {
+    const key = this.bucketFor(path);
+    if (!key) return;
+    const rule = this.rules[key];
+    await this.update(buckets => {
+      const bucket = refill(buckets[key], rule, this.now());
+      buckets[key] = { ...bucket, tokens: Math.min(bucket.tokens, 1 - ms * rule.limit / rule.interval_ms) };
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { redactCode } from './client.js';
+import type { GatewayEnvelope } from './types.js';
+
+/** Response headers the client acts on, so replays retry the way the run did */
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+/**
+ * One request/response pair captured from the gateway. The access code is
+ * redacted from the envelope and the response body before it is written.
+ */
+export interface RecordedExchange {
+  seq: number;
+  path: string;
+  method: string;
+  request: GatewayEnvelope;
+  status: number;
+  /** The RECORDED_HEADERS the response carried; absent in older recordings */
+  headers?: Record<string, string>;
+  body: string;
+}
+
+function exchangeFileName(seq: number, path: string): string {
+  const slug = path.replace(/^\/+/, '').replace(/[^a-zA-Z0-9]+/g, '-') || 'root';
+  return `${String(seq).padStart(3, '0')}-${slug}.json`;
+}
+
+function redactEnvelope(envelope: GatewayEnvelope): GatewayEnvelope {
+  return {
+    ...envelope,
+    code: '[REDACTED]',
+    post_data: redactCode(envelope.post_data, envelope.code),
+  };
+}
+
+/**
+ * Wrap a fetch function so every gateway exchange is written to `dir`,
+ * one numbered JSON file per call. Each exchange is redacted with the code its
+ * own envelope carried, so a code that changes mid-session never leaks.
+ */
+export function createRecordingFetch(
+  dir: string,
+  fetchFn: typeof globalThis.fetch = globalThis.fetch.bind(globalThis),
+): typeof globalThis.fetch {
+  let seq = 0;
+  let ready: Promise<unknown> | undefined;
+
+  return async (input, init) => {
+    ready ??= mkdir(dir, { recursive: true });
+    await ready;
+
+    const response = await fetchFn(input, init);
+    const body = await response.text();
+    const envelope = JSON.parse(String(init?.body ?? '{}')) as GatewayEnvelope;
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers?.get(name);
+      if (value !== null && value !== undefined) headers[name] = value;
+    }
+
+    seq++;
+    const exchange: RecordedExchange = {
+      seq,
+      path: envelope.path,
+      method: envelope.method,
+      request: redactEnvelope(envelope),
+      status: response.status,
+      headers,
+      body: redactCode(body, envelope.code),
+    };
+    await writeFile(
+      join(dir, exchangeFileName(seq, envelope.path)),
+      JSON.stringify(exchange, null, 2) + '\n',
+    );
+
+    // The body stream was consumed above, so hand back an equivalent response
+    return new Response(body, { status: response.status, headers: response.headers });
+  };
+}
+
+export async function loadRecording(dir: string): Promise<RecordedExchange[]> {
+  const files = (await readdir(dir)).filter(f => f.endsWith('.json')).sort();
+  const exchanges: RecordedExchange[] = [];
+  for (const file of files) {
+    exchanges.push(JSON.parse(await readFile(join(dir, file), 'utf8')) as RecordedExchange);
+  }
+  return exchanges.sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Build a fetch function that serves a recording made with
+ * `createRecordingFetch`. Responses are returned in recorded order per
+ * path and method, so retried calls replay their original failures too.
+ */
+export async function createReplayFetch(dir: string): Promise<typeof globalThis.fetch> {
+  const queues = new Map<string, RecordedExchange[]>();
+  for (const exchange of await loadRecording(dir)) {
+    const key = `${exchange.method} ${exchange.path}`;
+    const queue = queues.get(key) ?? [];
+    queue.push(exchange);
+    queues.set(key, queue);
+  }
+
+  return async (_input, init) => {
+    const envelope = JSON.parse(String(init?.body ?? '{}')) as GatewayEnvelope;
+    const key = `${envelope.method} ${envelope.path}`;
+    const exchange = queues.get(key)?.shift();
+    if (!exchange) {
+      throw new Error(`No recorded response left for ${key} in ${dir}`);
+    }
+    return new Response(exchange.body, { status: exchange.status, headers: exchange.headers });
+  };
+}
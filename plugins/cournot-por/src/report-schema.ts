@@ -0,0 +1,285 @@
+/**
+ * JSON Schema for the JSON report format. Bump REPORT_SCHEMA_VERSION's minor
+ * version for additive changes and its major version (and the $id) for
+ * breaking ones. The generated schema is committed at the $id's path
+ * (schemas/por-report.v1.json); regenerate it with `schema` after a change.
+ */
+
+export const REPORT_SCHEMA_VERSION = '1.9';
+
+export const REPORT_SCHEMA_ID =
+  'https://raw.githubusercontent.com/Solbotxf/cournot-skills/main/plugins/cournot-por/schemas/por-report.v1.json';
+
+/** The $id reports up to 1.8 carried, which never resolved */
+const LEGACY_SCHEMA_ID = 'https://github.com/Solbotxf/cournot-skills/schemas/por-report.v1.json';
+
+const hash = { type: 'string' };
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const count = { type: 'integer', minimum: 0 };
+
+const consensus = {
+  type: 'object',
+  required: [
+    'outcome',
+    'confidence',
+    'agreement',
+    'representative',
+    'branches',
+    'dissenting',
+    'requirement_disagreements',
+  ],
+  additionalProperties: false,
+  properties: {
+    outcome: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    agreement: { type: 'number', minimum: 0, maximum: 1 },
+    representative: { type: 'string' },
+    branches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['group', 'collectors'],
+        additionalProperties: false,
+        properties: {
+          group: { type: 'string' },
+          collectors: stringArray,
+          outcome: { type: 'string' },
+          confidence: { type: 'number' },
+          requirements_fulfilled: stringArray,
+          requirements_unfulfilled: stringArray,
+          evidence_count: { type: 'integer', minimum: 0 },
+          por_root: hash,
+          error: { type: 'string' },
+        },
+      },
+    },
+    dissenting: stringArray,
+    requirement_disagreements: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['requirement', 'met_by', 'unmet_by'],
+        additionalProperties: false,
+        properties: {
+          requirement: { type: 'string' },
+          met_by: stringArray,
+          unmet_by: stringArray,
+        },
+      },
+    },
+  },
+};
+
+const stability = {
+  type: 'object',
+  required: [
+    'scope',
+    'samples',
+    'outcome_distribution',
+    'modal_outcome',
+    'modal_share',
+    'confidence',
+    'confidence_mean',
+    'confidence_variance',
+    'threshold',
+    'unstable',
+    'representative',
+  ],
+  additionalProperties: false,
+  properties: {
+    scope: { enum: ['reasoning', 'full'] },
+    samples: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['index'],
+        additionalProperties: false,
+        properties: {
+          index: { type: 'integer', minimum: 1 },
+          outcome: { type: 'string' },
+          confidence: { type: 'number' },
+          por_root: hash,
+          error: { type: 'string' },
+        },
+      },
+    },
+    outcome_distribution: {
+      type: 'object',
+      additionalProperties: { type: 'integer', minimum: 1 },
+    },
+    modal_outcome: { type: 'string' },
+    modal_share: { type: 'number', minimum: 0, maximum: 1 },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    confidence_mean: { type: 'number' },
+    confidence_variance: { type: 'number', minimum: 0 },
+    threshold: { type: 'number', minimum: 0, maximum: 1 },
+    unstable: { type: 'boolean' },
+    representative: { type: 'integer', minimum: 1 },
+  },
+};
+
+export const REPORT_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: REPORT_SCHEMA_ID,
+  title: 'Cournot PoR Report',
+  type: 'object',
+  required: [
+    'schema_version',
+    'outcome',
+    'confidence',
+    'evidence_highlights',
+    'reasoning_summary',
+    'roots',
+  ],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string', enum: [REPORT_SCHEMA_ID, LEGACY_SCHEMA_ID] },
+    // Any 1.x report is valid: minor versions only add optional fields
+    schema_version: { type: 'string', pattern: '^1\\.\\d+$' },
+    outcome: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    resolution_rule_id: { type: 'string' },
+    evidence_highlights: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          title: { type: 'string' },
+          source_url: { type: 'string' },
+          snippet: { type: 'string' },
+          domain: { type: 'string' },
+          collector: { type: 'string' },
+          retrieved_at: { type: 'string' },
+        },
+      },
+    },
+    evidence_counts: {
+      type: 'object',
+      required: ['collected', 'duplicates', 'excluded', 'shown'],
+      additionalProperties: false,
+      properties: {
+        collected: count,
+        duplicates: count,
+        excluded: count,
+        shown: count,
+      },
+    },
+    requirements_fulfilled: stringArray,
+    requirements_unfulfilled: stringArray,
+    reasoning_summary: stringArray,
+    reasoning_counts: {
+      type: 'object',
+      required: ['total', 'shown'],
+      additionalProperties: false,
+      properties: {
+        total: count,
+        shown: count,
+      },
+    },
+    reasoning_steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['description'],
+        additionalProperties: false,
+        properties: {
+          step_id: { type: 'string' },
+          description: { type: 'string' },
+          evidence_refs: stringArray,
+          conclusion: { type: 'string' },
+          metadata: { type: 'object' },
+        },
+      },
+    },
+    roots: {
+      type: 'object',
+      required: ['prompt_spec_hash', 'evidence_root', 'reasoning_root', 'por_root'],
+      additionalProperties: false,
+      properties: {
+        prompt_spec_hash: hash,
+        evidence_root: hash,
+        reasoning_root: hash,
+        por_root: hash,
+      },
+    },
+    diagnostics: {
+      type: 'object',
+      required: ['errors', 'collectors_missing', 'execution_logs'],
+      additionalProperties: false,
+      properties: {
+        errors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['step', 'message'],
+            additionalProperties: false,
+            properties: {
+              step: { enum: ['prompt', 'collect', 'audit', 'judge', 'bundle'] },
+              message: { type: 'string' },
+            },
+          },
+        },
+        collectors_requested: stringArray,
+        collectors_used: stringArray,
+        collectors_reported: { type: 'boolean' },
+        collectors_missing: stringArray,
+        execution_logs: stringArray,
+        cache: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['path', 'status'],
+            additionalProperties: false,
+            properties: {
+              step: { enum: ['prompt', 'collect', 'audit', 'judge', 'bundle'] },
+              path: { type: 'string' },
+              status: { enum: ['hit', 'miss', 'refresh'] },
+              age_ms: { type: 'number', minimum: 0 },
+            },
+          },
+        },
+        preflight: {
+          type: 'object',
+          required: ['query', 'normalized_query', 'reference_date', 'date_rewrites', 'issues'],
+          additionalProperties: false,
+          properties: {
+            query: { type: 'string' },
+            normalized_query: { type: 'string' },
+            reference_date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+            deadline: { type: 'string' },
+            date_rewrites: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['original', 'normalized'],
+                additionalProperties: false,
+                properties: {
+                  original: { type: 'string' },
+                  normalized: { type: 'string' },
+                },
+              },
+            },
+            issues: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['check', 'severity', 'message'],
+                additionalProperties: false,
+                properties: {
+                  check: { enum: ['subject', 'criterion', 'deadline'] },
+                  severity: { enum: ['error', 'warning'] },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    consensus,
+    stability,
+  },
+} as const;
@@ -6,7 +6,26 @@ import type {
   BundleResponse,
   PorReport,
   EvidenceHighlight,
+  ReasoningCounts,
+  ReasoningStep,
+  ReasoningStepDetail,
+  ReportOptions,
+  Verdict,
 } from './types.js';
+import {
+  REASONING_STEP_KEYS,
+  normalizeEvidenceBundles,
+  normalizeReasoningTrace,
+  normalizeVerdict,
+} from './normalize.js';
+import { describeAgreement, describeDisagreements } from './consensus.js';
+import { describeDistribution } from './sampling.js';
+import { describeEvidenceCounts, selectEvidence } from './evidence.js';
+import { collectDiagnostics, describeCache, describeCollectors } from './diagnostics.js';
+import { describeLint } from './lint.js';
+
+/** Reasoning steps shown in a report unless configured otherwise */
+export const DEFAULT_MAX_REASONING_STEPS = 10;
 
 export function buildReport(
   prompt: PromptResponse,
@@ -14,21 +33,41 @@ export function buildReport(
   audit: AuditResponse,
   judge: JudgeResponse,
   bundle: BundleResponse,
+  options: ReportOptions = {},
 ): PorReport {
-  const evidenceHighlights = extractEvidenceHighlights(collect.evidence_bundles);
-  const reasoningSummary = extractReasoningSummary(audit.reasoning_trace);
-  const { fulfilled, unfulfilled } = extractRequirements(judge);
-  const resolutionRuleId = extractResolutionRuleId(judge);
+  const evidence = selectEvidence(
+    normalizeEvidenceBundles(collect.evidence_bundles),
+    options.domain_policy,
+    options.full ? Infinity : options.max_evidence,
+  );
+  const snippetLength = options.full ? undefined : options.snippet_length;
+  const highlights = snippetLength === undefined
+    ? evidence.highlights
+    : evidence.highlights.map(item => ({ ...item, snippet: truncate(item.snippet, snippetLength) }));
+  const reasoning = extractReasoning(
+    audit.reasoning_trace,
+    options.full ? Infinity : options.max_reasoning_steps ?? DEFAULT_MAX_REASONING_STEPS,
+  );
+  const verdict = normalizeVerdict(judge.verdict);
+  const { fulfilled, unfulfilled } = extractRequirements(verdict);
+  const resolutionRuleId = verdict.resolution_rule_id;
 
   return {
     outcome: judge.outcome,
     confidence: judge.confidence,
     resolution_rule_id: resolutionRuleId,
-    evidence_highlights: evidenceHighlights,
+    evidence_highlights: highlights,
+    evidence_counts: evidence.counts,
     requirements_fulfilled: fulfilled.length > 0 ? fulfilled : undefined,
     requirements_unfulfilled: unfulfilled.length > 0 ? unfulfilled : undefined,
-    reasoning_summary: reasoningSummary,
+    reasoning_summary: reasoning.steps.map(step => step.description),
+    reasoning_counts: reasoning.counts,
+    reasoning_steps: options.full || options.step_details ? reasoning.steps : undefined,
     roots: bundle.roots,
+    diagnostics: collectDiagnostics(
+      { prompt, collect, audit, judge, bundle },
+      options.requested_collectors,
+    ),
     raw: {
       prompt_response: prompt,
       collect_response: collect,
@@ -39,115 +78,84 @@ export function buildReport(
   };
 }
 
-function extractEvidenceHighlights(bundles: unknown[]): EvidenceHighlight[] {
-  const highlights: EvidenceHighlight[] = [];
-
-  for (const bundle of bundles) {
-    if (!bundle || typeof bundle !== 'object') continue;
-    const b = bundle as Record<string, unknown>;
-
-    // Try to find an array of evidence items inside the bundle
-    const items = (b.items ?? b.evidence_items ?? b.results ?? b.snippets) as unknown[];
-    if (Array.isArray(items)) {
-      for (const item of items) {
-        if (!item || typeof item !== 'object') continue;
-        const i = item as Record<string, unknown>;
-        highlights.push({
-          title: asOptionalString(i.title ?? i.headline ?? i.name),
-          source_url: asOptionalString(i.source_url ?? i.url ?? i.link),
-          snippet: asOptionalString(i.snippet ?? i.text ?? i.content ?? i.summary),
-        });
-      }
-    }
+function truncate(text: string | undefined, length: number): string | undefined {
+  if (text === undefined || text.length <= length) return text;
+  return `${text.slice(0, Math.max(0, length - 1)).trimEnd()}…`;
+}
 
-    // Fallback: treat the bundle itself as a single evidence item
-    if (items === undefined || !Array.isArray(items)) {
-      if (b.title || b.snippet || b.source_url || b.url || b.text) {
-        highlights.push({
-          title: asOptionalString(b.title ?? b.headline),
-          source_url: asOptionalString(b.source_url ?? b.url),
-          snippet: asOptionalString(b.snippet ?? b.text ?? b.summary),
-        });
-      }
-    }
-  }
+const CONTRACT_STEP_FIELDS = new Set(REASONING_STEP_KEYS);
 
-  return highlights.slice(0, 10);
+function toStepDetail(step: ReasoningStep): ReasoningStepDetail {
+  const metadata = Object.fromEntries(
+    Object.entries(step).filter(([key, value]) => !CONTRACT_STEP_FIELDS.has(key) && value !== undefined),
+  );
+  return {
+    step_id: step.step_id,
+    description: step.description,
+    evidence_refs: step.evidence_refs,
+    conclusion: step.conclusion,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
 }
 
-function extractReasoningSummary(trace: unknown): string[] {
-  if (!trace) return [];
-
-  if (Array.isArray(trace)) {
-    return trace
-      .filter((step): step is Record<string, unknown> =>
-        typeof step === 'object' && step !== null,
-      )
-      .map(step => {
-        const desc = step.description ?? step.summary ?? step.step ?? step.text;
-        return typeof desc === 'string' ? desc : JSON.stringify(step);
-      })
-      .slice(0, 10);
-  }
+function extractReasoning(
+  trace: unknown,
+  limit: number,
+): { steps: ReasoningStepDetail[]; counts: ReasoningCounts } {
+  const normalized = normalizeReasoningTrace(trace);
 
-  if (typeof trace === 'object' && trace !== null) {
-    const t = trace as Record<string, unknown>;
-    const steps = (t.steps ?? t.trace ?? t.reasoning_steps) as unknown[];
-    if (Array.isArray(steps)) {
-      return extractReasoningSummary(steps);
-    }
-    const summary = t.summary ?? t.text;
-    if (typeof summary === 'string') {
-      return [summary];
-    }
-  }
+  const steps = normalized.steps.length > 0
+    ? normalized.steps.map(toStepDetail)
+    : normalized.summary ? [{ description: normalized.summary }] : [];
+  const shown = steps.slice(0, limit);
+  return { steps: shown, counts: { total: steps.length, shown: shown.length } };
+}
 
-  if (typeof trace === 'string') {
-    return [trace];
-  }
+/** e.g. "Showing 10 of 34 reasoning steps" */
+export function describeReasoningCounts(counts: ReasoningCounts): string {
+  return `Showing ${counts.shown} of ${counts.total} reasoning steps`;
+}
+
+/** One "key: value" line per metadata field; nested values stay JSON */
+export function describeStepMetadata(step: ReasoningStepDetail): string[] {
+  return Object.entries(step.metadata ?? {}).map(([key, value]) =>
+    `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`,
+  );
+}
 
-  return [];
+/** e.g. "id s2 · uses e1, e3 · concludes The deadline passed" */
+export function describeStepDetail(step: ReasoningStepDetail): string {
+  const parts: string[] = [];
+  if (step.step_id) parts.push(`id ${step.step_id}`);
+  if (step.evidence_refs?.length) parts.push(`uses ${step.evidence_refs.join(', ')}`);
+  if (step.conclusion && step.conclusion !== step.description) parts.push(`concludes ${step.conclusion}`);
+  return parts.join(' · ');
 }
 
 function extractRequirements(
-  judge: JudgeResponse,
+  verdict: Verdict,
 ): { fulfilled: string[]; unfulfilled: string[] } {
-  const verdict = judge.verdict;
-  if (!verdict || typeof verdict !== 'object') return { fulfilled: [], unfulfilled: [] };
-
   const fulfilled: string[] = [];
   const unfulfilled: string[] = [];
 
-  const v = verdict as Record<string, unknown>;
-  const reqs = (v.requirements ?? v.criteria ?? v.rules) as unknown[];
-
-  if (Array.isArray(reqs)) {
-    for (const req of reqs) {
-      if (!req || typeof req !== 'object') continue;
-      const r = req as Record<string, unknown>;
-      const label = asOptionalString(r.description ?? r.label ?? r.name ?? r.id);
-      if (!label) continue;
-      const met = r.fulfilled ?? r.met ?? r.satisfied ?? r.passed;
-      if (met) {
-        fulfilled.push(label);
-      } else {
-        unfulfilled.push(label);
-      }
+  for (const req of verdict.requirements ?? []) {
+    if (req.fulfilled) {
+      fulfilled.push(req.description);
+    } else {
+      unfulfilled.push(req.description);
     }
   }
 
   return { fulfilled, unfulfilled };
 }
 
-function extractResolutionRuleId(judge: JudgeResponse): string | undefined {
-  const verdict = judge.verdict;
-  if (!verdict || typeof verdict !== 'object') return undefined;
-  const v = verdict as Record<string, unknown>;
-  return asOptionalString(v.resolution_rule_id ?? v.rule_id);
-}
-
-function asOptionalString(val: unknown): string | undefined {
-  return typeof val === 'string' ? val : undefined;
+/** e.g. "sec.gov · CollectorGeminiGrounded · retrieved 2026-10-19T12:00:00Z" */
+export function describeProvenance(item: EvidenceHighlight): string {
+  const parts: string[] = [];
+  if (item.domain) parts.push(item.domain);
+  if (item.collector) parts.push(item.collector);
+  if (item.retrieved_at) parts.push(`retrieved ${item.retrieved_at}`);
+  return parts.join(' · ');
 }
 
 export function formatReport(report: PorReport): string {
@@ -161,8 +169,72 @@ export function formatReport(report: PorReport): string {
     lines.push(`**Resolution Rule:** ${report.resolution_rule_id}`);
   }
 
+  if (report.consensus) {
+    const consensus = report.consensus;
+    lines.push('');
+    lines.push('## Collector Consensus');
+    lines.push(`**Agreement:** ${describeAgreement(consensus)}`);
+    lines.push(`**Evidence and roots from:** ${consensus.representative}`);
+    lines.push('');
+    lines.push('| Group | Outcome | Confidence | PoR Root |');
+    lines.push('|---|---|---|---|');
+    for (const b of consensus.branches) {
+      if (b.error !== undefined) {
+        lines.push(`| ${b.group} | failed: ${b.error.split('\n')[0].replace(/\|/g, '\\|')} | | |`);
+      } else {
+        lines.push(
+          `| ${b.group} | ${b.outcome} | ${((b.confidence ?? 0) * 100).toFixed(1)}% | \`${b.por_root}\` |`,
+        );
+      }
+    }
+    const disagreements = describeDisagreements(consensus);
+    lines.push('');
+    if (disagreements.length === 0) {
+      lines.push('All groups agreed on the outcome and requirements.');
+    } else {
+      lines.push('**Disagreements:**');
+      for (const d of disagreements) lines.push(`- ${d}`);
+    }
+  }
+
+  if (report.stability) {
+    const stability = report.stability;
+    const scope = stability.scope === 'full'
+      ? 'full re-runs'
+      : 'reasoning re-run over the same evidence';
+    lines.push('');
+    lines.push('## Outcome Stability');
+    lines.push(
+      stability.unstable
+        ? `**Status:** UNSTABLE -- only ${(stability.modal_share * 100).toFixed(1)}% of samples agree (threshold ${(stability.threshold * 100).toFixed(0)}%)`
+        : `**Status:** Stable -- ${(stability.modal_share * 100).toFixed(1)}% of samples agree`,
+    );
+    lines.push(`**Samples:** ${stability.samples.length} (${scope})`);
+    lines.push(`**Outcomes:** ${describeDistribution(stability)}`);
+    lines.push(
+      `**Confidence:** mean ${(stability.confidence_mean * 100).toFixed(1)}%, ` +
+        `std dev ${(Math.sqrt(stability.confidence_variance) * 100).toFixed(1)}%`,
+    );
+    lines.push(`**Evidence and roots from:** sample ${stability.representative}`);
+    lines.push('');
+    lines.push('| Sample | Outcome | Confidence | PoR Root |');
+    lines.push('|---|---|---|---|');
+    for (const sample of stability.samples) {
+      if (sample.error !== undefined) {
+        lines.push(`| ${sample.index} | failed: ${sample.error.split('\n')[0].replace(/\|/g, '\\|')} | | |`);
+      } else {
+        lines.push(
+          `| ${sample.index} | ${sample.outcome} | ${((sample.confidence ?? 0) * 100).toFixed(1)}% | \`${sample.por_root}\` |`,
+        );
+      }
+    }
+  }
+
   lines.push('');
   lines.push('## Evidence Highlights');
+  if (report.evidence_counts) {
+    lines.push(`*${describeEvidenceCounts(report.evidence_counts)}*`);
+  }
   if (report.evidence_highlights.length === 0) {
     lines.push('No evidence highlights available.');
   } else {
@@ -171,7 +243,8 @@ export function formatReport(report: PorReport): string {
       if (item.title) parts.push(`**${item.title}**`);
       if (item.source_url) parts.push(`[source](${item.source_url})`);
       if (item.snippet) parts.push(item.snippet);
-      lines.push(`- ${parts.join(' — ')}`);
+      const provenance = describeProvenance(item);
+      lines.push(`- ${parts.join(' — ')}${provenance ? ` _(${provenance})_` : ''}`);
     }
   }
 
@@ -194,14 +267,43 @@ export function formatReport(report: PorReport): string {
 
   lines.push('');
   lines.push('## Reasoning Summary');
+  if (report.reasoning_counts && report.reasoning_counts.shown < report.reasoning_counts.total) {
+    lines.push(`*${describeReasoningCounts(report.reasoning_counts)}*`);
+  }
   if (report.reasoning_summary.length === 0) {
     lines.push('No reasoning steps available.');
+  } else if (report.reasoning_steps) {
+    report.reasoning_steps.forEach((step, i) => {
+      lines.push(`${i + 1}. ${step.description}`);
+      const detail = describeStepDetail(step);
+      if (detail) lines.push(`   _${detail}_`);
+      for (const field of describeStepMetadata(step)) lines.push(`   - ${field}`);
+    });
   } else {
     for (let i = 0; i < report.reasoning_summary.length; i++) {
       lines.push(`${i + 1}. ${report.reasoning_summary[i]}`);
     }
   }
 
+  if (report.diagnostics) {
+    const d = report.diagnostics;
+    lines.push('');
+    lines.push('## Diagnostics');
+    lines.push(`**Collectors:** ${describeCollectors(d)}`);
+    if (d.cache) lines.push(`**Cache:** ${describeCache(d.cache)}`);
+    if (d.preflight) lines.push(`**Pre-flight:** ${describeLint(d.preflight)}`);
+    if (d.errors.length === 0) {
+      lines.push('No step errors reported.');
+    } else {
+      lines.push('**Step errors:**');
+      for (const e of d.errors) lines.push(`- ${e.step}: ${e.message}`);
+    }
+    if (d.execution_logs.length > 0) {
+      lines.push('**Collector logs:**');
+      for (const log of d.execution_logs) lines.push(`- ${log}`);
+    }
+  }
+
   lines.push('');
   lines.push('## PoR Roots');
   lines.push(`- **Prompt Spec Hash:** \`${report.roots.prompt_spec_hash}\``);
@@ -0,0 +1,88 @@
+import { BranchesFailedError } from './errors.js';
+import type { PorReport, SampleScope, StabilitySample, StabilitySummary } from './types.js';
+
+/**
+ * Outcomes must agree in at least this share of samples for a result to count
+ * as stable.
+ */
+export const DEFAULT_STABILITY_THRESHOLD = 0.8;
+
+export function sampleLabel(index: number): string {
+  return `sample-${index}`;
+}
+
+export function sampleFromReport(index: number, report: PorReport): StabilitySample {
+  return {
+    index,
+    outcome: report.outcome,
+    confidence: report.confidence,
+    por_root: report.roots.por_root,
+  };
+}
+
+/**
+ * Summarize repeated runs of the same query. The modal outcome is the most
+ * frequent one, with ties broken by summed confidence. Throws a
+ * BranchesFailedError if no sample produced a verdict; `causes` are the errors
+ * the failed samples threw.
+ */
+export function summarizeSamples(
+  samples: StabilitySample[],
+  scope: SampleScope,
+  threshold: number = DEFAULT_STABILITY_THRESHOLD,
+  causes: unknown[] = [],
+): StabilitySummary {
+  const succeeded = samples.filter(s => s.error === undefined && s.outcome !== undefined);
+  if (succeeded.length === 0) {
+    const details = samples.map(s => `  - sample ${s.index}: ${s.error ?? 'no outcome'}`).join('\n');
+    // A sample that ran but reached no outcome has no cause to share
+    throw new BranchesFailedError(`All samples failed:\n${details}`, causes.length === samples.length ? causes : []);
+  }
+
+  const distribution: Record<string, number> = {};
+  const summedConfidence: Record<string, number> = {};
+  for (const s of succeeded) {
+    distribution[s.outcome!] = (distribution[s.outcome!] ?? 0) + 1;
+    summedConfidence[s.outcome!] = (summedConfidence[s.outcome!] ?? 0) + (s.confidence ?? 0);
+  }
+
+  let modal = succeeded[0].outcome!;
+  for (const outcome of Object.keys(distribution)) {
+    if (
+      distribution[outcome] > distribution[modal] ||
+      (distribution[outcome] === distribution[modal] && summedConfidence[outcome] > summedConfidence[modal])
+    ) {
+      modal = outcome;
+    }
+  }
+
+  const confidences = succeeded.map(s => s.confidence ?? 0);
+  const mean = confidences.reduce((a, b) => a + b, 0) / confidences.length;
+  const variance = confidences.reduce((a, c) => a + (c - mean) ** 2, 0) / confidences.length;
+  const modalShare = distribution[modal] / succeeded.length;
+  const representative = succeeded
+    .filter(s => s.outcome === modal)
+    .reduce((best, s) => ((s.confidence ?? 0) > (best.confidence ?? 0) ? s : best));
+
+  return {
+    scope,
+    samples,
+    outcome_distribution: distribution,
+    modal_outcome: modal,
+    modal_share: modalShare,
+    confidence: (summedConfidence[modal] / distribution[modal]) * modalShare,
+    confidence_mean: mean,
+    confidence_variance: variance,
+    threshold,
+    unstable: modalShare < threshold,
+    representative: representative.index,
+  };
+}
+
+/** e.g. "YES 4, NO 1" */
+export function describeDistribution(summary: StabilitySummary): string {
+  return Object.entries(summary.outcome_distribution)
+    .sort((a, b) => b[1] - a[1])
+    .map(([outcome, count]) => `${outcome} ${count}`)
+    .join(', ');
+}
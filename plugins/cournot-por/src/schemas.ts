@@ -1,4 +1,104 @@
 import { z } from 'zod';
+import type { PipelineOptions } from './types.js';
+
+// --- Step requests ---
+
+export const DEFAULT_COLLECTORS = ['CollectorGeminiGrounded'];
+
+/** Present and not undefined; the value itself is passed through as-is */
+const requiredPayload = z.unknown().refine(val => val !== undefined, 'Required');
+
+export const promptRequestSchema = z.object({
+  user_input: z.string().min(1),
+  strict_mode: z.boolean().default(false),
+});
+
+export const collectRequestSchema = z.object({
+  prompt_spec: requiredPayload,
+  tool_plan: requiredPayload,
+  collectors: z.array(z.string()).min(1).default(DEFAULT_COLLECTORS),
+  include_raw_content: z.boolean().default(false),
+});
+
+export const auditRequestSchema = z.object({
+  prompt_spec: requiredPayload,
+  evidence_bundles: z.array(z.unknown()),
+});
+
+export const judgeRequestSchema = z.object({
+  prompt_spec: requiredPayload,
+  evidence_bundles: z.array(z.unknown()),
+  reasoning_trace: requiredPayload,
+});
+
+export const bundleRequestSchema = z.object({
+  prompt_spec: requiredPayload,
+  evidence_bundles: z.array(z.unknown()),
+  reasoning_trace: requiredPayload,
+  verdict: requiredPayload,
+});
+
+export const stepRequestSchemas = {
+  prompt: promptRequestSchema,
+  collect: collectRequestSchema,
+  audit: auditRequestSchema,
+  judge: judgeRequestSchema,
+  bundle: bundleRequestSchema,
+};
+
+// --- Resolve requests ---
+
+const domainList = z.array(z.string().min(1));
+
+/** A full resolution requested by a service or tool caller; never carries the access code */
+export const resolveRequestSchema = z.object({
+  query: z.string().min(1),
+  strict_mode: z.boolean().optional(),
+  collectors: z.array(z.string().min(1)).min(1).optional(),
+  include_raw_content: z.boolean().optional(),
+  consensus_groups: z.array(z.array(z.string().min(1)).min(1)).min(2).optional(),
+  samples: z.number().int().min(1).optional(),
+  sample_scope: z.enum(['reasoning', 'full']).optional(),
+  prefer_domains: domainList.optional(),
+  allow_domains: domainList.optional(),
+  deny_domains: domainList.optional(),
+  max_evidence: z.number().int().min(0).optional(),
+  full: z.boolean().optional(),
+  total_timeout_seconds: z.number().positive().optional(),
+  preflight: z.enum(['warn', 'strict']).optional(),
+  reference_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+}).strict();
+
+export type ResolveRequest = z.infer<typeof resolveRequestSchema>;
+
+export function resolveRequestOptions(request: ResolveRequest, code: string): PipelineOptions {
+  return {
+    query: request.query,
+    code,
+    strict_mode: request.strict_mode,
+    collectors: request.collectors,
+    include_raw_content: request.include_raw_content,
+    consensus_groups: request.consensus_groups,
+    samples: request.samples,
+    sample_scope: request.sample_scope,
+    total_timeout_ms: request.total_timeout_seconds !== undefined
+      ? request.total_timeout_seconds * 1000
+      : undefined,
+    preflight: request.preflight,
+    reference_date: request.reference_date,
+    report_options: {
+      domain_policy: {
+        allow: request.allow_domains,
+        deny: request.deny_domains,
+        priority: request.prefer_domains,
+      },
+      max_evidence: request.max_evidence,
+      full: request.full,
+    },
+  };
+}
+
+// --- Step responses ---
 
 export const promptResponseSchema = z.object({
   market_id: z.string().optional(),
@@ -42,3 +142,117 @@ export const capabilitiesResponseSchema = z.object({
   collectors: z.array(z.unknown()).optional(),
   providers: z.array(z.unknown()).optional(),
 }).passthrough();
+
+// --- Contract schemas ---
+//
+// The step schemas above accept any payload shape. These describe the
+// contract for those payloads and are only enforced in strict schema mode.
+
+export const resolutionRuleSchema = z.object({
+  rule_id: z.string(),
+  description: z.string().optional(),
+}).passthrough();
+
+export const promptSpecSchema = z.object({
+  market_id: z.string().optional(),
+  question: z.string().optional(),
+  deadline: z.string().optional(),
+  resolution_rules: z.array(resolutionRuleSchema).optional(),
+}).passthrough();
+
+export const toolPlanSchema = z.object({
+  tools: z.array(
+    z.union([z.string(), z.object({ name: z.string() }).passthrough()]),
+  ).optional(),
+}).passthrough();
+
+export const evidenceItemSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().optional(),
+  source_url: z.string().optional(),
+  snippet: z.string().optional(),
+  retrieved_at: z.string().optional(),
+}).passthrough();
+
+export const evidenceBundleSchema = z.object({
+  collector: z.string().optional(),
+  items: z.array(evidenceItemSchema),
+}).passthrough();
+
+export const reasoningStepSchema = z.object({
+  step_id: z.string().optional(),
+  description: z.string(),
+  evidence_refs: z.array(z.string()).optional(),
+  conclusion: z.string().optional(),
+}).passthrough();
+
+/** A bare array of steps is accepted as shorthand for `{ steps }` */
+export const reasoningTraceSchema = z.preprocess(
+  val => (Array.isArray(val) ? { steps: val } : val),
+  z.object({
+    steps: z.array(reasoningStepSchema),
+    summary: z.string().optional(),
+  }).passthrough(),
+);
+
+export const requirementSchema = z.object({
+  id: z.string().optional(),
+  description: z.string(),
+  fulfilled: z.boolean(),
+}).passthrough();
+
+export const verdictSchema = z.object({
+  outcome: z.string().optional(),
+  confidence: z.number().optional(),
+  resolution_rule_id: z.string().optional(),
+  requirements: z.array(requirementSchema).optional(),
+}).passthrough();
+
+export const strictStepSchemas = {
+  prompt: promptResponseSchema.extend({
+    prompt_spec: promptSpecSchema,
+    tool_plan: toolPlanSchema,
+  }),
+  collect: collectResponseSchema.extend({
+    evidence_bundles: z.array(evidenceBundleSchema),
+  }),
+  audit: auditResponseSchema.extend({
+    reasoning_trace: reasoningTraceSchema,
+  }),
+  judge: judgeResponseSchema.extend({
+    verdict: verdictSchema,
+  }),
+  bundle: bundleResponseSchema.extend({
+    por_bundle: z.object({
+      prompt_spec: promptSpecSchema,
+      evidence_bundles: z.array(evidenceBundleSchema),
+      reasoning_trace: reasoningTraceSchema,
+      verdict: verdictSchema,
+    }).passthrough(),
+  }),
+};
+
+export interface ContractIssue {
+  /** Dotted path of the drifted field, e.g. `evidence_bundles.0.items.2.source_url` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Check a step response against the strict contract and list every field that
+ * drifted from it. An empty list means the response conforms.
+ */
+export function checkContract(
+  step: keyof typeof strictStepSchemas,
+  data: unknown,
+): ContractIssue[] {
+  const result = strictStepSchemas[step].safeParse(data);
+  return result.success ? [] : issuesFromZod(result.error);
+}
+
+export function issuesFromZod(error: z.ZodError): ContractIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,429 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { runPipeline } from './pipeline.js';
+import { toReportJson } from './formatters.js';
+import { recordHistory } from './history.js';
+import { newRunId, writeJsonAtomic } from './checkpoint.js';
+import { redactCode } from './client.js';
+import { issuesFromZod, resolveRequestOptions, resolveRequestSchema, type ResolveRequest } from './schemas.js';
+import { CancelledError, CournotError, type ErrorKind } from './errors.js';
+import type { GatewayClientOptions } from './client.js';
+import type { PipelineEvent } from './types.js';
+
+/**
+ * Local REST service: callers POST resolutions, which run on a bounded worker
+ * pool through the same pipeline and gateway client as the CLI.
+ *
+ * Each caller sends its own access code as `Authorization: Bearer <code>`.
+ * Codes are held in memory only while their job is queued or running; jobs
+ * store a hash of the code and are only visible to callers presenting it.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobError {
+  kind: ErrorKind;
+  message: string;
+  step?: string;
+  retryable: boolean;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  request: ResolveRequest;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  /** The JSON report (see `schema`), once succeeded */
+  report?: Record<string, unknown>;
+  error?: JobError;
+  /** HMAC of the submitting caller's access code under this install's owner key */
+  owner: string;
+}
+
+export interface ServiceOptions {
+  /** Jobs run at once; the rest wait in FIFO order (default: DEFAULT_SERVICE_CONCURRENCY) */
+  concurrency?: number;
+  /** Persist jobs here so finished results survive a restart; in memory only if unset */
+  jobsDir?: string;
+  /** Used for requests without an Authorization header; otherwise those get 401 */
+  defaultCode?: string;
+  clientOptions?: GatewayClientOptions;
+  /** Record finished resolutions in the local history (default: true) */
+  recordHistory?: boolean;
+}
+
+export interface JobService {
+  url: string;
+  server: Server;
+  /** Stop accepting requests, cancel running jobs and wait for them to settle */
+  close(): Promise<void>;
+}
+
+export const DEFAULT_SERVICE_CONCURRENCY = 2;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const FINISHED: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+interface ActiveJob {
+  code: string;
+  controller: AbortController;
+  /** Events so far, replayed to late SSE subscribers */
+  events: PipelineEvent[];
+  listeners: Set<(event: PipelineEvent | undefined) => void>;
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) return undefined;
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function bearerCode(req: IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  return match?.[1].trim() || undefined;
+}
+
+function jobError(err: unknown, code: string): JobError {
+  const message = redactCode(err instanceof Error ? err.message : String(err), code);
+  if (!(err instanceof CournotError)) return { kind: 'failure', message, retryable: false };
+  return { kind: err.kind, message, step: err.step, retryable: err.retryable };
+}
+
+/** Step responses are left out of streamed events; the finished job carries the report */
+function streamedEvent(event: PipelineEvent): PipelineEvent {
+  if (event.type !== 'step:complete') return event;
+  const { response: _response, ...rest } = event;
+  return rest as PipelineEvent;
+}
+
+/**
+ * Load persisted jobs. Jobs that were still queued or running when the
+ * service stopped cannot resume (their access codes were never stored), so
+ * they are marked failed.
+ */
+async function loadJobs(dir: string): Promise<Job[]> {
+  await mkdir(dir, { recursive: true });
+  const jobs: Job[] = [];
+  for (const file of (await readdir(dir)).filter(f => f.endsWith('.json')).sort()) {
+    let job: Job;
+    try {
+      job = JSON.parse(await readFile(join(dir, file), 'utf8')) as Job;
+    } catch {
+      continue;
+    }
+    if (!FINISHED.includes(job.status)) {
+      job.status = 'failed';
+      job.finished_at = new Date().toISOString();
+      job.error = {
+        kind: 'failure',
+        message: 'The service restarted before this job finished; submit it again.',
+        retryable: true,
+      };
+      await writeJsonAtomic(join(dir, file), job);
+    }
+    jobs.push(job);
+  }
+  return jobs;
+}
+
+/**
+ * The secret that keys job owners, created in the jobs directory on first use
+ * so ownership survives restarts; a fresh one per process without a directory.
+ */
+async function loadOwnerKey(dir: string | undefined): Promise<Buffer> {
+  if (!dir) return randomBytes(32);
+  const path = join(dir, '.owner-key');
+  await mkdir(dir, { recursive: true });
+  try {
+    await writeFile(path, randomBytes(32).toString('hex') + '\n', { mode: 0o600, flag: 'wx' });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+  }
+  return Buffer.from((await readFile(path, 'utf8')).trim(), 'hex');
+}
+
+/**
+ * Create the HTTP handler and its job queue.
+ *
+ * - `POST /resolve` takes a resolve request (query plus options) and returns 202 with the job
+ * - `GET /jobs/:id` returns the job, including the report once it succeeded
+ * - `GET /jobs/:id/events` streams pipeline events as server-sent events, then `done`
+ * - `DELETE /jobs/:id` cancels a queued or running job
+ * - `GET /health` reports queue depth
+ */
+export async function createJobService(options: ServiceOptions = {}) {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_SERVICE_CONCURRENCY);
+  const jobs = new Map<string, Job>();
+  const active = new Map<string, ActiveJob>();
+  const queue: string[] = [];
+  const runs = new Set<Promise<void>>();
+  let running = 0;
+  let closing = false;
+
+  if (options.jobsDir) {
+    for (const job of await loadJobs(options.jobsDir)) jobs.set(job.id, job);
+  }
+  const ownerKey = await loadOwnerKey(options.jobsDir);
+  const ownerOf = (code: string) => createHmac('sha256', ownerKey).update(code).digest('hex');
+
+  const persist = async (job: Job) => {
+    if (!options.jobsDir) return;
+    await writeJsonAtomic(join(options.jobsDir, `${job.id}.json`), job).catch(err => {
+      console.error(`Warning: could not persist job ${job.id}:`, err instanceof Error ? err.message : String(err));
+    });
+  };
+
+  const emit = (state: ActiveJob, event: PipelineEvent) => {
+    const streamed = streamedEvent(event);
+    state.events.push(streamed);
+    for (const listener of state.listeners) listener(streamed);
+  };
+
+  const finish = async (job: Job, state: ActiveJob) => {
+    job.finished_at = new Date().toISOString();
+    active.delete(job.id);
+    await persist(job);
+    for (const listener of state.listeners) listener(undefined);
+  };
+
+  async function run(job: Job, state: ActiveJob): Promise<void> {
+    job.status = 'running';
+    job.started_at = new Date().toISOString();
+    await persist(job);
+
+    const pipelineOptions = resolveRequestOptions(job.request, state.code);
+    try {
+      const report = await runPipeline(
+        { ...pipelineOptions, onEvent: event => emit(state, event) },
+        { ...options.clientOptions, signal: state.controller.signal },
+      );
+      job.status = 'succeeded';
+      job.report = toReportJson(report);
+      if (options.recordHistory ?? true) {
+        await recordHistory(job.id, pipelineOptions, job.started_at, report);
+      }
+    } catch (err) {
+      job.status = err instanceof CancelledError ? 'cancelled' : 'failed';
+      job.error = jobError(err, state.code);
+    }
+    await finish(job, state);
+  }
+
+  function pump(): void {
+    while (!closing && running < concurrency && queue.length > 0) {
+      const id = queue.shift()!;
+      const job = jobs.get(id)!;
+      const state = active.get(id)!;
+      running++;
+      const task = run(job, state).finally(() => {
+        running--;
+        runs.delete(task);
+        pump();
+      });
+      runs.add(task);
+    }
+  }
+
+  async function submit(body: unknown, code: string): Promise<Job | { issues: ReturnType<typeof issuesFromZod> }> {
+    const parsed = resolveRequestSchema.safeParse(body);
+    if (!parsed.success) return { issues: issuesFromZod(parsed.error) };
+
+    const job: Job = {
+      id: newRunId(),
+      status: 'queued',
+      request: parsed.data,
+      created_at: new Date().toISOString(),
+      owner: ownerOf(code),
+    };
+    jobs.set(job.id, job);
+    active.set(job.id, { code, controller: new AbortController(), events: [], listeners: new Set() });
+    // Persist before queueing, so a starting run cannot race this write with its own
+    await persist(job);
+    queue.push(job.id);
+    pump();
+    return job;
+  }
+
+  async function cancel(job: Job): Promise<void> {
+    const state = active.get(job.id);
+    if (!state) return;
+    const queued = queue.indexOf(job.id);
+    if (queued !== -1) {
+      queue.splice(queued, 1);
+      job.status = 'cancelled';
+      job.error = { kind: 'cancelled', message: 'Cancelled before it started', retryable: false };
+      await finish(job, state);
+      return;
+    }
+    // The running pipeline stops at its next request or retry and settles as cancelled
+    state.controller.abort();
+  }
+
+  function streamEvents(req: IncomingMessage, res: ServerResponse, job: Job): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    // Event ids are indexes into the job's events. Resume after the last one the
+    // client saw; replay everything for a missing or malformed id.
+    const lastId = Number(req.headers['last-event-id']);
+    let next = Number.isInteger(lastId) && lastId >= 0 ? lastId + 1 : 0;
+    const flush = (events: PipelineEvent[]) => {
+      for (; next < events.length; next++) {
+        const event = events[next];
+        res.write(`id: ${next}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    };
+    const done = () => {
+      const { report: _report, owner: _owner, ...summary } = job;
+      res.end(`event: done\ndata: ${JSON.stringify(summary)}\n\n`);
+    };
+
+    const state = active.get(job.id);
+    if (!state) {
+      done();
+      return;
+    }
+    flush(state.events);
+    const listener = (event: PipelineEvent | undefined) => (event ? flush(state.events) : done());
+    state.listeners.add(listener);
+    res.on('close', () => state.listeners.delete(listener));
+  }
+
+  const view = ({ owner: _owner, ...job }: Job) => job;
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      send(res, 200, { status: closing ? 'closing' : 'ok', queued: queue.length, running });
+      return;
+    }
+
+    const code = bearerCode(req) ?? options.defaultCode;
+    const isResolve = url.pathname === '/resolve';
+    const isJob = parts[0] === 'jobs' && parts.length >= 2 && parts.length <= 3;
+    if (!isResolve && !isJob) {
+      send(res, 404, { error: `Not found: ${url.pathname}` });
+      return;
+    }
+    if (!code) {
+      send(res, 401, { error: 'Missing access code; send it as "Authorization: Bearer <code>"' });
+      return;
+    }
+
+    if (isResolve) {
+      if (req.method !== 'POST') {
+        send(res, 405, { error: 'Use POST /resolve' });
+        return;
+      }
+      if (closing) {
+        send(res, 503, { error: 'The service is shutting down' });
+        return;
+      }
+      const text = await readBody(req);
+      if (text === undefined) {
+        send(res, 413, { error: `Request body exceeds ${MAX_BODY_BYTES} bytes` });
+        return;
+      }
+      let body: unknown;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        send(res, 400, { error: 'Request body is not valid JSON' });
+        return;
+      }
+      const result = await submit(body, code);
+      if ('issues' in result) {
+        send(res, 400, { error: 'Invalid resolve request', issues: result.issues });
+        return;
+      }
+      send(res, 202, view(result), { Location: `/jobs/${result.id}` });
+      return;
+    }
+
+    const job = jobs.get(parts[1]);
+    // Another caller's job is indistinguishable from a missing one
+    if (!job || job.owner !== ownerOf(code)) {
+      send(res, 404, { error: `No job ${parts[1]}` });
+      return;
+    }
+
+    if (parts[2] === 'events' && req.method === 'GET') {
+      streamEvents(req, res, job);
+    } else if (parts.length === 2 && req.method === 'GET') {
+      send(res, 200, view(job));
+    } else if (parts.length === 2 && req.method === 'DELETE') {
+      if (FINISHED.includes(job.status)) {
+        send(res, 409, { error: `Job ${job.id} already ${job.status}` });
+        return;
+      }
+      await cancel(job);
+      send(res, 202, view(job));
+    } else {
+      send(res, parts.length === 3 ? 404 : 405, { error: `Unsupported ${req.method} ${url.pathname}` });
+    }
+  }
+
+  async function close(): Promise<void> {
+    closing = true;
+    for (const id of [...queue]) await cancel(jobs.get(id)!);
+    for (const state of active.values()) state.controller.abort();
+    await Promise.all(runs);
+  }
+
+  return { handle, close };
+}
+
+/**
+ * Start the service and resolve once it is listening. Port 0 picks a free port.
+ */
+export async function startService(
+  options: ServiceOptions = {},
+  port: number = 0,
+  host: string = '127.0.0.1',
+): Promise<JobService> {
+  const service = await createJobService(options);
+  const server = createServer((req, res) => {
+    service.handle(req, res).catch(err => {
+      if (!res.headersSent) send(res, 500, { error: err instanceof Error ? err.message : String(err) });
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    url: `http://${host}:${address.port}`,
+    server,
+    close: async () => {
+      await service.close();
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => {
+        server.close(err => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
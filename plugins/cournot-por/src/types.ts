@@ -1,3 +1,17 @@
+import type { z } from 'zod';
+import type { RunCheckpoint } from './checkpoint.js';
+import type {
+  evidenceBundleSchema,
+  evidenceItemSchema,
+  promptSpecSchema,
+  reasoningStepSchema,
+  reasoningTraceSchema,
+  requirementSchema,
+  resolutionRuleSchema,
+  toolPlanSchema,
+  verdictSchema,
+} from './schemas.js';
+
 export interface GatewayEnvelope {
   code: string;
   post_data: string;
@@ -5,6 +19,33 @@ export interface GatewayEnvelope {
   method: string;
 }
 
+export type StepName = 'prompt' | 'collect' | 'audit' | 'judge' | 'bundle';
+
+/**
+ * How step responses are checked against the contract types below: `lenient`
+ * accepts any shape the report can make sense of, `strict` rejects responses
+ * whose fields drift from the contract.
+ */
+export type SchemaMode = 'lenient' | 'strict';
+
+// --- Contract types ---
+//
+// Shapes of the payloads that the step responses carry as `unknown`. The raw
+// payloads are passed between steps untouched (they are hashed into the PoR
+// roots); these types describe them for reporting and validation. They are
+// inferred from the contract schemas in schemas.ts, so the two cannot drift;
+// lenient normalization (normalize.ts) produces values of the same types.
+
+export type ResolutionRule = z.infer<typeof resolutionRuleSchema>;
+export type PromptSpec = z.infer<typeof promptSpecSchema>;
+export type ToolPlan = z.infer<typeof toolPlanSchema>;
+export type EvidenceItem = z.infer<typeof evidenceItemSchema>;
+export type EvidenceBundle = z.infer<typeof evidenceBundleSchema>;
+export type ReasoningStep = z.infer<typeof reasoningStepSchema>;
+export type ReasoningTrace = z.infer<typeof reasoningTraceSchema>;
+export type Requirement = z.infer<typeof requirementSchema>;
+export type Verdict = z.infer<typeof verdictSchema>;
+
 // --- Step 1: Prompt ---
 
 export interface PromptRequest {
@@ -31,6 +72,8 @@ export interface CollectRequest {
 export interface CollectResponse {
   evidence_bundles: unknown[];
   collectors_used: string[];
+  /** False when the gateway did not send collectors_used (it is then empty) */
+  collectors_reported?: boolean;
   execution_logs?: unknown[];
   errors: string[];
 }
@@ -90,9 +133,13 @@ export interface PorReport {
   confidence: number;
   resolution_rule_id?: string;
   evidence_highlights: EvidenceHighlight[];
+  evidence_counts?: EvidenceCounts;
   requirements_fulfilled?: string[];
   requirements_unfulfilled?: string[];
   reasoning_summary: string[];
+  reasoning_counts?: ReasoningCounts;
+  /** Present when the report was built with step details or in full mode */
+  reasoning_steps?: ReasoningStepDetail[];
   roots: {
     prompt_spec_hash: string;
     evidence_root: string;
@@ -106,14 +153,216 @@ export interface PorReport {
     judge_response: JudgeResponse;
     bundle_response: BundleResponse;
   };
+  diagnostics?: ReportDiagnostics;
+  /** Present when the run compared several collector groups */
+  consensus?: ConsensusSummary;
+  /** Present when the run was repeated with --samples */
+  stability?: StabilitySummary;
 }
 
 export interface EvidenceHighlight {
   title?: string;
   source_url?: string;
   snippet?: string;
+  /** Host of source_url without `www.` */
+  domain?: string;
+  /** Collector whose bundle contained the item */
+  collector?: string;
+  retrieved_at?: string;
+}
+
+/** How collected evidence was reduced to the highlights shown */
+export interface EvidenceCounts {
+  collected: number;
+  /** Dropped as the same canonical URL or a near-identical snippet */
+  duplicates: number;
+  /** Dropped by the domain allow/deny lists */
+  excluded: number;
+  shown: number;
+}
+
+/**
+ * Domain patterns match the domain and its subdomains, so "gov" matches
+ * "sec.gov" and "cmegroup.com" matches "www.cmegroup.com".
+ */
+export interface DomainPolicy {
+  /** When non-empty, only evidence from these domains is shown */
+  allow?: string[];
+  deny?: string[];
+  /** Evidence from earlier entries is shown first */
+  priority?: string[];
+}
+
+export interface ReportOptions {
+  domain_policy?: DomainPolicy;
+  /** Defaults to DEFAULT_MAX_EVIDENCE */
+  max_evidence?: number;
+  /** Defaults to DEFAULT_MAX_REASONING_STEPS */
+  max_reasoning_steps?: number;
+  /** Cut evidence snippets to this many characters (default: no limit) */
+  snippet_length?: number;
+  /** Add structured reasoning_steps (ids, references, conclusions, other fields) */
+  step_details?: boolean;
+  /** Every evidence item and reasoning step, untruncated, with step details */
+  full?: boolean;
+  /** Collectors the run asked for; set by the pipeline to report which did not run */
+  requested_collectors?: string[];
+}
+
+/** A reasoning step as rendered in a report with step details */
+export interface ReasoningStepDetail {
+  step_id?: string;
+  description: string;
+  evidence_refs?: string[];
+  conclusion?: string;
+  /** Fields of the step outside the contract, as received */
+  metadata?: Record<string, unknown>;
+}
+
+export interface StepError {
+  step: StepName;
+  message: string;
+}
+
+/** Problems the steps reported alongside otherwise successful responses */
+export interface ReportDiagnostics {
+  errors: StepError[];
+  /** Absent when the requested collectors are unknown (e.g. a report built from step files) */
+  collectors_requested?: string[];
+  collectors_used: string[];
+  /** False when the collect step did not report which collectors ran */
+  collectors_reported: boolean;
+  /** Requested collectors missing from collectors_used; empty when that is unknown */
+  collectors_missing: string[];
+  execution_logs: string[];
+  /** Response cache lookups made during the run, in order; absent when caching was off */
+  cache?: CacheLookup[];
+  /** Pre-flight lint of the query; absent when the run had no pre-flight */
+  preflight?: QueryLint;
+}
+
+/** One response cache lookup: served from the cache, fetched, or fetched to replace an entry */
+export interface CacheLookup {
+  step?: StepName;
+  path: string;
+  status: 'hit' | 'miss' | 'refresh';
+  /** Age of the cached response, for hits */
+  age_ms?: number;
+}
+
+export interface ReasoningCounts {
+  total: number;
+  shown: number;
+}
+
+// --- Consensus ---
+
+/** One collector group's independent collect/audit/judge/bundle run */
+export interface ConsensusBranch {
+  /** Collectors joined with '+', e.g. "CollectorA+CollectorB" */
+  group: string;
+  collectors: string[];
+  outcome?: string;
+  confidence?: number;
+  requirements_fulfilled?: string[];
+  requirements_unfulfilled?: string[];
+  evidence_count?: number;
+  por_root?: string;
+  /** Set when this group's run failed; the other groups still count */
+  error?: string;
+}
+
+export interface RequirementDisagreement {
+  requirement: string;
+  met_by: string[];
+  unmet_by: string[];
+}
+
+export interface ConsensusSummary {
+  outcome: string;
+  /** Mean confidence of the agreeing groups, scaled by agreement */
+  confidence: number;
+  /** Share of successful groups that reached the consensus outcome (0-1) */
+  agreement: number;
+  /** Group whose evidence, reasoning and roots the report carries */
+  representative: string;
+  branches: ConsensusBranch[];
+  /** Groups whose outcome differs from the consensus */
+  dissenting: string[];
+  requirement_disagreements: RequirementDisagreement[];
 }
 
+// --- Stability sampling ---
+
+/**
+ * What each sample re-runs. 'reasoning' repeats audit/judge/bundle over the
+ * same collected evidence; 'full' also re-collects. The prompt step always
+ * runs once.
+ */
+export type SampleScope = 'reasoning' | 'full';
+
+export interface StabilitySample {
+  /** 1-based */
+  index: number;
+  outcome?: string;
+  confidence?: number;
+  por_root?: string;
+  error?: string;
+}
+
+export interface StabilitySummary {
+  scope: SampleScope;
+  samples: StabilitySample[];
+  /** Successful samples per outcome */
+  outcome_distribution: Record<string, number>;
+  modal_outcome: string;
+  /** Share of successful samples that reached the modal outcome (0-1) */
+  modal_share: number;
+  /** Mean confidence of the modal samples, scaled by modal_share */
+  confidence: number;
+  /** Mean and variance over all successful samples */
+  confidence_mean: number;
+  confidence_variance: number;
+  /** Minimum modal_share for the result to count as stable */
+  threshold: number;
+  unstable: boolean;
+  /** Sample whose evidence, reasoning and roots the report carries */
+  representative: number;
+}
+
+// --- Query lint ---
+
+/** What a pre-flight check looks for in a question */
+export type LintCheck = 'subject' | 'criterion' | 'deadline';
+
+export interface LintIssue {
+  check: LintCheck;
+  /** Errors mean the question cannot be resolved as written */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** A relative date phrase and the absolute one it was replaced with */
+export interface DateRewrite {
+  original: string;
+  normalized: string;
+}
+
+export interface QueryLint {
+  query: string;
+  /** The query with relative dates made absolute; what the prompt step is sent */
+  normalized_query: string;
+  /** Day relative dates count from, YYYY-MM-DD */
+  reference_date: string;
+  /** The deadline phrase found in the normalized query */
+  deadline?: string;
+  date_rewrites: DateRewrite[];
+  issues: LintIssue[];
+}
+
+/** `warn` reports pre-flight issues and runs anyway; `strict` aborts on errors */
+export type PreflightMode = 'warn' | 'strict';
+
 // --- Pipeline Options ---
 
 export interface PipelineOptions {
@@ -122,4 +371,66 @@ export interface PipelineOptions {
   strict_mode?: boolean;
   collectors?: string[];
   include_raw_content?: boolean;
+  /** Persist step results here and skip steps it already holds */
+  checkpoint?: RunCheckpoint;
+  /** Defaults to 'lenient' */
+  schema_mode?: SchemaMode;
+  /** Receives progress events as the pipeline runs */
+  onEvent?: (event: PipelineEvent) => void;
+  /**
+   * Run collect/audit/judge/bundle once per collector group and aggregate
+   * the verdicts. Overrides `collectors`.
+   */
+  consensus_groups?: string[][];
+  /** Repeat the run this many times and report outcome stability */
+  samples?: number;
+  /** Defaults to 'reasoning' */
+  sample_scope?: SampleScope;
+  /** Defaults to DEFAULT_STABILITY_THRESHOLD */
+  stability_threshold?: number;
+  /** How evidence highlights are selected for the report */
+  report_options?: ReportOptions;
+  /** Cancels the run, including in-flight requests and retry sleeps */
+  signal?: AbortSignal;
+  /** Overall budget for the run, across all steps and retries */
+  total_timeout_ms?: number;
+  /** Lint the query before any gateway call and send the prompt step its normalized form */
+  preflight?: PreflightMode;
+  /** Day relative dates in the query count from (YYYY-MM-DD); defaults to today (UTC) */
+  reference_date?: string;
+  /**
+   * Called with the prompt step's prompt_spec before collecting; returning
+   * false stops the run with a PreflightError
+   */
+  confirm_prompt?: (promptSpec: unknown) => boolean | Promise<boolean>;
 }
+
+// --- Progress Events ---
+
+export type PipelineEvent =
+  | { type: 'step:start'; step: StepName; branch?: string; timestamp: string }
+  | {
+      type: 'step:complete';
+      step: StepName;
+      /** Consensus group or stability sample, for repeated steps */
+      branch?: string;
+      timestamp: string;
+      duration_ms: number;
+      /** The parsed step response */
+      response: unknown;
+      /** True when the result was loaded from a checkpoint instead of the gateway */
+      resumed?: boolean;
+    }
+  | {
+      type: 'retry';
+      step?: StepName;
+      timestamp: string;
+      path: string;
+      attempt: number;
+      backoff_ms: number;
+      status?: number;
+      error: string;
+    }
+  | ({ type: 'cache'; timestamp: string } & CacheLookup)
+  | { type: 'lint'; timestamp: string; lint: QueryLint }
+  | { type: 'error'; step: StepName; branch?: string; timestamp: string; error: string };
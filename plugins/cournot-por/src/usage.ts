@@ -0,0 +1,142 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { sha256Hex } from './canonical.js';
+import { usagePath } from './paths.js';
+
+/**
+ * Local ledger of gateway calls: one JSONL line per HTTP attempt (retries
+ * count, cache hits do not), keyed by a short hash of the access code so
+ * consumption can be summarized per code and day without storing the code.
+ */
+
+/** HTTP status, or how an attempt failed without one */
+export type AttemptStatus = number | 'timeout' | 'network' | 'cancelled';
+
+export interface AttemptRecord {
+  path: string;
+  status: AttemptStatus;
+  duration_ms: number;
+}
+
+export interface UsageEntry extends AttemptRecord {
+  timestamp: string;
+  code_id: string;
+}
+
+export interface UsageRow {
+  /** UTC date, YYYY-MM-DD */
+  day: string;
+  code_id: string;
+  path: string;
+  calls: number;
+  ok: number;
+  rate_limited: number;
+  failed: number;
+  total_ms: number;
+}
+
+/** Identifies an access code in the ledger without revealing it */
+export function codeId(code: string): string {
+  return sha256Hex(`cournot-usage:${code}`).slice(2, 14);
+}
+
+export class UsageLedger {
+  private path: string;
+  private warned = false;
+
+  constructor(path: string = usagePath()) {
+    this.path = path;
+  }
+
+  /** Append one attempt; a ledger failure warns once and never fails the call */
+  async record(code: string, attempt: AttemptRecord): Promise<void> {
+    const entry: UsageEntry = { timestamp: new Date().toISOString(), code_id: codeId(code), ...attempt };
+    try {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, JSON.stringify(entry) + '\n');
+    } catch (err) {
+      if (this.warned) return;
+      this.warned = true;
+      console.error('Warning: could not record usage:', err instanceof Error ? err.message : String(err));
+    }
+  }
+}
+
+/** All recorded attempts, oldest first; unparseable lines are skipped */
+export async function readUsage(path: string = usagePath()): Promise<UsageEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  const entries: UsageEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as UsageEntry);
+    } catch {
+      // Ignore a truncated line from an interrupted write
+    }
+  }
+  return entries;
+}
+
+export interface UsageFilter {
+  /** Earliest UTC day included, YYYY-MM-DD */
+  since?: string;
+  code_id?: string;
+}
+
+/** Totals per day, code and path; newest day first, then by path */
+export function summarizeUsage(entries: UsageEntry[], filter: UsageFilter = {}): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+  for (const entry of entries) {
+    const day = entry.timestamp.slice(0, 10);
+    if (filter.since && day < filter.since) continue;
+    if (filter.code_id && entry.code_id !== filter.code_id) continue;
+
+    const key = `${day}\n${entry.code_id}\n${entry.path}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { day, code_id: entry.code_id, path: entry.path, calls: 0, ok: 0, rate_limited: 0, failed: 0, total_ms: 0 };
+      rows.set(key, row);
+    }
+    row.calls++;
+    row.total_ms += entry.duration_ms;
+    if (typeof entry.status === 'number' && entry.status < 400) row.ok++;
+    else if (entry.status === 429) row.rate_limited++;
+    else row.failed++;
+  }
+  return [...rows.values()].sort((a, b) =>
+    b.day.localeCompare(a.day) || a.code_id.localeCompare(b.code_id) || a.path.localeCompare(b.path));
+}
+
+export function formatUsage(rows: UsageRow[]): string {
+  if (rows.length === 0) return 'No gateway calls recorded.';
+
+  const lines: string[] = [];
+  lines.push(
+    `${'Day'.padEnd(10)}  ${'Code'.padEnd(12)}  ${'Path'.padEnd(14)} ${'Calls'.padStart(6)} ` +
+      `${'OK'.padStart(6)} ${'429'.padStart(5)} ${'Failed'.padStart(6)} ${'Avg'.padStart(7)}`,
+  );
+  const total = { calls: 0, ok: 0, rate_limited: 0, failed: 0, total_ms: 0 };
+  for (const r of rows) {
+    lines.push(
+      `${r.day}  ${r.code_id}  ${r.path.padEnd(14)} ${String(r.calls).padStart(6)} ` +
+        `${String(r.ok).padStart(6)} ${String(r.rate_limited).padStart(5)} ${String(r.failed).padStart(6)} ` +
+        `${`${(r.total_ms / r.calls / 1000).toFixed(1)}s`.padStart(7)}`,
+    );
+    total.calls += r.calls;
+    total.ok += r.ok;
+    total.rate_limited += r.rate_limited;
+    total.failed += r.failed;
+    total.total_ms += r.total_ms;
+  }
+  lines.push(
+    `Total: ${total.calls} calls (${total.ok} ok, ${total.rate_limited} rate limited, ${total.failed} failed), ` +
+      `${(total.total_ms / 1000).toFixed(1)}s in requests`,
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,205 @@
+import { createHash } from 'node:crypto';
+import { canonicalize, sha256Hex } from './canonical.js';
+import { extractData } from './pipeline.js';
+import type { BundleResponse } from './types.js';
+
+/**
+ * Offline verification of PoR bundles.
+ *
+ * Roots are recomputed from the canonical JSON (see `canonicalize`) of the
+ * components stored in `por_bundle`:
+ *
+ * - `prompt_spec_hash` = H(prompt_spec)
+ * - `evidence_root`    = Merkle root over H(bundle) for each evidence bundle
+ * - `reasoning_root`   = Merkle root over H(step) for each reasoning step
+ *                        (a non-array trace is a single leaf)
+ * - `por_root`         = Merkle root over [prompt_spec_hash, evidence_root,
+ *                        reasoning_root, H(verdict)]
+ *
+ * H is SHA-256. Interior nodes hash the concatenated raw bytes of their two
+ * children; an odd node at the end of a level is carried up unchanged, and an
+ * empty tree has root H("").
+ *
+ * This construction is not taken from a published gateway specification. It
+ * is the one the mock gateway uses, and it has not been checked against a
+ * bundle captured from the production gateway. Until such a bundle is added
+ * to the tests as a fixture, a mismatch on a real bundle may mean the gateway
+ * hashes differently rather than that the bundle was altered.
+ */
+
+export type RootName = 'prompt_spec_hash' | 'evidence_root' | 'reasoning_root' | 'por_root';
+
+export type RootStatus = 'match' | 'mismatch' | 'missing';
+
+/** `valid` when every root matches; `mismatch` outranks `incomplete` */
+export type VerificationStatus = 'valid' | 'mismatch' | 'incomplete';
+
+export interface RootCheck {
+  name: RootName;
+  expected?: string;
+  computed?: string;
+  status: RootStatus;
+}
+
+export interface VerificationResult {
+  valid: boolean;
+  status: VerificationStatus;
+  checks: RootCheck[];
+}
+
+const ROOT_NAMES: RootName[] = ['prompt_spec_hash', 'evidence_root', 'reasoning_root', 'por_root'];
+
+function hashValue(value: unknown): string {
+  return sha256Hex(canonicalize(value));
+}
+
+function hexToBytes(hex: string): Buffer {
+  return Buffer.from(hex.replace(/^0x/i, ''), 'hex');
+}
+
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return sha256Hex('');
+
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+        continue;
+      }
+      const hash = createHash('sha256')
+        .update(hexToBytes(level[i]))
+        .update(hexToBytes(level[i + 1]))
+        .digest('hex');
+      next.push('0x' + hash);
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+function normalizeHash(hash: string): string {
+  return hash.toLowerCase().replace(/^0x/, '');
+}
+
+/**
+ * Recompute every root from the bundle contents.
+ * Roots whose inputs are absent from `por_bundle` are omitted.
+ */
+export function computeRoots(porBundle: unknown): Partial<Record<RootName, string>> {
+  if (!porBundle || typeof porBundle !== 'object') return {};
+  const b = porBundle as Record<string, unknown>;
+  const roots: Partial<Record<RootName, string>> = {};
+
+  if ('prompt_spec' in b) {
+    roots.prompt_spec_hash = hashValue(b.prompt_spec);
+  }
+  if (Array.isArray(b.evidence_bundles)) {
+    roots.evidence_root = merkleRoot(b.evidence_bundles.map(hashValue));
+  }
+  if ('reasoning_trace' in b) {
+    const steps = Array.isArray(b.reasoning_trace) ? b.reasoning_trace : [b.reasoning_trace];
+    roots.reasoning_root = merkleRoot(steps.map(hashValue));
+  }
+  if (
+    roots.prompt_spec_hash &&
+    roots.evidence_root &&
+    roots.reasoning_root &&
+    'verdict' in b
+  ) {
+    roots.por_root = merkleRoot([
+      roots.prompt_spec_hash,
+      roots.evidence_root,
+      roots.reasoning_root,
+      hashValue(b.verdict),
+    ]);
+  }
+
+  return roots;
+}
+
+/**
+ * Locate the `/step/bundle` response inside a saved file. Accepts the bundle
+ * response itself (optionally wrapped in `{ data }`) or a full report that
+ * still carries `raw.bundle_response`.
+ */
+function findBundleResponse(input: unknown): Partial<BundleResponse> {
+  const data = extractData(input);
+  if (!data || typeof data !== 'object') {
+    throw new Error('Bundle file does not contain a JSON object');
+  }
+  const d = data as Record<string, unknown>;
+  const raw = d.raw as Record<string, unknown> | undefined;
+  if (raw && typeof raw === 'object' && raw.bundle_response) {
+    return raw.bundle_response as Partial<BundleResponse>;
+  }
+  if (!('por_bundle' in d)) {
+    throw new Error('Bundle file has no por_bundle field');
+  }
+  return d as Partial<BundleResponse>;
+}
+
+/**
+ * Verify a saved PoR bundle by recomputing its roots offline and comparing
+ * them with the roots reported by the gateway.
+ */
+export function verifyBundle(input: unknown): VerificationResult {
+  const response = findBundleResponse(input);
+  const expected: Partial<Record<RootName, string>> = { ...response.roots };
+  if (!expected.por_root && typeof response.por_root === 'string') {
+    expected.por_root = response.por_root;
+  }
+  const computed = computeRoots(response.por_bundle);
+
+  const checks: RootCheck[] = ROOT_NAMES.map(name => {
+    const exp = expected[name];
+    const comp = computed[name];
+    let status: RootStatus;
+    if (!exp || !comp) {
+      status = 'missing';
+    } else {
+      status = normalizeHash(exp) === normalizeHash(comp) ? 'match' : 'mismatch';
+    }
+    return { name, expected: exp, computed: comp, status };
+  });
+
+  // The top-level por_root must agree with the one listed under roots
+  if (
+    response.roots?.por_root &&
+    typeof response.por_root === 'string' &&
+    normalizeHash(response.roots.por_root) !== normalizeHash(response.por_root)
+  ) {
+    const porCheck = checks.find(c => c.name === 'por_root')!;
+    porCheck.status = 'mismatch';
+  }
+
+  let status: VerificationStatus = 'valid';
+  if (checks.some(c => c.status === 'mismatch')) status = 'mismatch';
+  else if (checks.some(c => c.status === 'missing')) status = 'incomplete';
+  return { valid: status === 'valid', status, checks };
+}
+
+export function formatVerification(result: VerificationResult): string {
+  const lines: string[] = [];
+
+  lines.push('# PoR Bundle Verification');
+  lines.push('');
+  const label = { valid: 'VALID', mismatch: 'COULD NOT REPRODUCE', incomplete: 'COULD NOT VERIFY' }[result.status];
+  lines.push(`**Result:** ${label}`);
+  lines.push('');
+  if (result.status === 'mismatch') {
+    // The root construction is unconfirmed against production bundles (see above)
+    lines.push('Recomputed roots differ from the reported ones. This is not proof of tampering:');
+    lines.push('the gateway may compute its roots differently.');
+    lines.push('');
+  }
+  for (const check of result.checks) {
+    const mark = check.status === 'match' ? 'x' : ' ';
+    lines.push(`- [${mark}] **${check.name}:** ${check.status}`);
+    lines.push(`  - expected: \`${check.expected ?? 'n/a'}\``);
+    lines.push(`  - computed: \`${check.computed ?? 'n/a'}\``);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,267 @@
+import { mkdir, readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { canonicalize, sha256Hex } from './canonical.js';
+import { writeJsonAtomic } from './checkpoint.js';
+import { diffReports } from './diff.js';
+import { isStopError } from './errors.js';
+import { dataDir } from './paths.js';
+import type { EvidenceHighlight, PipelineOptions, PorReport } from './types.js';
+
+/** setTimeout's upper bound; longer waits are split */
+const MAX_SLEEP_MS = 2 ** 31 - 1;
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parse a duration such as "45s", "30m", "1h" or "1h30m" into milliseconds.
+ */
+export function parseDuration(value: string): number {
+  const text = value.trim();
+  if (!/^(\d+(\.\d+)?[smhd])+$/.test(text)) {
+    throw new Error(`Invalid duration "${value}"; use e.g. 45s, 30m, 1h or 1h30m`);
+  }
+  const ms = text.match(/\d+(?:\.\d+)?[smhd]/g)!.reduce(
+    (total, part) => total + Number(part.slice(0, -1)) * DURATION_UNITS[part.slice(-1)],
+    0,
+  );
+  if (ms <= 0) {
+    throw new Error(`Invalid duration "${value}"; it must be greater than zero`);
+  }
+  return ms;
+}
+
+/** The previous run, kept so the next one can be compared against it */
+export interface WatchSnapshot {
+  run_at: string;
+  report: Omit<PorReport, 'raw'>;
+}
+
+export interface WatchState {
+  query: string;
+  runs: number;
+  next_run_at: string;
+  /** Deadline carried over restarts when --until is not repeated */
+  until?: string;
+  /** Day relative dates in the query count from, carried over restarts */
+  reference_date?: string;
+  last?: WatchSnapshot;
+  last_error?: string;
+}
+
+export interface WatchAlert {
+  query: string;
+  run_at: string;
+  /** Human-readable reasons, e.g. "outcome changed from YES to NO" */
+  reasons: string[];
+  previous: { run_at: string; outcome: string; confidence: number; por_root: string };
+  current: { outcome: string; confidence: number; por_root: string };
+  evidence_added: EvidenceHighlight[];
+  evidence_removed: EvidenceHighlight[];
+}
+
+export interface WatchOptions {
+  query: string;
+  intervalMs: number;
+  /** Stop once this time is reached */
+  until?: Date;
+  /** Recorded in the state, so a restarted watch can read relative dates the same way */
+  referenceDate?: string;
+  /** Alert when confidence crosses any of these levels (0-1) */
+  thresholds?: number[];
+  statePath: string;
+  /** Run the pipeline once */
+  resolve: () => Promise<PorReport>;
+  onAlert: (alert: WatchAlert) => Promise<void> | void;
+  /** Called after every run with its report or error */
+  onRun?: (state: WatchState, report?: PorReport, error?: Error) => void;
+  /** Stop after this many runs (mainly for tests) */
+  maxRuns?: number;
+  now?: () => number;
+  sleepFn?: (ms: number) => Promise<void>;
+  /** Stops the watch between runs, or abandons the current run */
+  signal?: AbortSignal;
+}
+
+/**
+ * Where a watch keeps its state. Watches of the same query with the same
+ * pipeline options share a file, so a restarted watch picks up where it
+ * stopped. The access code and the reference date (today, unless given) are
+ * left out of the key; the reference date is kept in the state instead.
+ */
+export function watchStatePath(options: PipelineOptions): string {
+  const { code: _code, reference_date: _referenceDate, ...keyed } = options;
+  const key = sha256Hex(canonicalize({ query: options.query, options: keyed })).slice(2, 18);
+  return join(dataDir(), 'watch', `${key}.json`);
+}
+
+export async function loadWatchState(path: string): Promise<WatchState | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as WatchState;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw err;
+  }
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Compare a run against the previous one. Returns undefined when nothing
+ * alert-worthy changed.
+ */
+export function detectChanges(
+  query: string,
+  previous: WatchSnapshot,
+  current: PorReport,
+  runAt: string,
+  thresholds: number[] = [],
+): WatchAlert | undefined {
+  const before = previous.report;
+  const reasons: string[] = [];
+
+  if (before.outcome !== current.outcome) {
+    reasons.push(`outcome changed from ${before.outcome} to ${current.outcome}`);
+  }
+  for (const t of thresholds) {
+    if (before.confidence < t && current.confidence >= t) {
+      reasons.push(
+        `confidence rose to ${percent(t)} or above (${percent(before.confidence)} -> ${percent(current.confidence)})`,
+      );
+    } else if (before.confidence >= t && current.confidence < t) {
+      reasons.push(
+        `confidence fell below ${percent(t)} (${percent(before.confidence)} -> ${percent(current.confidence)})`,
+      );
+    }
+  }
+  if (reasons.length === 0) return undefined;
+
+  const changes = diffReports(before, current);
+  return {
+    query,
+    run_at: runAt,
+    reasons,
+    previous: {
+      run_at: previous.run_at,
+      outcome: before.outcome,
+      confidence: before.confidence,
+      por_root: before.roots.por_root,
+    },
+    current: {
+      outcome: current.outcome,
+      confidence: current.confidence,
+      por_root: current.roots.por_root,
+    },
+    evidence_added: changes.evidence_added,
+    evidence_removed: changes.evidence_removed,
+  };
+}
+
+async function saveState(path: string, state: WatchState): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeJsonAtomic(path, state);
+}
+
+/** Sleep that ends early (without error) when `signal` fires */
+function interruptibleSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Re-resolve a market every `intervalMs` until the deadline, alerting when the
+ * outcome flips or confidence crosses a threshold. State is saved after every
+ * run; a failed run is recorded and retried at the next interval. When
+ * `signal` fires the watch stops, leaving the state of the last finished run.
+ */
+export async function runWatch(options: WatchOptions): Promise<WatchState> {
+  const now = options.now ?? Date.now;
+  const signal = options.signal;
+  const sleep = options.sleepFn ?? (ms => interruptibleSleep(ms, signal));
+
+  const saved = await loadWatchState(options.statePath);
+  const state: WatchState = saved ?? {
+    query: options.query,
+    runs: 0,
+    next_run_at: new Date(now()).toISOString(),
+  };
+  if (options.until) state.until = options.until.toISOString();
+  if (options.referenceDate) state.reference_date = options.referenceDate;
+  const deadline = state.until ? Date.parse(state.until) : Infinity;
+
+  let runsThisSession = 0;
+  while (options.maxRuns === undefined || runsThisSession < options.maxRuns) {
+    const nextRun = Date.parse(state.next_run_at);
+    if (nextRun >= deadline || now() >= deadline) break;
+    while (now() < nextRun && !signal?.aborted) {
+      await sleep(Math.min(nextRun - now(), MAX_SLEEP_MS));
+    }
+    if (signal?.aborted) break;
+
+    const runAt = new Date(now()).toISOString();
+    let report: PorReport | undefined;
+    let error: Error | undefined;
+    try {
+      report = await options.resolve();
+    } catch (err) {
+      if (signal?.aborted && isStopError(err)) break;
+      error = err instanceof Error ? err : new Error(String(err));
+    }
+
+    state.runs += 1;
+    runsThisSession += 1;
+    state.next_run_at = new Date(Date.parse(runAt) + options.intervalMs).toISOString();
+    if (report) {
+      const alert = state.last
+        ? detectChanges(options.query, state.last, report, runAt, options.thresholds)
+        : undefined;
+      // Deliver before saving: after a crash the alert repeats rather than being lost
+      if (alert) await options.onAlert(alert);
+      const { raw: _raw, ...summary } = report;
+      state.last = { run_at: runAt, report: summary };
+      state.last_error = undefined;
+      await saveState(options.statePath, state);
+    } else {
+      state.last_error = error!.message;
+      await saveState(options.statePath, state);
+    }
+    options.onRun?.(state, report, error);
+  }
+
+  return state;
+}
+
+/**
+ * POST an alert as JSON. Failures are reported, never thrown, so a flaky
+ * receiver cannot stop the watch.
+ */
+export async function postWebhook(
+  url: string,
+  alert: WatchAlert,
+  fetchFn: typeof fetch = fetch,
+): Promise<string | undefined> {
+  try {
+    const res = await fetchFn(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(10_000),
+    });
+    return res.ok ? undefined : `Webhook returned ${res.status}`;
+  } catch (err) {
+    return `Webhook failed: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
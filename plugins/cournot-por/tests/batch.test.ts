@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseBatchInput, runBatch, formatBatchSummary } from '../src/batch.js';
+import type { GatewayClientOptions } from '../src/client.js';
+
+const noSleep = async () => {};
+
+function stepResponses(outcome: string): Record<string, unknown> {
+  return {
+    '/step/prompt': { prompt_spec: {}, tool_plan: {} },
+    '/step/collect': { evidence_bundles: [], collectors_used: [], errors: [] },
+    '/step/audit': { reasoning_trace: [], errors: [] },
+    '/step/judge': { verdict: {}, outcome, confidence: 0.75, errors: [] },
+    '/step/bundle': {
+      por_bundle: {},
+      por_root: '0x1',
+      roots: { prompt_spec_hash: '0x2', evidence_root: '0x3', reasoning_root: '0x4', por_root: '0x1' },
+      errors: [],
+    },
+  };
+}
+
+/** Answers YES for every query except ones containing "fail", which get a 400 on prompt. */
+function createMockFetch() {
+  return vi.fn().mockImplementation((_url: string, options: RequestInit) => {
+    const body = JSON.parse(options.body as string);
+    const payload = JSON.parse(body.post_data);
+    if (body.path === '/step/prompt' && String(payload.user_input).includes('fail')) {
+      return Promise.resolve({
+        ok: false,
+        status: 400,
+        text: () => Promise.resolve('Bad query'),
+      });
+    }
+    return Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve(stepResponses('YES')[body.path]),
+    });
+  });
+}
+
+function clientOpts(mockFetch: unknown): GatewayClientOptions {
+  return { fetchFn: mockFetch as typeof fetch, sleepFn: noSleep };
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'cournot-batch-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('parseBatchInput', () => {
+  it('accepts bare strings and objects with overrides', () => {
+    const entries = parseBatchInput(
+      [
+        '"Will it rain?"',
+        '',
+        '# comment',
+        '{"id": "m2", "query": "Will BTC hit 100k?", "strict_mode": true, "collectors": "A,B"}',
+      ].join('\n'),
+    );
+
+    expect(entries).toEqual([
+      { id: 'Will it rain?', query: 'Will it rain?' },
+      {
+        id: 'm2',
+        query: 'Will BTC hit 100k?',
+        strict_mode: true,
+        collectors: ['A', 'B'],
+        include_raw_content: undefined,
+      },
+    ]);
+  });
+
+  it('reports the offending line', () => {
+    expect(() => parseBatchInput('"ok"\n{"id": 1}')).toThrow(
+      'Line 2 of batch input is missing "query"',
+    );
+    expect(() => parseBatchInput('not json')).toThrow('Invalid JSON on line 1');
+  });
+});
+
+describe('runBatch', () => {
+  it('continues past failures and writes one line per market', async () => {
+    const outputPath = join(dir, 'out.jsonl');
+    const entries = parseBatchInput('"q1"\n"q2 fail"\n"q3"');
+
+    const { results, skipped } = await runBatch(entries, {
+      code: 'c',
+      concurrency: 2,
+      outputPath,
+      clientOptions: clientOpts(createMockFetch()),
+    });
+
+    expect(skipped).toEqual([]);
+    expect(results.map(r => [r.id, r.status])).toEqual([
+      ['q1', 'ok'],
+      ['q2 fail', 'error'],
+      ['q3', 'ok'],
+    ]);
+    expect(results[0].report?.outcome).toBe('YES');
+    expect(results[0].report).not.toHaveProperty('raw');
+    expect(results[1].error).toContain('Gateway returned 400');
+
+    const lines = (await readFile(outputPath, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(3);
+  });
+
+  it('applies per-line overrides on top of batch defaults', async () => {
+    const mockFetch = createMockFetch();
+    await runBatch(parseBatchInput('{"query": "q", "collectors": ["X"]}'), {
+      code: 'c',
+      strict_mode: true,
+      collectors: ['Default'],
+      clientOptions: clientOpts(mockFetch),
+    });
+
+    const payloads = mockFetch.mock.calls.map((call: unknown[]) =>
+      JSON.parse(JSON.parse((call[1] as RequestInit).body as string).post_data),
+    );
+    expect(payloads[0].strict_mode).toBe(true);
+    expect(payloads[1].collectors).toEqual(['X']);
+  });
+
+  it('never runs more pipelines than the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const inner = createMockFetch();
+    const mockFetch = vi.fn().mockImplementation(async (url: string, options: RequestInit) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return inner(url, options);
+    });
+
+    const entries = parseBatchInput(['"a"', '"b"', '"c"', '"d"', '"e"'].join('\n'));
+    await runBatch(entries, { code: 'c', concurrency: 2, clientOptions: clientOpts(mockFetch) });
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('stops on cancellation and marks every unfinished market cancelled', async () => {
+    const outputPath = join(dir, 'out.jsonl');
+    const controller = new AbortController();
+    const inner = createMockFetch();
+    const mockFetch = vi.fn().mockImplementation((url: string, options: RequestInit) => {
+      // Interrupt while the second market is in flight
+      if (JSON.parse(options.body as string).path === '/step/prompt' && inner.mock.calls.length === 5) {
+        controller.abort();
+        return Promise.reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      }
+      return inner(url, options);
+    });
+
+    const { results } = await runBatch(parseBatchInput('"q1"\n"q2"\n"q3"'), {
+      code: 'c',
+      concurrency: 1,
+      outputPath,
+      clientOptions: { ...clientOpts(mockFetch), signal: controller.signal },
+    });
+
+    expect(results.map(r => [r.id, r.status])).toEqual([
+      ['q1', 'ok'],
+      ['q2', 'cancelled'],
+      ['q3', 'cancelled'],
+    ]);
+    expect(formatBatchSummary(results)).toContain('1 resolved, 0 failed, 2 cancelled, 0 skipped');
+    const lines = (await readFile(outputPath, 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).id)).toEqual(['q1']);
+  });
+
+  it('skips markets already resolved in the output file', async () => {
+    const outputPath = join(dir, 'out.jsonl');
+    await writeFile(
+      outputPath,
+      JSON.stringify({ id: 'q1', status: 'ok' }) + '\n' +
+        JSON.stringify({ id: 'q2', status: 'error' }) + '\n',
+    );
+    const mockFetch = createMockFetch();
+
+    const { results, skipped } = await runBatch(parseBatchInput('"q1"\n"q2"'), {
+      code: 'c',
+      outputPath,
+      clientOptions: clientOpts(mockFetch),
+    });
+
+    expect(skipped.map(e => e.id)).toEqual(['q1']);
+    expect(results.map(r => r.id)).toEqual(['q2']);
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+  });
+});
+
+describe('formatBatchSummary', () => {
+  it('renders a row per market and totals', () => {
+    const text = formatBatchSummary(
+      [
+        {
+          id: 'q1',
+          query: 'q1',
+          status: 'ok',
+          report: {
+            outcome: 'NO',
+            confidence: 0.4,
+            evidence_highlights: [],
+            reasoning_summary: [],
+            roots: { prompt_spec_hash: '', evidence_root: '', reasoning_root: '', por_root: '' },
+          },
+          started_at: '',
+          finished_at: '',
+        },
+        { id: 'q2', query: 'q2', status: 'error', error: 'boom', started_at: '', finished_at: '' },
+      ],
+      3,
+    );
+
+    expect(text).toContain('| q1 | NO | 40.0% | ok |');
+    expect(text).toContain('| q2 | - | - | error: boom |');
+    expect(text).toContain('1 resolved, 1 failed, 3 skipped');
+  });
+});
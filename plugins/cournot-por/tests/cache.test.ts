@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { mkdtemp, readdir, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ResponseCache } from '../src/cache.js';
+import { GatewayClient } from '../src/client.js';
+import { runPipeline } from '../src/pipeline.js';
+import { describeCache } from '../src/diagnostics.js';
+import { toReportJson } from '../src/formatters.js';
+import { REPORT_JSON_SCHEMA } from '../src/report-schema.js';
+import { startMockGateway, type MockGateway } from '../src/mock-server.js';
+import type { CacheLookup } from '../src/types.js';
+
+const noSleep = async () => {};
+const HOUR = 3_600_000;
+
+let gateway: MockGateway | undefined;
+
+afterEach(async () => {
+  await gateway?.close();
+  gateway = undefined;
+});
+
+function tempDir(): Promise<string> {
+  return mkdtemp(join(tmpdir(), 'cournot-cache-'));
+}
+
+function okFetch(data: unknown) {
+  return vi.fn().mockImplementation(() => Promise.resolve({ ok: true, json: () => Promise.resolve(data) }));
+}
+
+describe('ResponseCache', () => {
+  it('serves stored responses until their path TTL passes', async () => {
+    let now = 1_000_000;
+    const cache = new ResponseCache({ dir: await tempDir(), now: () => now });
+    const payload = { user_input: 'Q', strict_mode: false };
+
+    await cache.set('/step/prompt', 'POST', payload, { data: { ok: 1 } });
+    now += HOUR;
+    expect(await cache.get('/step/prompt', 'POST', { strict_mode: false, user_input: 'Q' }))
+      .toEqual({ response: { data: { ok: 1 } }, age_ms: HOUR });
+
+    await cache.set('/step/collect', 'POST', payload, { data: { ok: 2 } });
+    now += HOUR;
+    expect(await cache.get('/step/collect', 'POST', payload)).toBeUndefined();
+    expect(await cache.get('/step/prompt', 'POST', { user_input: 'other' })).toBeUndefined();
+  });
+
+  it('skips responses that report step errors and paths with a zero TTL', async () => {
+    const dir = await tempDir();
+    const cache = new ResponseCache({ dir, ttls: { '/step/judge': 0 } });
+
+    await cache.set('/step/audit', 'POST', {}, { data: { reasoning_trace: [], errors: ['boom'] } });
+    await cache.set('/step/judge', 'POST', {}, { data: { errors: [] } });
+    await cache.set('/unknown', 'POST', {}, { data: {} });
+    expect(await readdir(dir).catch(() => [])).toEqual([]);
+  });
+});
+
+describe('GatewayClient with a cache', () => {
+  it('shares entries across access codes and never stores the code', async () => {
+    const dir = await tempDir();
+    const lookups: CacheLookup[] = [];
+    const fetchFn = okFetch({ data: { collectors: ['A'], providers: [] } });
+    const options = { fetchFn, sleepFn: noSleep, cache: new ResponseCache({ dir }), onCache: (l: CacheLookup) => lookups.push(l) };
+
+    await new GatewayClient('first-secret', options).call('/capabilities', 'GET', {});
+    const second = await new GatewayClient('second-secret', options).call('/capabilities', 'GET', {});
+
+    expect(second).toEqual({ data: { collectors: ['A'], providers: [] } });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(lookups.map(l => l.status)).toEqual(['miss', 'hit']);
+    const [file] = await readdir(dir);
+    const stored = await readFile(join(dir, file), 'utf8');
+    expect(stored).not.toContain('secret');
+  });
+
+  it('refetches and replaces entries for refreshed paths', async () => {
+    const dir = await tempDir();
+    const lookups: CacheLookup[] = [];
+    const fetchFn = okFetch({ data: { collectors: [], providers: [] } });
+
+    await new GatewayClient('c', { fetchFn, cache: new ResponseCache({ dir }) }).call('/capabilities', 'GET', {});
+    await new GatewayClient('c', {
+      fetchFn,
+      cache: new ResponseCache({ dir, refresh: ['/capabilities'] }),
+      onCache: l => lookups.push(l),
+    }).call('/capabilities', 'GET', {});
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(lookups).toEqual([{ path: '/capabilities', status: 'refresh' }]);
+  });
+});
+
+describe('runPipeline with a cache', () => {
+  it('serves a repeated run from the cache and reports the lookups', async () => {
+    gateway = await startMockGateway();
+    const dir = await tempDir();
+    const clientOptions = { gatewayUrl: gateway.url, sleepFn: noSleep, cache: new ResponseCache({ dir }) };
+
+    const first = await runPipeline({ query: 'Will it rain?', code: 'x' }, clientOptions);
+    const second = await runPipeline({ query: 'Will it rain?', code: 'x' }, clientOptions);
+
+    expect(gateway.requests).toHaveLength(5);
+    expect(first.diagnostics?.cache?.map(l => l.status)).toEqual(Array(5).fill('miss'));
+    expect(second.diagnostics?.cache?.map(l => `${l.step} ${l.status}`)).toEqual([
+      'prompt hit',
+      'collect hit',
+      'audit hit',
+      'judge hit',
+      'bundle hit',
+    ]);
+    expect(second.roots).toEqual(first.roots);
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    expect(validate(toReportJson(second))).toBe(true);
+  });
+
+  it('honours --refresh-step and leaves diagnostics alone without a cache', async () => {
+    gateway = await startMockGateway();
+    const dir = await tempDir();
+    await runPipeline({ query: 'Q', code: 'x' }, { gatewayUrl: gateway.url, cache: new ResponseCache({ dir }) });
+
+    const refreshed = await runPipeline(
+      { query: 'Q', code: 'x' },
+      { gatewayUrl: gateway.url, cache: new ResponseCache({ dir, refresh: ['/step/collect'] }) },
+    );
+    expect(describeCache(refreshed.diagnostics!.cache!)).toMatch(
+      /^prompt hit \(\d+s old\), collect refreshed, audit hit \(\d+s old\), judge hit/,
+    );
+    expect(gateway.requests.slice(5).map(r => r.path)).toEqual(['/step/collect']);
+
+    const uncached = await runPipeline({ query: 'Q', code: 'x' }, { gatewayUrl: gateway.url });
+    expect(uncached.diagnostics?.cache).toBeUndefined();
+  });
+
+  it('does not serve repeated samples from the cache', async () => {
+    gateway = await startMockGateway();
+    const cache = new ResponseCache({ dir: await tempDir() });
+    await runPipeline({ query: 'Q', code: 'x' }, { gatewayUrl: gateway.url, cache });
+
+    await runPipeline({ query: 'Q', code: 'x', samples: 3 }, { gatewayUrl: gateway.url, cache });
+    const sampled = gateway.requests.slice(5).map(r => r.path);
+    expect(sampled.filter(p => p === '/step/audit')).toHaveLength(3);
+    expect(sampled.filter(p => p === '/step/judge')).toHaveLength(3);
+    expect(sampled).not.toContain('/step/prompt');
+    expect(sampled).not.toContain('/step/collect');
+  });
+});
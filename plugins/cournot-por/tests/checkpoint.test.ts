@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RunCheckpoint, resolveRunInputs, writeJsonAtomic } from '../src/checkpoint.js';
+import { runPipeline } from '../src/pipeline.js';
+import type { GatewayClientOptions } from '../src/client.js';
+
+const noSleep = async () => {};
+
+const RESPONSES: Record<string, unknown> = {
+  '/step/prompt': { prompt_spec: { id: 'spec-1' }, tool_plan: {} },
+  '/step/collect': { evidence_bundles: [], collectors_used: [], errors: [] },
+  '/step/audit': { reasoning_trace: [], errors: [] },
+  '/step/judge': { verdict: {}, outcome: 'YES', confidence: 0.9, errors: [] },
+  '/step/bundle': {
+    por_bundle: {},
+    por_root: '0x1',
+    roots: { prompt_spec_hash: '0x2', evidence_root: '0x3', reasoning_root: '0x4', por_root: '0x1' },
+    errors: [],
+  },
+};
+
+function createMockFetch(failPath?: string) {
+  return vi.fn().mockImplementation((_url: string, options: RequestInit) => {
+    const path = JSON.parse(options.body as string).path as string;
+    if (path === failPath) {
+      return Promise.resolve({
+        ok: false,
+        status: 400,
+        text: () => Promise.resolve('Bad Request'),
+      });
+    }
+    return Promise.resolve({ ok: true, json: () => Promise.resolve(RESPONSES[path]) });
+  });
+}
+
+function calledPaths(mockFetch: ReturnType<typeof vi.fn>): string[] {
+  return mockFetch.mock.calls.map(
+    (call: unknown[]) => JSON.parse((call[1] as RequestInit).body as string).path,
+  );
+}
+
+function clientOpts(mockFetch: unknown): GatewayClientOptions {
+  return { fetchFn: mockFetch as typeof fetch, sleepFn: noSleep };
+}
+
+let baseDir: string;
+
+beforeEach(async () => {
+  baseDir = await mkdtemp(join(tmpdir(), 'cournot-runs-'));
+});
+
+afterEach(async () => {
+  await rm(baseDir, { recursive: true, force: true });
+});
+
+describe('RunCheckpoint', () => {
+  const inputs = resolveRunInputs({ query: 'Will it rain?', code: 'c' });
+
+  it('applies pipeline defaults to run inputs', () => {
+    expect(inputs).toEqual({
+      query: 'Will it rain?',
+      strict_mode: false,
+      collectors: ['CollectorGeminiGrounded'],
+      include_raw_content: false,
+    });
+  });
+
+  it('round-trips saved step results', async () => {
+    const checkpoint = await RunCheckpoint.create(baseDir, inputs, 'run-1');
+    expect(await checkpoint.load('prompt')).toBeUndefined();
+    expect(await checkpoint.hasSavedSteps()).toBe(false);
+
+    await checkpoint.save('prompt', { prompt_spec: { id: 'x' } });
+    expect(await checkpoint.hasSavedSteps()).toBe(true);
+    const resumed = await RunCheckpoint.resume(baseDir, 'run-1', inputs);
+    expect(await resumed.load('prompt')).toEqual({ prompt_spec: { id: 'x' } });
+    expect((await readdir(checkpoint.dir)).sort()).toEqual(['prompt.json', 'run.json']);
+  });
+
+  it('refuses to resume when inputs changed', async () => {
+    await RunCheckpoint.create(baseDir, inputs, 'run-1');
+    const changed = { ...inputs, strict_mode: true, collectors: ['Other'] };
+
+    await expect(RunCheckpoint.resume(baseDir, 'run-1', changed)).rejects.toThrow(
+      'inputs differ from the original run (strict_mode, collectors)',
+    );
+  });
+
+  it('refuses to resume an unknown run', async () => {
+    await expect(RunCheckpoint.resume(baseDir, 'missing', inputs)).rejects.toThrow(
+      'No resumable run found with id missing',
+    );
+  });
+});
+
+describe('runPipeline with a checkpoint', () => {
+  it('resumes from the first missing step', async () => {
+    const options = { query: 'Will it rain?', code: 'c' };
+    const checkpoint = await RunCheckpoint.create(baseDir, resolveRunInputs(options));
+
+    const failingFetch = createMockFetch('/step/judge');
+    await expect(
+      runPipeline({ ...options, checkpoint }, clientOpts(failingFetch)),
+    ).rejects.toThrow('Gateway returned 400');
+    expect(calledPaths(failingFetch)).toEqual([
+      '/step/prompt',
+      '/step/collect',
+      '/step/audit',
+      '/step/judge',
+    ]);
+
+    const resumed = await RunCheckpoint.resume(baseDir, checkpoint.runId, resolveRunInputs(options));
+    const mockFetch = createMockFetch();
+    const report = await runPipeline({ ...options, checkpoint: resumed }, clientOpts(mockFetch));
+
+    expect(calledPaths(mockFetch)).toEqual(['/step/judge', '/step/bundle']);
+    expect(report.outcome).toBe('YES');
+    expect(report.raw?.prompt_response.prompt_spec).toEqual({ id: 'spec-1' });
+  });
+});
+
+describe('writeJsonAtomic', () => {
+  it('lets concurrent writes to one path all land without leaving temp files', async () => {
+    const path = join(baseDir, 'state.json');
+    await Promise.all([1, 2, 3, 4].map(n => writeJsonAtomic(path, { n })));
+    expect(await readdir(baseDir)).toEqual(['state.json']);
+  });
+});
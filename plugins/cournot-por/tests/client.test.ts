@@ -1,5 +1,23 @@
 import { describe, it, expect, vi } from 'vitest';
-import { GatewayClient, buildEnvelope, redactCode, GATEWAY_URL } from '../src/client.js';
+import {
+  GatewayClient,
+  buildEnvelope,
+  redactCode,
+  parseRetryAfter,
+  backoffDelay,
+  GATEWAY_URL,
+} from '../src/client.js';
+import {
+  AuthError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  CancelledError,
+  DeadlineError,
+  EXIT_CODES,
+  exitCodeFor,
+  describeErrorContext,
+} from '../src/errors.js';
 
 const noSleep = async () => {};
 
@@ -202,3 +220,257 @@ describe('GatewayClient', () => {
     }
   });
 });
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('parses HTTP dates relative to now', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30_000);
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially up to the cap', () => {
+    expect(backoffDelay(1, 1000, 10_000, 0)).toBe(2000);
+    expect(backoffDelay(2, 1000, 10_000, 0)).toBe(4000);
+    expect(backoffDelay(5, 1000, 10_000, 0)).toBe(10_000);
+  });
+
+  it('randomizes the jitter fraction of the delay', () => {
+    expect(backoffDelay(1, 1000, 10_000, 0.5, () => 0)).toBe(1000);
+    expect(backoffDelay(1, 1000, 10_000, 0.5, () => 1)).toBe(2000);
+  });
+});
+
+describe('GatewayClient configuration', () => {
+  it('posts to a custom gateway URL', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({}),
+    });
+    const client = new GatewayClient('code', {
+      ...mockOpts(mockFetch),
+      gatewayUrl: 'http://127.0.0.1:8787/',
+    });
+    await client.call('/step/prompt', 'POST', {});
+    expect(mockFetch.mock.calls[0][0]).toBe('http://127.0.0.1:8787/');
+  });
+
+  it('respects maxRetries', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 503,
+      text: () => Promise.resolve('Unavailable'),
+    });
+    const client = new GatewayClient('code', { ...mockOpts(mockFetch), maxRetries: 5 });
+
+    await expect(client.call('/step/prompt', 'POST', {})).rejects.toThrow('Gateway returned 503');
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+  });
+
+  it('waits for Retry-After on 429 instead of the backoff', async () => {
+    const sleeps: number[] = [];
+    let callCount = 0;
+    const mockFetch = vi.fn().mockImplementation(() => {
+      callCount++;
+      if (callCount === 1) {
+        return Promise.resolve(
+          new Response('Slow down', { status: 429, headers: { 'Retry-After': '7' } }),
+        );
+      }
+      return Promise.resolve(new Response('{"ok": true}', { status: 200 }));
+    });
+    const client = new GatewayClient('code', {
+      fetchFn: mockFetch as typeof fetch,
+      sleepFn: async ms => { sleeps.push(ms); },
+    });
+
+    await client.call('/step/prompt', 'POST', {});
+    expect(sleeps).toEqual([7000]);
+  });
+
+  it('applies jittered backoff between retries', async () => {
+    const sleeps: number[] = [];
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 500,
+      text: () => Promise.resolve('Server Error'),
+    });
+    const client = new GatewayClient('code', {
+      fetchFn: mockFetch as typeof fetch,
+      sleepFn: async ms => { sleeps.push(ms); },
+      randomFn: () => 0.5,
+      backoffJitter: 0.5,
+    });
+
+    await expect(client.call('/step/prompt', 'POST', {})).rejects.toThrow();
+    expect(sleeps).toEqual([1500, 3000]);
+  });
+
+  it('rejects timeouts and retries from the environment the CLI flags would reject', () => {
+    const cases: [string, string, string][] = [
+      ['COURNOT_TIMEOUT', '0', 'COURNOT_TIMEOUT must be a positive number'],
+      ['COURNOT_TIMEOUT', '-5', 'COURNOT_TIMEOUT must be a positive number'],
+      ['COURNOT_RETRIES', '2.5', 'COURNOT_RETRIES must be a positive integer'],
+      ['COURNOT_RETRIES', 'many', 'COURNOT_RETRIES must be a positive integer'],
+    ];
+    for (const [name, value, message] of cases) {
+      vi.stubEnv(name, value);
+      expect(() => new GatewayClient('code')).toThrow(message);
+      vi.unstubAllEnvs();
+    }
+
+    vi.stubEnv('COURNOT_TIMEOUT', '2.5');
+    vi.stubEnv('COURNOT_RETRIES', '4');
+    expect(() => new GatewayClient('code')).not.toThrow();
+    vi.unstubAllEnvs();
+  });
+
+  it('uses per-step timeout overrides', async () => {
+    const mockFetch = vi.fn().mockImplementation((_url: string, options: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        options.signal!.addEventListener('abort', () => {
+          const err = new Error('The operation was aborted');
+          err.name = 'AbortError';
+          reject(err);
+        });
+      }),
+    );
+    const client = new GatewayClient('code', {
+      ...mockOpts(mockFetch),
+      maxRetries: 1,
+      timeoutMs: 60_000,
+      stepTimeouts: { '/step/prompt': 5 },
+    });
+
+    await expect(client.call('/step/prompt', 'POST', {})).rejects.toThrow(
+      'Network error calling /step/prompt',
+    );
+  });
+});
+
+describe('typed errors', () => {
+  function failing(status: number, headers: Record<string, string> = {}) {
+    return vi.fn().mockResolvedValue({
+      ok: false,
+      status,
+      headers: new Headers(headers),
+      text: () => Promise.resolve('nope'),
+    });
+  }
+
+  it('does not retry auth failures', async () => {
+    const mockFetch = failing(401);
+    const client = new GatewayClient('code', mockOpts(mockFetch));
+
+    const err = await client.call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(err).toBeInstanceOf(AuthError);
+    expect(err).toMatchObject({ status: 401, path: '/step/prompt', attempts: 1, retryable: false });
+    expect(exitCodeFor(err)).toBe(EXIT_CODES.auth);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports rate limiting and server errors after the last attempt', async () => {
+    const limited = new GatewayClient('code', mockOpts(failing(429, { 'Retry-After': '2' })));
+    const rateErr = await limited.call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(rateErr).toBeInstanceOf(RateLimitError);
+    expect(rateErr).toMatchObject({ attempts: 3, retryAfterMs: 2000, retryable: true });
+    expect(describeErrorContext(rateErr)).toBe('3 attempts');
+
+    const broken = new GatewayClient('code', { ...mockOpts(failing(502)), maxRetries: 2 });
+    const serverErr = await broken.call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(serverErr).toBeInstanceOf(ServerError);
+    expect(serverErr.exitCode).toBe(EXIT_CODES.server);
+    expect(serverErr.attempts).toBe(2);
+  });
+
+  it('distinguishes timeouts from other network errors', async () => {
+    const hanging = vi.fn().mockImplementation((_url: string, options: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        options.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }),
+    );
+    const slow = new GatewayClient('code', { ...mockOpts(hanging), maxRetries: 1, timeoutMs: 5 });
+    const timeoutErr = await slow.call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(timeoutErr).toBeInstanceOf(TimeoutError);
+    expect(timeoutErr.exitCode).toBe(EXIT_CODES.timeout);
+
+    const refused = vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const offline = new GatewayClient('code', { ...mockOpts(refused), maxRetries: 1 });
+    const networkErr = await offline.call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(networkErr).toBeInstanceOf(ServerError);
+    expect(networkErr.status).toBeUndefined();
+  });
+});
+
+describe('cancellation and deadlines', () => {
+  function hangingFetch() {
+    return vi.fn().mockImplementation((_url: string, options: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        options.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }),
+    );
+  }
+
+  it('aborts an in-flight request when the signal fires', async () => {
+    const controller = new AbortController();
+    const client = new GatewayClient('code', { ...mockOpts(hangingFetch()), signal: controller.signal });
+
+    const pending = client.call('/step/collect', 'POST', {}).catch(e => e);
+    controller.abort();
+    const err = await pending;
+    expect(err).toBeInstanceOf(CancelledError);
+    expect(err.message).toBe('Cancelled while calling /step/collect');
+    expect(err.exitCode).toBe(EXIT_CODES.cancelled);
+  });
+
+  it('cuts a backoff sleep short when cancelled', async () => {
+    const controller = new AbortController();
+    const mockFetch = vi.fn().mockResolvedValue({ ok: false, status: 503, text: () => Promise.resolve('') });
+    const client = new GatewayClient('code', {
+      fetchFn: mockFetch as typeof fetch,
+      sleepFn: () => new Promise(() => {}),
+      onRetry: () => controller.abort(),
+      signal: controller.signal,
+    });
+
+    await expect(client.call('/step/prompt', 'POST', {})).rejects.toBeInstanceOf(CancelledError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start a retry the deadline would not allow', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({ ok: false, status: 503, text: () => Promise.resolve('busy') });
+    const client = new GatewayClient('code', {
+      ...mockOpts(mockFetch),
+      backoffBaseMs: 60_000,
+      backoffMaxMs: 60_000,
+      deadline: Date.now() + 30_000,
+    });
+
+    const err = await client.call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(err).toBeInstanceOf(DeadlineError);
+    expect(err.message).toContain('Deadline exceeded before retrying /step/prompt (last error: Gateway returned 503');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts a request that runs past the deadline', async () => {
+    const client = new GatewayClient('code', {
+      ...mockOpts(hangingFetch()),
+      timeoutMs: 60_000,
+      deadline: Date.now() + 20,
+    });
+
+    const err = await client.call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(err).toBeInstanceOf(DeadlineError);
+    expect(err.exitCode).toBe(EXIT_CODES.timeout);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeConsensus, describeDisagreements, describeAgreement } from '../src/consensus.js';
+import { AuthError, BranchesFailedError, EXIT_CODES, ServerError, exitCodeFor } from '../src/errors.js';
+import type { ConsensusBranch } from '../src/types.js';
+
+function branch(group: string, outcome: string, confidence: number, extra: Partial<ConsensusBranch> = {}): ConsensusBranch {
+  return { group, collectors: group.split('+'), outcome, confidence, ...extra };
+}
+
+describe('summarizeConsensus', () => {
+  it('picks the majority outcome and scales confidence by agreement', () => {
+    const summary = summarizeConsensus([
+      branch('A', 'YES', 0.9),
+      branch('B', 'YES', 0.7),
+      branch('C', 'NO', 0.95),
+    ]);
+
+    expect(summary.outcome).toBe('YES');
+    expect(summary.agreement).toBeCloseTo(2 / 3);
+    expect(summary.confidence).toBeCloseTo(0.8 * (2 / 3));
+    expect(summary.representative).toBe('A');
+    expect(summary.dissenting).toEqual(['C']);
+    expect(describeAgreement(summary)).toBe('2/3 groups (66.7%)');
+  });
+
+  it('breaks ties on summed confidence', () => {
+    const summary = summarizeConsensus([branch('A', 'YES', 0.6), branch('B', 'NO', 0.8)]);
+    expect(summary.outcome).toBe('NO');
+    expect(summary.agreement).toBe(0.5);
+  });
+
+  it('ignores failed groups but keeps them in the branch list', () => {
+    const summary = summarizeConsensus([
+      branch('A', 'YES', 0.9),
+      { group: 'B', collectors: ['B'], error: 'Gateway returned 500 for /step/collect' },
+    ]);
+
+    expect(summary.agreement).toBe(1);
+    expect(summary.branches).toHaveLength(2);
+    expect(describeAgreement(summary)).toBe('1/1 groups (100.0%)');
+  });
+
+  it('throws when every group failed', () => {
+    expect(() =>
+      summarizeConsensus([
+        { group: 'A', collectors: ['A'], error: 'timeout' },
+        { group: 'B', collectors: ['B'], error: 'boom' },
+      ]),
+    ).toThrow('All collector groups failed:\n  - A: timeout\n  - B: boom');
+  });
+
+  it('keeps the exit code every group failed with, and falls back when they differ', () => {
+    const failed = [
+      { group: 'A', collectors: ['A'], error: 'expired' },
+      { group: 'B', collectors: ['B'], error: 'expired' },
+    ];
+    const caught = (causes: unknown[]) => {
+      try {
+        summarizeConsensus(failed, causes);
+      } catch (err) {
+        return err;
+      }
+      throw new Error('expected summarizeConsensus to throw');
+    };
+
+    const shared = caught([new AuthError('expired', { step: 'collect' }), new AuthError('expired', { step: 'collect' })]);
+    expect(shared).toBeInstanceOf(BranchesFailedError);
+    expect(exitCodeFor(shared)).toBe(EXIT_CODES.auth);
+    expect((shared as BranchesFailedError).step).toBe('collect');
+    expect((shared as BranchesFailedError).cause).toBeInstanceOf(AuthError);
+
+    const mixed = caught([new AuthError('expired'), new ServerError('down')]);
+    expect(exitCodeFor(mixed)).toBe(EXIT_CODES.failure);
+    expect((mixed as BranchesFailedError).causes).toHaveLength(2);
+  });
+
+  it('reports requirements the groups disagree on', () => {
+    const summary = summarizeConsensus([
+      branch('A', 'YES', 0.9, { requirements_fulfilled: ['Official source', 'Recent data'] }),
+      branch('B', 'NO', 0.5, {
+        requirements_fulfilled: ['Recent data'],
+        requirements_unfulfilled: ['Official source'],
+      }),
+    ]);
+
+    expect(summary.requirement_disagreements).toEqual([
+      { requirement: 'Official source', met_by: ['A'], unmet_by: ['B'] },
+    ]);
+    expect(describeDisagreements(summary)).toEqual([
+      'B reached NO (50.0%) against the consensus YES',
+      'Requirement "Official source": met according to A; not met according to B',
+    ]);
+  });
+});
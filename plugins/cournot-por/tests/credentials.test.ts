@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmod, mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  resolveAccessCode,
+  readCredentialsFile,
+  saveCredentials,
+  deleteCredentials,
+  credentialsPath,
+} from '../src/credentials.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'cournot-creds-'));
+  file = join(dir, 'cournot', 'credentials');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('credentialsPath', () => {
+  it('prefers COURNOT_CREDENTIALS_FILE, then XDG_CONFIG_HOME', () => {
+    expect(credentialsPath({ COURNOT_CREDENTIALS_FILE: '/x/creds' })).toBe('/x/creds');
+    expect(credentialsPath({ XDG_CONFIG_HOME: '/cfg' })).toBe('/cfg/cournot/credentials');
+  });
+});
+
+describe('credentials file', () => {
+  it('saves with owner-only permissions and reads back', async () => {
+    await saveCredentials('secret42\n', file);
+
+    expect((await stat(file)).mode & 0o777).toBe(0o600);
+    expect(await readCredentialsFile(file)).toBe('secret42');
+  });
+
+  it('refuses files readable by others', async () => {
+    await saveCredentials('secret42', file);
+    await chmod(file, 0o644);
+
+    await expect(readCredentialsFile(file)).rejects.toThrow('too open');
+  });
+
+  it('returns undefined when no file exists', async () => {
+    expect(await readCredentialsFile(file)).toBeUndefined();
+  });
+
+  it('deletes the stored code', async () => {
+    await saveCredentials('secret42', file);
+    expect(await deleteCredentials(file)).toBe(true);
+    expect(await deleteCredentials(file)).toBe(false);
+  });
+});
+
+describe('resolveAccessCode', () => {
+  it('prefers stdin, then argv, then env, then file', async () => {
+    await saveCredentials('from-file', file);
+    const env = { COURNOT_CODE: 'from-env' };
+    const readStdin = async () => 'from-stdin\n';
+
+    expect(await resolveAccessCode({ readStdin, argv: 'from-argv', env, filePath: file })).toEqual({
+      code: 'from-stdin',
+      source: 'stdin',
+    });
+    expect(await resolveAccessCode({ argv: 'from-argv', env, filePath: file })).toEqual({
+      code: 'from-argv',
+      source: 'argv',
+    });
+    expect(await resolveAccessCode({ env, filePath: file })).toEqual({
+      code: 'from-env',
+      source: 'env',
+    });
+    expect(await resolveAccessCode({ env: {}, filePath: file })).toEqual({
+      code: 'from-file',
+      source: 'file',
+    });
+  });
+
+  it('returns undefined when nothing is configured', async () => {
+    expect(await resolveAccessCode({ env: {}, filePath: file })).toBeUndefined();
+  });
+
+  it('rejects empty stdin', async () => {
+    await expect(resolveAccessCode({ readStdin: async () => '  \n' })).rejects.toThrow(
+      'stdin was empty',
+    );
+  });
+});
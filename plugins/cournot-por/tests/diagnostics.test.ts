@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { collectDiagnostics, describeCollectors, describeEntry, hasStepErrors } from '../src/diagnostics.js';
+import { buildReport, formatReport } from '../src/report.js';
+import { collectResponseSchema } from '../src/schemas.js';
+import type { CollectResponse } from '../src/types.js';
+
+const PROMPT = { prompt_spec: {}, tool_plan: {} };
+const AUDIT = { reasoning_trace: [], errors: [] };
+const JUDGE = { verdict: {}, outcome: 'YES', confidence: 0.7, errors: ['Low evidence coverage'] };
+const BUNDLE = {
+  por_bundle: {},
+  por_root: '0xroot',
+  roots: { prompt_spec_hash: '0xp', evidence_root: '0xe', reasoning_root: '0xr', por_root: '0xroot' },
+  errors: [],
+};
+
+const COLLECT: CollectResponse = {
+  evidence_bundles: [],
+  collectors_used: ['CollectorA'],
+  execution_logs: [
+    'search started',
+    { collector: 'CollectorA', level: 'info', message: 'fetched 3 pages' },
+  ],
+  errors: [
+    { collector: 'CollectorB', message: 'quota exceeded' } as unknown as string,
+    { code: 7 } as unknown as string,
+  ],
+};
+
+describe('describeEntry', () => {
+  it('renders strings, message objects and anything else', () => {
+    expect(describeEntry('plain')).toBe('plain');
+    expect(describeEntry({ source: 'web', severity: 'warn', msg: 'slow' })).toBe('[web] warn: slow');
+    expect(describeEntry({ code: 7 })).toBe('{"code":7}');
+  });
+});
+
+describe('collectDiagnostics', () => {
+  it('lists step errors, missing collectors and collector logs', () => {
+    const d = collectDiagnostics(
+      { prompt: PROMPT, collect: COLLECT, audit: AUDIT, judge: JUDGE, bundle: BUNDLE },
+      ['CollectorA', 'CollectorB'],
+    );
+
+    expect(d.errors).toEqual([
+      { step: 'collect', message: '[CollectorB] quota exceeded' },
+      { step: 'collect', message: '{"code":7}' },
+      { step: 'judge', message: 'Low evidence coverage' },
+    ]);
+    expect(d.collectors_missing).toEqual(['CollectorB']);
+    expect(d.execution_logs).toEqual(['search started', '[CollectorA] info: fetched 3 pages']);
+    expect(hasStepErrors(d)).toBe(true);
+    expect(describeCollectors(d)).toBe(
+      'CollectorA ran (requested: CollectorA, CollectorB; did not run: CollectorB)',
+    );
+  });
+
+  it('reports a clean run as such', () => {
+    const clean = { ...COLLECT, errors: [], execution_logs: undefined };
+    const d = collectDiagnostics(
+      { prompt: PROMPT, collect: clean, audit: AUDIT, judge: { ...JUDGE, errors: [] }, bundle: BUNDLE },
+    );
+    expect(hasStepErrors(d)).toBe(false);
+    expect(d.collectors_missing).toEqual([]);
+    expect(describeCollectors(d)).toBe('CollectorA ran');
+  });
+
+  it('calls no collector missing when the collect step does not report which ran', () => {
+    const { collectors_used: _used, ...unreported } = COLLECT;
+    const collect = { ...collectResponseSchema.parse(unreported), collectors_reported: false };
+    const d = collectDiagnostics(
+      { prompt: PROMPT, collect, audit: AUDIT, judge: JUDGE, bundle: BUNDLE },
+      ['CollectorA', 'CollectorB'],
+    );
+
+    expect(collect.collectors_used).toEqual([]);
+    expect(d.collectors_reported).toBe(false);
+    expect(d.collectors_missing).toEqual([]);
+    expect(describeCollectors(d)).toBe(
+      'The collect step did not report which collectors ran (requested: CollectorA, CollectorB)',
+    );
+  });
+});
+
+describe('diagnostics in reports', () => {
+  it('adds a Diagnostics section to the markdown report', () => {
+    const report = buildReport(PROMPT, COLLECT, AUDIT, JUDGE, BUNDLE, {
+      requested_collectors: ['CollectorA', 'CollectorB'],
+    });
+    const text = formatReport(report);
+
+    expect(text).toContain('## Diagnostics');
+    expect(text).toContain('did not run: CollectorB');
+    expect(text).toContain('- collect: [CollectorB] quota exceeded');
+    expect(text).toContain('- judge: Low evidence coverage');
+    expect(text).toContain('**Collector logs:**\n- search started');
+  });
+});
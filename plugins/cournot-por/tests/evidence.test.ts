@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canonicalUrl,
+  domainOf,
+  selectEvidence,
+  describeEvidenceCounts,
+} from '../src/evidence.js';
+import type { EvidenceBundle } from '../src/types.js';
+
+describe('canonicalUrl', () => {
+  it('ignores scheme, www, fragments, tracking params, param order and trailing slashes', () => {
+    const key = canonicalUrl('https://www.Example.com/news/?b=2&a=1#top');
+    expect(canonicalUrl('http://example.com/news?a=1&b=2&utm_source=x&fbclid=y')).toBe(key);
+    expect(canonicalUrl('https://example.com/news?a=1')).not.toBe(key);
+  });
+
+  it('rejects non-http URLs', () => {
+    expect(canonicalUrl('javascript:alert(1)')).toBeUndefined();
+    expect(canonicalUrl('not a url')).toBeUndefined();
+  });
+
+  it('extracts the domain without www', () => {
+    expect(domainOf('https://www.sec.gov/news')).toBe('sec.gov');
+  });
+});
+
+describe('selectEvidence', () => {
+  const bundles: EvidenceBundle[] = [
+    {
+      collector: 'CollectorA',
+      items: [
+        { title: 'Blog post', source_url: 'https://blog.example/post', snippet: 'Rates held steady' },
+        { title: 'Fed statement', source_url: 'https://www.federalreserve.gov/release', snippet: 'The FOMC decided to maintain the target range', retrieved_at: '2026-10-19T12:00:00Z' },
+        { title: 'Forum', source_url: 'https://forum.example/t/1', snippet: 'Someone said rates went up' },
+      ],
+    },
+    {
+      collector: 'CollectorB',
+      items: [
+        { title: 'Fed statement (copy)', source_url: 'http://federalreserve.gov/release/?utm_campaign=x', snippet: 'Different text' },
+        { title: 'Wire story', source_url: 'https://news.example/wire', snippet: 'The FOMC decided to maintain the target range.' },
+        { title: 'CME data', source_url: 'https://www.cmegroup.com/fedwatch', snippet: 'Futures imply no change' },
+      ],
+    },
+  ];
+
+  it('deduplicates by canonical URL and near-identical snippet, keeping provenance', () => {
+    const { highlights, counts } = selectEvidence(bundles);
+
+    expect(highlights.map(h => h.title)).toEqual(['Blog post', 'Fed statement', 'Forum', 'CME data']);
+    expect(highlights[1]).toMatchObject({
+      domain: 'federalreserve.gov',
+      collector: 'CollectorA',
+      retrieved_at: '2026-10-19T12:00:00Z',
+    });
+    expect(counts).toEqual({ collected: 6, duplicates: 2, excluded: 0, shown: 4 });
+  });
+
+  it('ranks by the priority list and applies deny and allow lists', () => {
+    const ranked = selectEvidence(bundles, { priority: ['gov', 'cmegroup.com'], deny: ['forum.example'] });
+    expect(ranked.highlights.map(h => h.title)).toEqual(['Fed statement', 'CME data', 'Blog post']);
+    expect(ranked.counts.excluded).toBe(1);
+
+    const allowed = selectEvidence(bundles, { allow: ['gov'] });
+    expect(allowed.highlights.map(h => h.title)).toEqual(['Fed statement']);
+  });
+
+  it('reports how many items were left out by the limit', () => {
+    const { counts } = selectEvidence(bundles, {}, 2);
+    expect(counts.shown).toBe(2);
+    expect(describeEvidenceCounts(counts)).toBe('Showing 2 of 4 evidence items (2 duplicates merged)');
+  });
+});
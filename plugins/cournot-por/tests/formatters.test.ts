@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { buildReport } from '../src/report.js';
+import {
+  getFormatter,
+  listFormats,
+  registerFormatter,
+  toReportJson,
+  formatResultsCsv,
+} from '../src/formatters.js';
+import { REPORT_JSON_SCHEMA, REPORT_SCHEMA_VERSION } from '../src/report-schema.js';
+import type { BatchResult } from '../src/batch.js';
+import type { PorReport } from '../src/types.js';
+
+function makeReport(): PorReport {
+  return buildReport(
+    { prompt_spec: {}, tool_plan: {} },
+    {
+      evidence_bundles: [
+        {
+          items: [
+            { title: 'Article <A>', source_url: 'https://a.com/?x=1&y=2', snippet: 'Says "yes"' },
+            { title: 'Local file', source_url: 'javascript:alert(1)' },
+          ],
+        },
+      ],
+      collectors_used: [],
+      errors: [],
+    },
+    { reasoning_trace: [{ description: 'Step one' }], errors: [] },
+    {
+      verdict: {
+        resolution_rule_id: 'RULE-1',
+        requirements: [
+          { description: 'Met one', fulfilled: true },
+          { description: 'Missed one', fulfilled: false },
+        ],
+      },
+      outcome: 'YES',
+      confidence: 0.8,
+      errors: [],
+    },
+    {
+      por_bundle: {},
+      por_root: '0xroot',
+      roots: { prompt_spec_hash: '0xp', evidence_root: '0xe', reasoning_root: '0xr', por_root: '0xroot' },
+      errors: [],
+    },
+  );
+}
+
+describe('formatter registry', () => {
+  it('registers the built-in formats', () => {
+    expect(listFormats()).toEqual(
+      expect.arrayContaining(['markdown', 'text', 'html', 'json', 'csv']),
+    );
+  });
+
+  it('accepts custom formatters', () => {
+    registerFormatter('outcome-only', report => report.outcome);
+    expect(getFormatter('outcome-only')(makeReport())).toBe('YES');
+  });
+
+  it('rejects unknown formats with the available list', () => {
+    expect(() => getFormatter('pdf')).toThrow('Unknown format "pdf". Available: markdown');
+  });
+});
+
+describe('json format', () => {
+  it('conforms to the published JSON Schema', () => {
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    const doc = JSON.parse(getFormatter('json')(makeReport()));
+
+    expect(validate(doc)).toBe(true);
+    expect(doc.schema_version).toBe(REPORT_SCHEMA_VERSION);
+    expect(doc).not.toHaveProperty('raw');
+  });
+
+  it('validates consensus reports', () => {
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    const report: PorReport = {
+      ...makeReport(),
+      consensus: {
+        outcome: 'YES',
+        confidence: 0.4,
+        agreement: 0.5,
+        representative: 'A',
+        branches: [
+          { group: 'A', collectors: ['A'], outcome: 'YES', confidence: 0.8, evidence_count: 2, por_root: '0xroot' },
+          { group: 'B', collectors: ['B'], outcome: 'NO', confidence: 0.6 },
+        ],
+        dissenting: ['B'],
+        requirement_disagreements: [],
+      },
+    };
+
+    expect(validate(toReportJson(report))).toBe(true);
+    expect(getFormatter('markdown')(report)).toContain('B reached NO (60.0%) against the consensus YES');
+  });
+
+  it('validates reports with stability samples', () => {
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    const report: PorReport = {
+      ...makeReport(),
+      stability: {
+        scope: 'reasoning',
+        samples: [
+          { index: 1, outcome: 'YES', confidence: 0.8, por_root: '0xroot' },
+          { index: 2, error: 'Gateway returned 500' },
+        ],
+        outcome_distribution: { YES: 1 },
+        modal_outcome: 'YES',
+        modal_share: 1,
+        confidence: 0.8,
+        confidence_mean: 0.8,
+        confidence_variance: 0,
+        threshold: 0.8,
+        unstable: false,
+        representative: 1,
+      },
+    };
+
+    expect(validate(toReportJson(report))).toBe(true);
+    expect(getFormatter('markdown')(report)).toContain('**Outcomes:** YES 1');
+  });
+
+  it('validates full-detail reports', () => {
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    const report: PorReport = {
+      ...makeReport(),
+      reasoning_steps: [
+        { step_id: 's1', description: 'Step one', evidence_refs: ['e1'], metadata: { weight: 0.4 } },
+      ],
+    };
+
+    expect(validate(toReportJson(report))).toBe(true);
+    expect(getFormatter('text')(report)).toContain('  1. Step one\n     [id s1 · uses e1]\n     weight: 0.4');
+    expect(getFormatter('html')(report)).toContain('<li>Step one<div class="meta">id s1 · uses e1</div>');
+  });
+
+  it('validates reports from earlier 1.x versions', () => {
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    const doc = {
+      ...toReportJson(makeReport()),
+      $schema: 'https://github.com/Solbotxf/cournot-skills/schemas/por-report.v1.json',
+      schema_version: '1.0',
+    };
+
+    expect(validate(doc)).toBe(true);
+    expect(validate({ ...doc, schema_version: '2.0' })).toBe(false);
+  });
+
+  it('matches the schema committed at its $id path', () => {
+    const committed = readFileSync(new URL('../schemas/por-report.v1.json', import.meta.url), 'utf8');
+    expect(JSON.parse(committed)).toEqual(REPORT_JSON_SCHEMA);
+    expect(REPORT_JSON_SCHEMA.$id).toMatch(/\/plugins\/cournot-por\/schemas\/por-report\.v1\.json$/);
+  });
+
+  it('fails validation for documents that drift from the schema', () => {
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    const doc = { ...toReportJson(makeReport()), confidence: 'high' };
+    expect(validate(doc)).toBe(false);
+  });
+});
+
+describe('html format', () => {
+  it('produces a self-contained page with collapsible sections', () => {
+    const html = getFormatter('html')(makeReport());
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<script|<link /);
+    expect(html).toContain('<summary>Evidence (2)</summary>');
+    expect(html).toContain('<summary>Reasoning (1 steps)</summary>');
+  });
+
+  it('escapes content and only links http(s) URLs', () => {
+    const html = getFormatter('html')(makeReport());
+
+    expect(html).toContain('Article &lt;A&gt;');
+    expect(html).toContain('href="https://a.com/?x=1&amp;y=2"');
+    expect(html).toContain('Says &quot;yes&quot;');
+    expect(html).not.toContain('href="javascript:');
+  });
+});
+
+describe('text format', () => {
+  it('renders without markdown syntax', () => {
+    const text = getFormatter('text')(makeReport());
+    expect(text).toContain('Outcome:    YES');
+    expect(text).toContain('[not met] Missed one');
+    expect(text).not.toContain('**');
+  });
+});
+
+describe('csv format', () => {
+  it('renders a header and one row for a report', () => {
+    const [header, row] = getFormatter('csv')(makeReport()).split('\n');
+    expect(header).toBe(
+      'id,query,status,outcome,confidence,resolution_rule_id,requirements_fulfilled,requirements_unfulfilled,evidence_count,por_root,error',
+    );
+    expect(row).toBe(',,ok,YES,0.8,RULE-1,Met one,Missed one,2,0xroot,');
+  });
+
+  it('flattens batch results, quoting and neutralizing formulas', () => {
+    const { raw: _raw, ...report } = makeReport();
+    const results: BatchResult[] = [
+      { id: 'm1', query: 'Will A, B happen?', status: 'ok', report, started_at: '', finished_at: '' },
+      { id: 'm2', query: '=HYPERLINK("x")', status: 'error', error: 'boom', started_at: '', finished_at: '' },
+    ];
+
+    const lines = formatResultsCsv(results).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toBe('m1,"Will A, B happen?",ok,YES,0.8,RULE-1,Met one,Missed one,2,0xroot,');
+    expect(lines[2]).toBe('m2,"\'=HYPERLINK(""x"")",error,,,,,,,,boom');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  appendHistory,
+  readHistory,
+  recordHistory,
+  findHistoryEntry,
+  searchHistory,
+  formatHistoryList,
+  historyOptions,
+  type HistoryEntry,
+} from '../src/history.js';
+import { diffHistoryEntries, formatDiff } from '../src/diff.js';
+import type { PorReport } from '../src/types.js';
+
+function makeReport(overrides: Partial<PorReport> = {}): PorReport {
+  return {
+    outcome: 'YES',
+    confidence: 0.7,
+    evidence_highlights: [
+      { title: 'Exchange data', source_url: 'https://a.example' },
+      { title: 'News', source_url: 'https://b.example' },
+    ],
+    requirements_fulfilled: ['Price above 100k'],
+    requirements_unfulfilled: ['Sustained for 24h'],
+    reasoning_summary: [],
+    roots: { prompt_spec_hash: '0xp', evidence_root: '0xe1', reasoning_root: '0xr1', por_root: '0x1' },
+    ...overrides,
+  };
+}
+
+function makeEntry(id: string, query: string, report: PorReport = makeReport()): HistoryEntry {
+  return {
+    id,
+    query,
+    options: {},
+    started_at: '2026-10-19T12:00:00.000Z',
+    finished_at: '2026-10-19T12:01:00.000Z',
+    outcome: report.outcome,
+    confidence: report.confidence,
+    roots: report.roots,
+    report,
+  };
+}
+
+describe('history store', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cournot-history-'));
+    path = join(dir, 'nested', 'history.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends entries and reads them back in order', async () => {
+    expect(await readHistory(path)).toEqual([]);
+
+    await appendHistory(makeEntry('run-a', 'Will BTC hit 100k?'), path);
+    await appendHistory(makeEntry('run-b', 'Will ETH flip BTC?'), path);
+    // Interrupted write
+    await appendFile(path, '{"id": "run-c", "que');
+
+    const entries = await readHistory(path);
+    expect(entries.map(e => e.id)).toEqual(['run-a', 'run-b']);
+    expect(entries[0].report.evidence_highlights).toHaveLength(2);
+  });
+
+  it('records a resumed run that already finished only once', async () => {
+    const report = makeReport();
+    await recordHistory('run-a', { query: 'Will BTC hit 100k?', code: 'c' }, '2026-10-19T12:00:00.000Z', report, path);
+    await recordHistory('run-a', { query: 'Will BTC hit 100k?', code: 'c' }, '2026-10-19T13:00:00.000Z', report, path);
+
+    const entries = await readHistory(path);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].started_at).toBe('2026-10-19T12:00:00.000Z');
+  });
+
+  it('never records the access code', () => {
+    const options = historyOptions({ query: 'q', code: 'secret', strict_mode: true });
+    expect(JSON.stringify(options)).not.toContain('secret');
+    expect(options.strict_mode).toBe(true);
+  });
+});
+
+describe('history lookup', () => {
+  const entries = [
+    makeEntry('20261018T090000-aaaaaa', 'Will BTC hit 100k by December?'),
+    makeEntry('20261019T090000-bbbbbb', 'Will the Fed cut rates?'),
+    makeEntry('20261019T100000-cccccc', 'Will BTC hit 100k by December?'),
+  ];
+
+  it('finds entries by id or unique prefix', () => {
+    expect(findHistoryEntry(entries, '20261018').id).toBe('20261018T090000-aaaaaa');
+    expect(() => findHistoryEntry(entries, '20261019')).toThrow(/ambiguous/);
+    expect(() => findHistoryEntry(entries, 'nope')).toThrow('No resolution found with id nope');
+  });
+
+  it('resolves an id recorded twice to its newest entry', () => {
+    const older = makeEntry('20261020T090000-dddddd', 'Will it rain?', makeReport({ outcome: 'NO' }));
+    const newer = makeEntry('20261020T090000-dddddd', 'Will it rain?', makeReport({ outcome: 'YES' }));
+
+    expect(findHistoryEntry([older, newer], '20261020T090000-dddddd').outcome).toBe('YES');
+    expect(findHistoryEntry([older, newer], '20261020').outcome).toBe('YES');
+  });
+
+  it('searches queries by every word, case-insensitively', () => {
+    expect(searchHistory(entries, 'btc DECEMBER').map(e => e.id)).toEqual([
+      '20261018T090000-aaaaaa',
+      '20261019T100000-cccccc',
+    ]);
+    expect(searchHistory(entries, 'btc fed')).toEqual([]);
+  });
+
+  it('lists newest first', () => {
+    const lines = formatHistoryList(entries).split('\n');
+    expect(lines[1]).toMatch(/^20261019T100000-cccccc/);
+    expect(formatHistoryList([])).toBe('No resolutions recorded.');
+  });
+});
+
+describe('diffHistoryEntries', () => {
+  it('reports outcome, evidence, requirement and root changes', () => {
+    const before = makeEntry('run-a', 'Will BTC hit 100k?');
+    const after = makeEntry('run-b', 'Will BTC hit 100k?', makeReport({
+      outcome: 'NO',
+      confidence: 0.55,
+      evidence_highlights: [
+        { title: 'Exchange data', source_url: 'https://a.example' },
+        { title: 'Analyst note', source_url: 'https://c.example' },
+      ],
+      requirements_fulfilled: [],
+      requirements_unfulfilled: ['Price above 100k', 'Sustained for 24h'],
+      roots: { prompt_spec_hash: '0xp', evidence_root: '0xe2', reasoning_root: '0xr2', por_root: '0x2' },
+    }));
+
+    const diff = diffHistoryEntries(before, after);
+
+    expect(diff.outcome).toEqual({ before: 'YES', after: 'NO' });
+    expect(diff.confidence.delta).toBeCloseTo(-0.15);
+    expect(diff.evidence_added).toEqual([{ title: 'Analyst note', source_url: 'https://c.example' }]);
+    expect(diff.evidence_removed).toEqual([{ title: 'News', source_url: 'https://b.example' }]);
+    expect(diff.requirement_changes).toEqual([
+      { requirement: 'Price above 100k', before: 'met', after: 'not met' },
+    ]);
+    expect(diff.roots_changed.map(r => r.root)).toEqual(['evidence_root', 'reasoning_root', 'por_root']);
+
+    const text = formatDiff(diff);
+    expect(text).toContain('Outcome:    YES -> NO');
+    expect(text).toContain('Confidence: 70.0% -> 55.0% (-15.0 pts)');
+    expect(text).toContain('  + Analyst note (https://c.example)');
+  });
+
+  it('reports identical runs as unchanged', () => {
+    const entry = makeEntry('run-a', 'q');
+    const diff = diffHistoryEntries(entry, { ...entry, id: 'run-b' });
+
+    expect(diff.outcome).toBeUndefined();
+    expect(diff.roots_changed).toEqual([]);
+    expect(formatDiff(diff)).toContain('Outcome:    unchanged');
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { formatPromptSpec, lintQuery, normalizeQueryDates, parseReferenceDate } from '../src/lint.js';
+import { runPipeline } from '../src/pipeline.js';
+import { PreflightError } from '../src/errors.js';
+import { toReportJson } from '../src/formatters.js';
+import { REPORT_JSON_SCHEMA } from '../src/report-schema.js';
+import { startMockGateway, type MockGateway } from '../src/mock-server.js';
+import type { PipelineEvent } from '../src/types.js';
+
+// A Monday
+const REF = '2026-10-19';
+
+let gateway: MockGateway | undefined;
+
+afterEach(async () => {
+  await gateway?.close();
+  gateway = undefined;
+});
+
+function normalized(query: string): string {
+  return normalizeQueryDates(query, parseReferenceDate(REF)).query;
+}
+
+describe('normalizeQueryDates', () => {
+  it('rewrites relative days and weekdays against the reference date', () => {
+    expect(normalized('Will BTC close above $70k by Saturday?')).toBe('Will BTC close above $70k by 2026-10-24?');
+    expect(normalized('Will it snow in Oslo tomorrow?')).toBe('Will it snow in Oslo on 2026-10-20?');
+    expect(normalized('Will the Fed cut rates on Monday?')).toBe('Will the Fed cut rates on 2026-10-19?');
+    expect(normalized('Will the Fed cut rates next Monday?')).toBe('Will the Fed cut rates on 2026-10-26?');
+  });
+
+  it('rewrites periods, offsets and dates without a year', () => {
+    expect(normalized('Will Tesla ship by the end of the month?')).toBe('Will Tesla ship by 2026-10-31?');
+    expect(normalized('Will Apple launch it next week?')).toBe('Will Apple launch it in the week of 2026-10-26?');
+    expect(normalized('Will ETH hit $5k this year?')).toBe('Will ETH hit $5k in 2026?');
+    expect(normalized('Will SpaceX launch within 2 weeks?')).toBe('Will SpaceX launch by 2026-11-02?');
+    expect(normalized('Will the S&P 500 close above 6000 by March 31?')).toBe(
+      'Will the S&P 500 close above 6000 by 2027-03-31?',
+    );
+    expect(normalized('Will Nvidia report in May?')).toBe('Will Nvidia report in May 2027?');
+  });
+
+  it('rewrites counted periods ahead, in digits or words', () => {
+    expect(normalized('Will BTC hit $100k in the next 30 days?')).toBe('Will BTC hit $100k by 2026-11-18?');
+    expect(normalized('Will Apple announce a buyback over the next two weeks?')).toBe(
+      'Will Apple announce a buyback by 2026-11-02?',
+    );
+    expect(normalized('Will the ECB cut rates in the coming 3 months?')).toBe('Will the ECB cut rates by 2027-01-19?');
+    expect(normalized('Will Tesla ship the Roadster in a year?')).toBe('Will Tesla ship the Roadster by 2027-10-19?');
+    expect(normalized('Will ETH close above $5k a week from today?')).toBe('Will ETH close above $5k 2026-10-26?');
+  });
+
+  it('reads lowercase "march" and "may" as verbs, not months', () => {
+    for (const query of [
+      'Will protesters march 10 miles in Paris by 2026-12-31?',
+      'Will over 10 march in Paris by 2026-12-31?',
+      'Will the bill that may 12 senators block pass by 2026-12-31?',
+    ]) {
+      expect(normalized(query)).toBe(query);
+      expect(lintQuery(query, REF).deadline).toBe('2026-12-31');
+    }
+    expect(normalized('Will it snow in Oslo on March 10?')).toBe('Will it snow in Oslo on 2027-03-10?');
+  });
+
+  it('leaves absolute dates alone', () => {
+    const query = 'Will Bitcoin reach 100k by Dec 31, 2026 or 2027-06-30?';
+    expect(normalizeQueryDates(query, parseReferenceDate(REF))).toEqual({ query, rewrites: [] });
+  });
+});
+
+describe('lintQuery', () => {
+  it('flags a vague question without a deadline', () => {
+    const lint = lintQuery('Will BTC go up?', REF);
+    expect(lint.issues.map(i => `${i.check} ${i.severity}`)).toEqual(['criterion warning', 'deadline error']);
+    expect(lint.deadline).toBeUndefined();
+  });
+
+  it('passes a resolvable question and records its date rewrites', () => {
+    const lint = lintQuery('Will BTC close above $70,000 by Saturday?', REF);
+    expect(lint).toEqual({
+      query: 'Will BTC close above $70,000 by Saturday?',
+      normalized_query: 'Will BTC close above $70,000 by 2026-10-24?',
+      reference_date: REF,
+      deadline: '2026-10-24',
+      date_rewrites: [{ original: 'by Saturday', normalized: 'by 2026-10-24' }],
+      issues: [],
+    });
+  });
+
+  it('warns about unclear subjects and criteria', () => {
+    expect(lintQuery('Will prices rise in 2027?', REF).issues.map(i => i.message)).toEqual([
+      'Unclear subject "prices": name the asset, person, organization or event.',
+      '"rise" is not measurable: give a threshold and a source, e.g. "close above $70,000 on Coinbase".',
+    ]);
+    expect(lintQuery('Will the weather be nice in Q3 2027?', REF).issues.map(i => i.check)).toEqual([
+      'subject',
+      'criterion',
+    ]);
+    expect(lintQuery('Will Taylor Swift win a Grammy in 2027?', REF).issues).toEqual([]);
+  });
+
+  it('passes counted relative periods and only warns about vague ones', () => {
+    expect(lintQuery('Will BTC close above $70,000 in the next 7 days?', REF)).toMatchObject({
+      deadline: '2026-10-26',
+      issues: [],
+    });
+    for (const query of [
+      'Will BTC close above $70,000 in the coming weeks?',
+      'Will BTC close above $70,000 in the next few days?',
+      'Will BTC close above $70,000 soon?',
+    ]) {
+      const lint = lintQuery(query, REF);
+      expect(lint.deadline).toBeUndefined();
+      expect(lint.issues.map(i => `${i.check} ${i.severity}`)).toEqual(['deadline warning']);
+    }
+    expect(lintQuery('Will BTC close above $70,000 soon?', REF).issues[0].message).toContain('"soon" is not a date');
+  });
+
+  it('only warns when a bare year is the sole deadline', () => {
+    const lint = lintQuery('Will Trump win the 2028 presidential election?', REF);
+    expect(lint.issues).toEqual([
+      {
+        check: 'deadline',
+        severity: 'warning',
+        message: 'Only a year (2028) bounds the question: give the date it resolves by, e.g. "by 2028-12-31".',
+      },
+    ]);
+    expect(lintQuery('Will the S&P 500 close above $2050?', REF).issues.map(i => `${i.check} ${i.severity}`)).toEqual([
+      'deadline error',
+    ]);
+  });
+
+  it('rejects malformed reference dates', () => {
+    expect(() => lintQuery('Q', '2026-02-30')).toThrow('Invalid reference date "2026-02-30"');
+  });
+});
+
+describe('formatPromptSpec', () => {
+  it('shows the interpretation fields first, then the rest', () => {
+    const text = formatPromptSpec({
+      question: 'Will BTC close above $70,000 on 2026-10-24?',
+      deadline: '2026-10-24T23:59:59Z',
+      resolution_rules: [{ rule_id: 'R1', description: 'Coinbase daily close' }],
+      source: 'coinbase',
+    });
+    expect(text.split('\n')).toEqual([
+      'Interpretation (prompt_spec):',
+      '  Question: Will BTC close above $70,000 on 2026-10-24?',
+      '  Deadline: 2026-10-24T23:59:59Z',
+      '  Resolution rules:',
+      '    - R1: Coinbase daily close',
+      '  source: coinbase',
+    ]);
+  });
+});
+
+describe('runPipeline with a pre-flight', () => {
+  it('aborts strict runs with lint errors before any gateway call', async () => {
+    gateway = await startMockGateway();
+    const events: PipelineEvent[] = [];
+    const err = await runPipeline(
+      { query: 'Will BTC go up?', code: 'x', preflight: 'strict', reference_date: REF, onEvent: e => events.push(e) },
+      { gatewayUrl: gateway.url },
+    ).catch(e => e);
+
+    expect(err).toBeInstanceOf(PreflightError);
+    expect(err.exitCode).toBe(9);
+    expect(err.issues.map((i: { check: string }) => i.check)).toEqual(['deadline']);
+    expect(gateway.requests).toHaveLength(0);
+    expect(events.map(e => e.type)).toEqual(['lint']);
+  });
+
+  it('sends the normalized query and reports the lint in diagnostics', async () => {
+    gateway = await startMockGateway();
+    const report = await runPipeline(
+      { query: 'Will BTC go up by Friday?', code: 'x', preflight: 'warn', reference_date: REF },
+      { gatewayUrl: gateway.url },
+    );
+
+    expect(JSON.parse(gateway.requests[0].post_data).user_input).toBe('Will BTC go up by 2026-10-23?');
+    expect(report.diagnostics?.preflight?.issues.map(i => i.check)).toEqual(['criterion']);
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    expect(validate(toReportJson(report))).toBe(true);
+  });
+
+  it('stops after the prompt step when the interpretation is not confirmed', async () => {
+    gateway = await startMockGateway();
+    const seen: unknown[] = [];
+    const err = await runPipeline(
+      {
+        query: 'Will BTC close above $70,000 on 2026-10-24?',
+        code: 'x',
+        confirm_prompt: spec => {
+          seen.push(spec);
+          return false;
+        },
+      },
+      { gatewayUrl: gateway.url },
+    ).catch(e => e);
+
+    expect(err).toBeInstanceOf(PreflightError);
+    expect(err.step).toBe('prompt');
+    expect(seen).toEqual([expect.objectContaining({ query: 'Will BTC close above $70,000 on 2026-10-24?' })]);
+    expect(gateway.requests.map(r => r.path)).toEqual(['/step/prompt']);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { PassThrough } from 'node:stream';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { createMcpServer, serveStdio, type JsonRpcMessage } from '../src/mcp-server.js';
+import { startMockGateway, type MockGateway } from '../src/mock-server.js';
+import { REPORT_JSON_SCHEMA } from '../src/report-schema.js';
+
+const noSleep = async () => {};
+
+let mock: MockGateway | undefined;
+
+afterEach(async () => {
+  await mock?.close();
+  mock = undefined;
+});
+
+async function serverWithGateway(code = 'secret-code') {
+  mock = await startMockGateway();
+  const notifications: JsonRpcMessage[] = [];
+  const server = createMcpServer({
+    getCode: async () => code || undefined,
+    clientOptions: { gatewayUrl: mock.url, sleepFn: noSleep },
+    notify: message => notifications.push(message),
+    recordHistory: false,
+  });
+  return { server, notifications, gateway: mock };
+}
+
+function callTool(name: string, args: Record<string, unknown>, meta?: Record<string, unknown>) {
+  return {
+    jsonrpc: '2.0',
+    id: 7,
+    method: 'tools/call',
+    params: { name, arguments: args, ...(meta ? { _meta: meta } : {}) },
+  };
+}
+
+interface ToolResult {
+  content: { type: string; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+describe('MCP server', () => {
+  it('negotiates the protocol version on initialize', async () => {
+    const { server } = await serverWithGateway();
+    const response = await server.handle({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test' } },
+    });
+    expect(response?.result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'cournot-por' },
+    });
+  });
+
+  it('lists tools with input schemas and no access code argument', async () => {
+    const { server } = await serverWithGateway();
+    const response = await server.handle({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const tools = (response?.result as { tools: { name: string; inputSchema: { properties: object } }[] }).tools;
+
+    expect(tools.map(t => t.name)).toEqual([
+      'por_resolve',
+      'por_capabilities',
+      'por_step_prompt',
+      'por_step_collect',
+      'por_step_audit',
+      'por_step_judge',
+      'por_step_bundle',
+      'por_lint',
+      'por_verify',
+    ]);
+    for (const tool of tools) {
+      expect(Object.keys(tool.inputSchema.properties)).not.toContain('code');
+    }
+  });
+
+  it('resolves a query with structured content matching the report schema', async () => {
+    const { server, notifications, gateway } = await serverWithGateway();
+    const response = await server.handle(
+      callTool('por_resolve', { query: 'Will it rain?', collectors: ['A'] }, { progressToken: 'tok' }),
+    );
+    const result = response?.result as ToolResult;
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('YES');
+    expect(result.structuredContent?.outcome).toBe('YES');
+    const validate = new Ajv2020({ strict: false }).compile(REPORT_JSON_SCHEMA);
+    expect(validate(result.structuredContent)).toBe(true);
+
+    expect(gateway.requests).toHaveLength(5);
+    expect(notifications.map(n => (n.params as { progress: number }).progress)).toEqual([1, 2, 3, 4, 5]);
+    // The code reaches the gateway but never the tool result
+    expect(JSON.stringify(result)).not.toContain('secret-code');
+  });
+
+  it('rejects unknown arguments as a tool error', async () => {
+    const { server, gateway } = await serverWithGateway();
+    const response = await server.handle(callTool('por_resolve', { query: 'Q', code: 'leak' }));
+    const result = response?.result as ToolResult;
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('kind: schema');
+    expect(gateway.requests).toHaveLength(0);
+  });
+
+  it('reports a missing access code without calling the gateway', async () => {
+    const { server, gateway } = await serverWithGateway('');
+    const response = await server.handle(callTool('por_capabilities', {}));
+    const result = response?.result as ToolResult;
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('cournot-por login');
+    expect(result.content[0].text).toContain('kind: auth');
+    expect(gateway.requests).toHaveLength(0);
+  });
+
+  it('runs single steps and verifies the resulting bundle', async () => {
+    const { server } = await serverWithGateway();
+    const step = async (name: string, args: Record<string, unknown>) =>
+      ((await server.handle(callTool(`por_step_${name}`, args)))?.result as ToolResult).structuredContent!;
+
+    const prompt = await step('prompt', { user_input: 'Will it rain?' });
+    const collect = await step('collect', { prompt_spec: prompt.prompt_spec, tool_plan: prompt.tool_plan });
+    const audit = await step('audit', { prompt_spec: prompt.prompt_spec, evidence_bundles: collect.evidence_bundles });
+    const judge = await step('judge', {
+      prompt_spec: prompt.prompt_spec,
+      evidence_bundles: collect.evidence_bundles,
+      reasoning_trace: audit.reasoning_trace,
+    });
+    const bundle = await step('bundle', {
+      prompt_spec: prompt.prompt_spec,
+      evidence_bundles: collect.evidence_bundles,
+      reasoning_trace: audit.reasoning_trace,
+      verdict: judge.verdict,
+    });
+
+    const response = await server.handle(callTool('por_verify', { bundle }));
+    const result = response?.result as ToolResult;
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent?.valid).toBe(true);
+  });
+
+  it('answers protocol errors for unknown methods and tools', async () => {
+    const { server } = await serverWithGateway();
+    const method = await server.handle({ jsonrpc: '2.0', id: 3, method: 'resources/list' });
+    expect(method?.error?.code).toBe(-32601);
+
+    const tool = await server.handle(callTool('por_nope', {}));
+    expect(tool?.error?.code).toBe(-32602);
+
+    expect(await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+  });
+
+  it('speaks newline-delimited JSON-RPC over stdio', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const done = serveStdio({ getCode: async () => 'x' }, input, output);
+
+    input.write('not json\n');
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }) + '\n');
+    input.end();
+    await done;
+
+    const lines = output.read().toString().trim().split('\n').map((l: string) => JSON.parse(l));
+    expect(lines).toEqual([
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+      { jsonrpc: '2.0', id: 1, result: {} },
+    ]);
+  });
+});
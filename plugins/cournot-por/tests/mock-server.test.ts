@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { connect } from 'node:net';
+import { startMockGateway, type MockGateway, type MockServerConfig } from '../src/mock-server.js';
+import { runPipeline, getCapabilities } from '../src/pipeline.js';
+import { GatewayClient } from '../src/client.js';
+import { verifyBundle } from '../src/verify.js';
+import { ServerError } from '../src/errors.js';
+
+const noSleep = async () => {};
+
+let mock: MockGateway | undefined;
+
+async function start(config?: MockServerConfig): Promise<MockGateway> {
+  mock = await startMockGateway(config);
+  return mock;
+}
+
+afterEach(async () => {
+  await mock?.close();
+  mock = undefined;
+});
+
+describe('mock gateway', () => {
+  it('runs the full pipeline end-to-end over HTTP', async () => {
+    const gateway = await start();
+
+    const report = await runPipeline(
+      { query: 'Will it rain?', code: 'any', collectors: ['A', 'B'] },
+      { gatewayUrl: gateway.url, sleepFn: noSleep },
+    );
+
+    expect(gateway.requests.map(r => r.path)).toEqual([
+      '/step/prompt',
+      '/step/collect',
+      '/step/audit',
+      '/step/judge',
+      '/step/bundle',
+    ]);
+    expect(report.outcome).toBe('YES');
+    expect(report.evidence_highlights.map(h => h.title)).toEqual([
+      'Mock evidence from A',
+      'Mock evidence from B',
+    ]);
+    expect(verifyBundle(report.raw!.bundle_response).valid).toBe(true);
+  });
+
+  it('serves capabilities', async () => {
+    const gateway = await start();
+    const result = await getCapabilities('any', { gatewayUrl: gateway.url });
+    expect(result).toEqual({
+      collectors: ['CollectorGeminiGrounded', 'CollectorMock'],
+      providers: ['MockProvider'],
+    });
+  });
+
+  it('uses canned response overrides', async () => {
+    const gateway = await start({
+      responses: {
+        '/step/judge': { verdict: {}, outcome: 'NO', confidence: 0.2, errors: [] },
+      },
+    });
+    const report = await runPipeline(
+      { query: 'q', code: 'any' },
+      { gatewayUrl: gateway.url, sleepFn: noSleep },
+    );
+    expect(report.outcome).toBe('NO');
+  });
+
+  it('replays scripted 429 and 5xx faults before succeeding', async () => {
+    const gateway = await start({
+      script: { '/step/prompt': [{ status: 429 }, { status: 503, body: 'down' }] },
+    });
+    const client = new GatewayClient('any', { gatewayUrl: gateway.url, sleepFn: noSleep });
+
+    const result = await client.call('/step/prompt', 'POST', { user_input: 'q' });
+
+    expect(gateway.requests).toHaveLength(3);
+    expect((result as { data: { prompt_spec: { query: string } } }).data.prompt_spec.query).toBe('q');
+  });
+
+  it('can return malformed bodies', async () => {
+    const gateway = await start({ script: { '/step/prompt': [{ malformed: true }] } });
+    const client = new GatewayClient('any', { gatewayUrl: gateway.url, sleepFn: noSleep });
+
+    const err = await client.call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(err).toBeInstanceOf(ServerError);
+    expect(err.exitCode).toBe(6);
+    expect(err).toMatchObject({ path: '/step/prompt', attempts: 1 });
+    expect(err.message).toContain('Gateway returned a malformed body for /step/prompt');
+  });
+
+  it('rejects envelopes with the wrong access code', async () => {
+    const gateway = await start({ code: 'right' });
+    const client = new GatewayClient('wrong', { gatewayUrl: gateway.url, sleepFn: noSleep });
+
+    await expect(client.call('/step/prompt', 'POST', {})).rejects.toThrow('Gateway returned 401');
+  });
+
+  it('rejects requests that are not envelopes', async () => {
+    const gateway = await start();
+    const response = await fetch(gateway.url, { method: 'POST', body: '{"path": "/x"}' });
+    expect(response.status).toBe(400);
+  });
+
+  it('survives a client that aborts mid-body', async () => {
+    const gateway = await start();
+    const { port } = new URL(gateway.url);
+    await new Promise<void>(resolve => {
+      const socket = connect(Number(port), '127.0.0.1', () => {
+        socket.write('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 100\r\n\r\n{"code":');
+        setTimeout(() => socket.destroy(), 20);
+      });
+      socket.on('close', () => resolve());
+    });
+
+    const client = new GatewayClient('any', { gatewayUrl: gateway.url, sleepFn: noSleep });
+    await expect(client.call('/capabilities', 'GET', {})).resolves.toBeDefined();
+  });
+
+  it('keeps only the most recent envelopes', async () => {
+    const gateway = await start({ max_requests: 2 });
+    const client = new GatewayClient('any', { gatewayUrl: gateway.url, sleepFn: noSleep });
+    for (const path of ['/step/prompt', '/step/collect', '/step/audit']) {
+      await client.call(path, 'POST', {});
+    }
+    expect(gateway.requests.map(r => r.path)).toEqual(['/step/collect', '/step/audit']);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi } from 'vitest';
-import { runPipeline, getCapabilities } from '../src/pipeline.js';
+import { runPipeline, runSingleStep, getCapabilities } from '../src/pipeline.js';
 import type { GatewayClientOptions } from '../src/client.js';
+import { CancelledError, GatewayError, SchemaError } from '../src/errors.js';
+import type { PipelineEvent } from '../src/types.js';
 
 const noSleep = async () => {};
 
@@ -164,12 +166,15 @@ describe('runPipeline', () => {
       title: 'Weather Report',
       source_url: 'https://weather.example.com',
       snippet: 'Rain expected tomorrow',
+      domain: 'weather.example.com',
     });
     expect(report.evidence_highlights[1]).toEqual({
       title: 'Climate Data',
       source_url: 'https://climate.example.com',
       snippet: 'Precipitation probability 80%',
+      domain: 'climate.example.com',
     });
+    expect(report.evidence_counts).toEqual({ collected: 2, duplicates: 0, excluded: 0, shown: 2 });
   });
 
   it('extracts reasoning summary correctly', async () => {
@@ -280,6 +285,28 @@ describe('runPipeline', () => {
     expect(collectPayload.include_raw_content).toBe(false);
   });
 
+  it('records when the collect step does not report which collectors ran', async () => {
+    const { collectors_used: _used, ...collect } = MOCK_COLLECT_RESPONSE.data;
+    const mockFetch = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': { data: collect },
+      '/step/audit': MOCK_AUDIT_RESPONSE,
+      '/step/judge': MOCK_JUDGE_RESPONSE,
+      '/step/bundle': MOCK_BUNDLE_RESPONSE,
+    });
+
+    const report = await runPipeline(
+      { query: 'test', code: 'code', collectors: ['CollectorA'] },
+      clientOpts(mockFetch),
+    );
+
+    expect(report.diagnostics).toMatchObject({
+      collectors_used: [],
+      collectors_reported: false,
+      collectors_missing: [],
+    });
+  });
+
   it('handles non-wrapped responses (no data envelope)', async () => {
     const mockFetch = createMockFetch({
       '/step/prompt': {
@@ -326,6 +353,369 @@ describe('runPipeline', () => {
   });
 });
 
+describe('runPipeline events', () => {
+  it('emits start and complete events for every step', async () => {
+    const mockFetch = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': MOCK_COLLECT_RESPONSE,
+      '/step/audit': MOCK_AUDIT_RESPONSE,
+      '/step/judge': MOCK_JUDGE_RESPONSE,
+      '/step/bundle': MOCK_BUNDLE_RESPONSE,
+    });
+    const events: PipelineEvent[] = [];
+
+    await runPipeline(
+      { query: 'Will it rain?', code: 'testCode', onEvent: e => events.push(e) },
+      clientOpts(mockFetch),
+    );
+
+    expect(events.map(e => `${e.type} ${'step' in e ? e.step : ''}`)).toEqual([
+      'step:start prompt',
+      'step:complete prompt',
+      'step:start collect',
+      'step:complete collect',
+      'step:start audit',
+      'step:complete audit',
+      'step:start judge',
+      'step:complete judge',
+      'step:start bundle',
+      'step:complete bundle',
+    ]);
+    const judgeComplete = events.find(
+      e => e.type === 'step:complete' && e.step === 'judge',
+    ) as Extract<PipelineEvent, { type: 'step:complete' }>;
+    expect((judgeComplete.response as { outcome: string }).outcome).toBe('YES');
+    expect(judgeComplete.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('emits retry and error events', async () => {
+    let collectCalls = 0;
+    const inner = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': MOCK_COLLECT_RESPONSE,
+    });
+    const mockFetch = vi.fn().mockImplementation((url: string, options: RequestInit) => {
+      const path = JSON.parse(options.body as string).path;
+      if (path === '/step/collect' && collectCalls++ === 0) {
+        return Promise.resolve({
+          ok: false,
+          status: 503,
+          text: () => Promise.resolve('Unavailable'),
+        });
+      }
+      return inner(url, options);
+    });
+    const events: PipelineEvent[] = [];
+
+    await expect(
+      runPipeline(
+        { query: 'Will it rain?', code: 'testCode', onEvent: e => events.push(e) },
+        clientOpts(mockFetch),
+      ),
+    ).rejects.toThrow('Gateway returned 404');
+
+    const retry = events.find(e => e.type === 'retry');
+    expect(retry).toMatchObject({
+      type: 'retry',
+      step: 'collect',
+      path: '/step/collect',
+      attempt: 2,
+      status: 503,
+    });
+    expect(events[events.length - 1]).toMatchObject({ type: 'error', step: 'audit' });
+  });
+});
+
+describe('runPipeline errors', () => {
+  it('tags gateway errors with the failing step', async () => {
+    const mockFetch = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': MOCK_COLLECT_RESPONSE,
+    });
+
+    const err = await runPipeline({ query: 'q', code: 'c' }, clientOpts(mockFetch)).catch(e => e);
+    expect(err).toBeInstanceOf(GatewayError);
+    expect(err).toMatchObject({ kind: 'rejected', step: 'audit', status: 404, attempts: 1, exitCode: 2 });
+  });
+
+  it('reports unparseable responses as schema errors with issue paths', async () => {
+    const mockFetch = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': { data: { evidence_bundles: 'none' } },
+    });
+
+    const err = await runPipeline({ query: 'q', code: 'c' }, clientOpts(mockFetch)).catch(e => e);
+    expect(err).toBeInstanceOf(SchemaError);
+    expect(err.step).toBe('collect');
+    expect(err.issues).toEqual([{ path: 'evidence_bundles', message: 'Expected array, received string' }]);
+    expect(err.message).toBe(
+      'Invalid response from /step/collect:\n  - evidence_bundles: Expected array, received string',
+    );
+  });
+});
+
+describe('runPipeline cancellation', () => {
+  it('stops at the interrupted step without trying other collector groups', async () => {
+    const controller = new AbortController();
+    const inner = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': MOCK_COLLECT_RESPONSE,
+    });
+    const mockFetch = vi.fn().mockImplementation((url: string, options: RequestInit) => {
+      if (JSON.parse(options.body as string).path !== '/step/collect') return inner(url, options);
+      // Collect hangs until interrupted
+      setTimeout(() => controller.abort(), 0);
+      return new Promise((_resolve, reject) => {
+        options.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      });
+    });
+
+    const err = await runPipeline(
+      { query: 'q', code: 'c', consensus_groups: [['A'], ['B']], signal: controller.signal },
+      clientOpts(mockFetch),
+    ).catch(e => e);
+
+    expect(err).toBeInstanceOf(CancelledError);
+    expect(err.step).toBe('collect');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('runPipeline consensus', () => {
+  function judgeFor(outcome: string, confidence: number) {
+    return { data: { ...MOCK_JUDGE_RESPONSE.data, outcome, confidence } };
+  }
+
+  it('runs steps 2-5 once per collector group and aggregates the verdicts', async () => {
+    const judges = [judgeFor('YES', 0.9), judgeFor('NO', 0.6), judgeFor('YES', 0.7)];
+    const inner = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': MOCK_COLLECT_RESPONSE,
+      '/step/audit': MOCK_AUDIT_RESPONSE,
+      '/step/bundle': MOCK_BUNDLE_RESPONSE,
+    });
+    const mockFetch = vi.fn().mockImplementation((url: string, options: RequestInit) => {
+      if (JSON.parse(options.body as string).path === '/step/judge') {
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(judges.shift()) });
+      }
+      return inner(url, options);
+    });
+    const events: PipelineEvent[] = [];
+
+    const report = await runPipeline(
+      {
+        query: 'Will it rain?',
+        code: 'testCode',
+        consensus_groups: [['A'], ['B'], ['C', 'D']],
+        onEvent: e => events.push(e),
+      },
+      clientOpts(mockFetch),
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(1 + 3 * 4);
+    const collectors = mockFetch.mock.calls
+      .map((call: unknown[]) => JSON.parse((call[1] as RequestInit).body as string))
+      .filter(body => body.path === '/step/collect')
+      .map(body => JSON.parse(body.post_data).collectors);
+    expect(collectors).toEqual([['A'], ['B'], ['C', 'D']]);
+
+    expect(report.outcome).toBe('YES');
+    expect(report.confidence).toBeCloseTo(0.8 * (2 / 3));
+    expect(report.consensus).toMatchObject({
+      representative: 'A',
+      dissenting: ['B'],
+    });
+    expect(report.roots.por_root).toBe('0xabc123');
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'step:start', step: 'judge', branch: 'C+D' }),
+    );
+  });
+
+  it('keeps going when one group fails', async () => {
+    const inner = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': MOCK_COLLECT_RESPONSE,
+      '/step/audit': MOCK_AUDIT_RESPONSE,
+      '/step/judge': MOCK_JUDGE_RESPONSE,
+      '/step/bundle': MOCK_BUNDLE_RESPONSE,
+    });
+    const mockFetch = vi.fn().mockImplementation((url: string, options: RequestInit) => {
+      const body = JSON.parse(options.body as string);
+      if (body.path === '/step/collect' && JSON.parse(body.post_data).collectors[0] === 'Broken') {
+        return Promise.resolve({ ok: false, status: 400, text: () => Promise.resolve('bad collector') });
+      }
+      return inner(url, options);
+    });
+
+    const report = await runPipeline(
+      { query: 'Will it rain?', code: 'testCode', consensus_groups: [['Broken'], ['A']] },
+      clientOpts(mockFetch),
+    );
+
+    expect(report.outcome).toBe('YES');
+    expect(report.consensus?.agreement).toBe(1);
+    expect(report.consensus?.branches[0]).toMatchObject({
+      group: 'Broken',
+      error: expect.stringContaining('Gateway returned 400'),
+    });
+  });
+
+  it('rejects duplicate groups before calling the gateway', async () => {
+    const mockFetch = createMockFetch({});
+    await expect(
+      runPipeline(
+        { query: 'q', code: 'testCode', consensus_groups: [['A'], ['A']] },
+        clientOpts(mockFetch),
+      ),
+    ).rejects.toThrow('Consensus groups must be non-empty and distinct');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('runPipeline samples', () => {
+  function pathsCalled(mockFetch: ReturnType<typeof vi.fn>): string[] {
+    return mockFetch.mock.calls.map(
+      (call: unknown[]) => JSON.parse((call[1] as RequestInit).body as string).path,
+    );
+  }
+
+  function sampledFetch(outcomes: string[]) {
+    const inner = createMockFetch({
+      '/step/prompt': MOCK_PROMPT_RESPONSE,
+      '/step/collect': MOCK_COLLECT_RESPONSE,
+      '/step/audit': MOCK_AUDIT_RESPONSE,
+    });
+    let bundles = 0;
+    return vi.fn().mockImplementation((url: string, options: RequestInit) => {
+      const path = JSON.parse(options.body as string).path;
+      if (path === '/step/judge') {
+        const outcome = outcomes.shift();
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ data: { ...MOCK_JUDGE_RESPONSE.data, outcome } }),
+        });
+      }
+      if (path === '/step/bundle') {
+        const root = `0xroot${++bundles}`;
+        const data = { ...MOCK_BUNDLE_RESPONSE.data, por_root: root };
+        data.roots = { ...data.roots, por_root: root };
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ data }) });
+      }
+      return inner(url, options);
+    });
+  }
+
+  it('re-runs audit, judge and bundle over the same evidence by default', async () => {
+    const mockFetch = sampledFetch(['YES', 'NO', 'YES']);
+
+    const report = await runPipeline(
+      { query: 'Will it rain?', code: 'testCode', samples: 3 },
+      clientOpts(mockFetch),
+    );
+
+    const paths = pathsCalled(mockFetch);
+    expect(paths.filter(p => p === '/step/collect')).toHaveLength(1);
+    expect(paths.filter(p => p === '/step/judge')).toHaveLength(3);
+    expect(report.outcome).toBe('YES');
+    expect(report.stability).toMatchObject({
+      scope: 'reasoning',
+      outcome_distribution: { YES: 2, NO: 1 },
+      unstable: true,
+      representative: 1,
+    });
+    expect(report.stability?.samples.map(s => s.por_root)).toEqual(['0xroot1', '0xroot2', '0xroot3']);
+    expect(report.roots.por_root).toBe('0xroot1');
+  });
+
+  it('re-collects evidence with the full scope', async () => {
+    const mockFetch = sampledFetch(['YES', 'YES']);
+
+    const report = await runPipeline(
+      { query: 'Will it rain?', code: 'testCode', samples: 2, sample_scope: 'full' },
+      clientOpts(mockFetch),
+    );
+
+    const paths = pathsCalled(mockFetch);
+    expect(paths.filter(p => p === '/step/prompt')).toHaveLength(1);
+    expect(paths.filter(p => p === '/step/collect')).toHaveLength(2);
+    expect(report.stability?.unstable).toBe(false);
+  });
+
+  it('cannot be combined with consensus groups', async () => {
+    await expect(
+      runPipeline(
+        { query: 'q', code: 'testCode', samples: 2, consensus_groups: [['A'], ['B']] },
+        clientOpts(createMockFetch({})),
+      ),
+    ).rejects.toThrow('Stability sampling cannot be combined with consensus groups');
+  });
+});
+
+describe('runSingleStep', () => {
+  function sentPayload(mockFetch: ReturnType<typeof vi.fn>) {
+    const body = JSON.parse((mockFetch.mock.calls[0][1] as RequestInit).body as string);
+    return { path: body.path, payload: JSON.parse(body.post_data) };
+  }
+
+  it('calls only the requested step and returns its response', async () => {
+    const mockFetch = createMockFetch({ '/step/judge': MOCK_JUDGE_RESPONSE });
+    const input = {
+      prompt_spec: { id: 'spec-1' },
+      evidence_bundles: [{ items: [] }],
+      reasoning_trace: [{ description: 'edited by hand' }],
+    };
+
+    const result = await runSingleStep('judge', 'testCode', input, clientOpts(mockFetch));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(sentPayload(mockFetch)).toEqual({ path: '/step/judge', payload: input });
+    expect(result).toMatchObject({ outcome: 'YES', confidence: 0.85 });
+  });
+
+  it('fills pipeline defaults for collect', async () => {
+    const mockFetch = createMockFetch({ '/step/collect': MOCK_COLLECT_RESPONSE });
+
+    await runSingleStep(
+      'collect',
+      'testCode',
+      { prompt_spec: { id: 'spec-1' }, tool_plan: { tools: [] } },
+      clientOpts(mockFetch),
+    );
+
+    expect(sentPayload(mockFetch).payload).toEqual({
+      prompt_spec: { id: 'spec-1' },
+      tool_plan: { tools: [] },
+      collectors: ['CollectorGeminiGrounded'],
+      include_raw_content: false,
+    });
+  });
+
+  it('accepts a previous step response wrapped in data', async () => {
+    const mockFetch = createMockFetch({ '/step/audit': MOCK_AUDIT_RESPONSE });
+
+    await runSingleStep(
+      'audit',
+      'testCode',
+      { data: { prompt_spec: { id: 'spec-1' }, evidence_bundles: [] } },
+      clientOpts(mockFetch),
+    );
+
+    expect(sentPayload(mockFetch).payload).toEqual({
+      prompt_spec: { id: 'spec-1' },
+      evidence_bundles: [],
+    });
+  });
+
+  it('rejects invalid input without calling the gateway', async () => {
+    const mockFetch = createMockFetch({});
+
+    await expect(
+      runSingleStep('bundle', 'testCode', { prompt_spec: {} }, clientOpts(mockFetch)),
+    ).rejects.toThrow(/Invalid input for step bundle:[\s\S]*evidence_bundles[\s\S]*verdict/);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
 describe('getCapabilities', () => {
   it('calls /capabilities and returns parsed data', async () => {
     const mockFetch = vi.fn().mockResolvedValue({
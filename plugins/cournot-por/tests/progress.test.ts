@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { Writable } from 'node:stream';
+import { createProgressRenderer, createNdjsonRenderer } from '../src/progress.js';
+
+function capture(): { stream: Writable; output: () => string } {
+  let text = '';
+  const stream = new Writable({
+    write(chunk, _enc, cb) {
+      text += chunk.toString();
+      cb();
+    },
+  });
+  return { stream, output: () => text };
+}
+
+const ts = '2026-01-01T00:00:00.000Z';
+
+describe('createProgressRenderer', () => {
+  it('marks steps served from the response cache', () => {
+    const { stream, output } = capture();
+    const renderer = createProgressRenderer(stream);
+
+    renderer.onEvent({ type: 'step:start', step: 'prompt', timestamp: ts });
+    renderer.onEvent({ type: 'cache', step: 'prompt', path: '/step/prompt', status: 'hit', age_ms: 7_200_000, timestamp: ts });
+    renderer.onEvent({ type: 'step:complete', step: 'prompt', timestamp: ts, duration_ms: 3, response: {} });
+    renderer.onEvent({ type: 'step:start', step: 'collect', timestamp: ts });
+    renderer.onEvent({ type: 'cache', step: 'collect', path: '/step/collect', status: 'miss', timestamp: ts });
+    renderer.onEvent({ type: 'step:complete', step: 'collect', timestamp: ts, duration_ms: 1500, response: {} });
+    renderer.stop();
+
+    expect(output()).toBe([
+      '… [1/5] prompt',
+      '✓ [1/5] prompt (cached, 2h old)',
+      '… [2/5] collect',
+      '✓ [2/5] collect (1.5s)',
+      '',
+    ].join('\n'));
+  });
+
+  it('shows the normalized query and pre-flight issues', () => {
+    const { stream, output } = capture();
+    const renderer = createProgressRenderer(stream);
+
+    renderer.onEvent({
+      type: 'lint',
+      timestamp: ts,
+      lint: {
+        query: 'Will BTC go up by Friday?',
+        normalized_query: 'Will BTC go up by 2026-10-23?',
+        reference_date: '2026-10-19',
+        deadline: '2026-10-23',
+        date_rewrites: [{ original: 'by Friday', normalized: 'by 2026-10-23' }],
+        issues: [{ check: 'criterion', severity: 'warning', message: '"go up" is not measurable.' }],
+      },
+    });
+    renderer.stop();
+
+    expect(output().split('\n')).toEqual([
+      '→ query sent as: Will BTC go up by 2026-10-23?',
+      '! pre-flight warning (criterion): "go up" is not measurable.',
+      '',
+    ]);
+  });
+
+  it('writes one line per event when not on a terminal', () => {
+    const { stream, output } = capture();
+    const renderer = createProgressRenderer(stream);
+
+    renderer.onEvent({ type: 'step:start', step: 'collect', timestamp: ts });
+    renderer.onEvent({
+      type: 'retry',
+      step: 'collect',
+      timestamp: ts,
+      path: '/step/collect',
+      attempt: 2,
+      backoff_ms: 2000,
+      status: 503,
+      error: 'Gateway returned 503',
+    });
+    renderer.onEvent({
+      type: 'step:complete',
+      step: 'collect',
+      timestamp: ts,
+      duration_ms: 12_345,
+      response: {},
+    });
+    renderer.onEvent({ type: 'step:start', step: 'judge', timestamp: ts });
+    renderer.onEvent({ type: 'error', step: 'judge', timestamp: ts, error: 'boom' });
+    renderer.stop();
+
+    expect(output().split('\n')).toEqual([
+      '… [2/5] collect',
+      '↻ collect HTTP 503; attempt 2 in 2.0s',
+      '✓ [2/5] collect (12.3s)',
+      '… [4/5] judge',
+      '✗ [4/5] judge failed: boom',
+      '',
+    ]);
+  });
+
+  it('marks steps restored from a checkpoint', () => {
+    const { stream, output } = capture();
+    createProgressRenderer(stream).onEvent({
+      type: 'step:complete',
+      step: 'prompt',
+      timestamp: ts,
+      duration_ms: 0,
+      response: {},
+      resumed: true,
+    });
+    expect(output()).toBe('✓ [1/5] prompt (from checkpoint)\n');
+  });
+});
+
+describe('createNdjsonRenderer', () => {
+  it('writes each event as a JSON line', () => {
+    const { stream, output } = capture();
+    const event = { type: 'step:start' as const, step: 'prompt' as const, timestamp: ts };
+    createNdjsonRenderer(stream).onEvent(event);
+    expect(JSON.parse(output())).toEqual(event);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RateLimiter, parseRateLimits } from '../src/rate-limit.js';
+import { GatewayClient } from '../src/client.js';
+import { DeadlineError } from '../src/errors.js';
+
+function okFetch() {
+  return vi.fn().mockImplementation(() => Promise.resolve({ ok: true, json: () => Promise.resolve({ data: {} }) }));
+}
+
+describe('parseRateLimits', () => {
+  it('parses a default limit and per-step overrides', () => {
+    expect(parseRateLimits('30/m')).toEqual({ '*': { limit: 30, interval_ms: 60_000 } });
+    expect(parseRateLimits('collect=2/s,/capabilities=100/h')).toEqual({
+      '/step/collect': { limit: 2, interval_ms: 1000 },
+      '/capabilities': { limit: 100, interval_ms: 3_600_000 },
+    });
+  });
+
+  it('rejects malformed limits', () => {
+    expect(() => parseRateLimits('30')).toThrow('Invalid rate limit "30"');
+    expect(() => parseRateLimits('collect=0/m')).toThrow('Invalid rate limit');
+    expect(() => parseRateLimits('0.5/m')).toThrow('Invalid rate limit "0.5/m"');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('allows a burst, then paces calls at the configured rate', async () => {
+    let now = 0;
+    const limiter = new RateLimiter({ rules: { '*': { limit: 2, interval_ms: 1000 } }, now: () => now });
+
+    expect(await limiter.take('/step/prompt')).toBe(0);
+    expect(await limiter.take('/step/collect')).toBe(0);
+    expect(await limiter.take('/step/audit')).toBe(500);
+    now += 500;
+    expect(await limiter.take('/step/audit')).toBe(0);
+  });
+
+  it('still grants whole tokens to sub-1 rates and bursts', async () => {
+    let now = 0;
+    const limiter = new RateLimiter({
+      rules: { '*': { limit: 0.5, interval_ms: 60_000, burst: 0.5 } },
+      now: () => now,
+    });
+
+    expect(await limiter.take('/step/prompt')).toBe(0);
+    expect(await limiter.take('/step/prompt')).toBe(120_000);
+    now += 120_000;
+    expect(await limiter.take('/step/prompt')).toBe(0);
+  });
+
+  it('keeps per-path buckets apart and ignores uncovered paths', async () => {
+    const limiter = new RateLimiter({ rules: { '/step/collect': { limit: 1, interval_ms: 60_000 } }, now: () => 0 });
+    expect(await limiter.take('/step/collect')).toBe(0);
+    expect(await limiter.take('/step/collect')).toBe(60_000);
+    expect(await limiter.take('/step/prompt')).toBe(0);
+  });
+
+  it('holds callers back after a block', async () => {
+    let now = 0;
+    const limiter = new RateLimiter({ rules: { '*': { limit: 10, interval_ms: 1000 } }, now: () => now });
+    await limiter.block('/step/judge', 3000);
+    expect(await limiter.take('/step/judge')).toBe(3000);
+    now += 3000;
+    expect(await limiter.take('/step/judge')).toBe(0);
+  });
+
+  it('shares buckets between limiters through a state file', async () => {
+    const statePath = join(await mkdtemp(join(tmpdir(), 'cournot-rate-')), 'rate-limit.json');
+    const rules = { '*': { limit: 1, interval_ms: 60_000 } };
+    const first = new RateLimiter({ rules, statePath, now: () => 0 });
+    const second = new RateLimiter({ rules, statePath, now: () => 0 });
+
+    const waits = await Promise.all([first.take('/step/prompt'), second.take('/step/prompt')]);
+    expect(waits.sort((a, b) => a - b)).toEqual([0, 60_000]);
+  });
+});
+
+describe('GatewayClient with a rate limiter', () => {
+  it('waits for a token before each call across clients sharing the limiter', async () => {
+    let now = 0;
+    const waits: number[] = [];
+    const sleepFn = async (ms: number) => {
+      waits.push(ms);
+      now += ms;
+    };
+    const limiter = new RateLimiter({ rules: { '*': { limit: 1, interval_ms: 2000 } }, now: () => now });
+    const fetchFn = okFetch();
+
+    await new GatewayClient('a', { fetchFn, sleepFn, rateLimiter: limiter }).call('/step/prompt', 'POST', {});
+    await new GatewayClient('b', { fetchFn, sleepFn, rateLimiter: limiter }).call('/step/prompt', 'POST', {});
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(waits).toEqual([2000]);
+  });
+
+  it('fails with a deadline error instead of waiting past the deadline', async () => {
+    const limiter = new RateLimiter({ rules: { '*': { limit: 1, interval_ms: 60_000 } } });
+    const options = { fetchFn: okFetch(), rateLimiter: limiter, deadline: Date.now() + 1000 };
+    await new GatewayClient('a', options).call('/step/prompt', 'POST', {});
+
+    const err = await new GatewayClient('a', options).call('/step/prompt', 'POST', {}).catch(e => e);
+    expect(err).toBeInstanceOf(DeadlineError);
+    expect(err.message).toContain('Deadline exceeded before rate limit allows calling /step/prompt');
+  });
+});
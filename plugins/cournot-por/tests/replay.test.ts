@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createRecordingFetch, createReplayFetch, loadRecording } from '../src/replay.js';
+import { runPipeline } from '../src/pipeline.js';
+
+const noSleep = async () => {};
+
+const RESPONSES: Record<string, unknown> = {
+  '/step/prompt': { data: { prompt_spec: { id: 'spec-1', note: 'code {code}' }, tool_plan: {} } },
+  '/step/collect': {
+    data: {
+      evidence_bundles: [{ items: [{ title: 'Article', url: 'https://a.com' }] }],
+      collectors_used: ['CollectorGeminiGrounded'],
+      errors: [],
+    },
+  },
+  '/step/audit': { data: { reasoning_trace: [{ description: 'Reasoned' }], errors: [] } },
+  '/step/judge': { data: { verdict: {}, outcome: 'NO', confidence: 0.6, errors: [] } },
+  '/step/bundle': {
+    data: {
+      por_bundle: {},
+      por_root: '0x1',
+      roots: { prompt_spec_hash: '0x2', evidence_root: '0x3', reasoning_root: '0x4', por_root: '0x1' },
+      errors: [],
+    },
+  },
+};
+
+function createMockFetch() {
+  let first = true;
+  return vi.fn().mockImplementation(async (_url: string, options: RequestInit) => {
+    const { path, code } = JSON.parse(options.body as string) as { path: string; code: string };
+    // Fail the first collect attempt so the recording captures a retry
+    if (path === '/step/collect' && first) {
+      first = false;
+      return new Response('Upstream unavailable', { status: 503 });
+    }
+    // The prompt step echoes the caller's code back
+    return new Response(JSON.stringify(RESPONSES[path]).replace('{code}', code), { status: 200 });
+  });
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'cournot-replay-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('record and replay', () => {
+  it('records every exchange with the access code redacted', async () => {
+    const fetchFn = createRecordingFetch(dir, createMockFetch());
+    await runPipeline({ query: 'Will it rain?', code: 'secret99' }, { fetchFn, sleepFn: noSleep });
+
+    const files = (await readdir(dir)).sort();
+    expect(files).toEqual([
+      '001-step-prompt.json',
+      '002-step-collect.json',
+      '003-step-collect.json',
+      '004-step-audit.json',
+      '005-step-judge.json',
+      '006-step-bundle.json',
+    ]);
+
+    for (const file of files) {
+      expect(await readFile(join(dir, file), 'utf8')).not.toContain('secret99');
+    }
+
+    const exchanges = await loadRecording(dir);
+    expect(exchanges[0].request.code).toBe('[REDACTED]');
+    expect(JSON.parse(exchanges[0].request.post_data).user_input).toBe('Will it rain?');
+    expect(exchanges[1].status).toBe(503);
+  });
+
+  it('redacts each exchange with the code it was sent with', async () => {
+    // As in an MCP session where `login` stores a new code between tool calls
+    const fetchFn = createRecordingFetch(dir, createMockFetch());
+    await runPipeline({ query: 'Will it rain?', code: 'secret99' }, { fetchFn, sleepFn: noSleep });
+    await runPipeline({ query: 'Will it snow?', code: 'fresh42' }, { fetchFn, sleepFn: noSleep });
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(11);
+    for (const file of files) {
+      const content = await readFile(join(dir, file), 'utf8');
+      expect(content).not.toContain('secret99');
+      expect(content).not.toContain('fresh42');
+    }
+  });
+
+  it('replays a recording offline and produces the same report', async () => {
+    const recordFetch = createRecordingFetch(dir, createMockFetch());
+    const recorded = await runPipeline(
+      { query: 'Will it rain?', code: 'secret99' },
+      { fetchFn: recordFetch, sleepFn: noSleep },
+    );
+
+    const replayFetch = await createReplayFetch(dir);
+    const replayed = await runPipeline(
+      { query: 'Will it rain?', code: 'anything' },
+      { fetchFn: replayFetch, sleepFn: noSleep },
+    );
+
+    const { raw: _a, ...recordedSummary } = recorded;
+    const { raw: _b, ...replayedSummary } = replayed;
+    expect(replayedSummary).toEqual(recordedSummary);
+    expect(replayed.outcome).toBe('NO');
+    // The recorded prompt_spec had the code redacted too
+    expect(JSON.stringify(replayed.raw?.prompt_response)).toContain('[REDACTED]');
+  });
+
+  it('replays recorded Retry-After headers', async () => {
+    const inner = createMockFetch();
+    let limited = false;
+    const mockFetch = vi.fn().mockImplementation(async (url: string, options: RequestInit) => {
+      if (JSON.parse(options.body as string).path === '/step/audit' && !limited) {
+        limited = true;
+        return new Response('Slow down', { status: 429, headers: { 'Retry-After': '7' } });
+      }
+      return inner(url, options);
+    });
+    const run = async (fetchFn: typeof fetch) => {
+      const waits: number[] = [];
+      await runPipeline(
+        { query: 'Will it rain?', code: 'secret99' },
+        { fetchFn, sleepFn: async ms => { waits.push(ms); } },
+      );
+      return waits;
+    };
+
+    const recordedWaits = await run(createRecordingFetch(dir, mockFetch));
+    const exchanges = await loadRecording(dir);
+    expect(exchanges.find(e => e.status === 429)?.headers).toEqual({
+      'content-type': 'text/plain;charset=UTF-8',
+      'retry-after': '7',
+    });
+    expect(recordedWaits).toContain(7000);
+    expect(await run(await createReplayFetch(dir))).toContain(7000);
+  });
+
+  it('fails clearly when the recording runs out', async () => {
+    const replayFetch = await createReplayFetch(dir);
+    await expect(
+      runPipeline({ query: 'q', code: 'c' }, { fetchFn: replayFetch, sleepFn: noSleep }),
+    ).rejects.toThrow('No recorded response left for POST /step/prompt');
+  });
+});
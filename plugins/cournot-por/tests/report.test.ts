@@ -123,6 +123,66 @@ describe('buildReport', () => {
     expect(report.evidence_highlights).toHaveLength(10);
   });
 
+  it('applies report limits and snippet truncation', () => {
+    const bigCollect: CollectResponse = {
+      evidence_bundles: [{ items: Array.from({ length: 5 }, (_, i) => ({ title: `Item ${i}`, snippet: `Snippet number ${i}` })) }],
+      collectors_used: [],
+      errors: [],
+    };
+    const longAudit: AuditResponse = {
+      reasoning_trace: Array.from({ length: 15 }, (_, i) => ({ description: `Step ${i}` })),
+      errors: [],
+    };
+
+    const limited = buildReport(PROMPT, bigCollect, longAudit, JUDGE, BUNDLE, {
+      max_evidence: 2,
+      max_reasoning_steps: 3,
+      snippet_length: 8,
+    });
+    expect(limited.evidence_highlights.map(h => h.snippet)).toEqual(['Snippet…', 'Snippet…']);
+    expect(limited.reasoning_summary).toEqual(['Step 0', 'Step 1', 'Step 2']);
+    expect(limited.reasoning_counts).toEqual({ total: 15, shown: 3 });
+    expect(limited.reasoning_steps).toBeUndefined();
+    expect(formatReport(limited)).toContain('*Showing 3 of 15 reasoning steps*');
+
+    const full = buildReport(PROMPT, bigCollect, longAudit, JUDGE, BUNDLE, {
+      max_evidence: 2,
+      snippet_length: 8,
+      full: true,
+    });
+    expect(full.evidence_highlights).toHaveLength(5);
+    expect(full.evidence_highlights[0].snippet).toBe('Snippet number 0');
+    expect(full.reasoning_summary).toHaveLength(15);
+    expect(full.reasoning_steps).toHaveLength(15);
+  });
+
+  it('renders structured step details instead of stringified JSON', () => {
+    const structuredAudit: AuditResponse = {
+      reasoning_trace: [
+        { id: 's1', evidence_ids: ['e1', 'e2'], result: 'Deadline passed', weight: 0.4 },
+        { step_id: 's2', description: 'Compare sources', conclusion: 'Sources agree' },
+      ],
+      errors: [],
+    };
+    const report = buildReport(PROMPT, COLLECT, structuredAudit, JUDGE, BUNDLE, { step_details: true });
+
+    expect(report.reasoning_summary).toEqual(['Deadline passed', 'Compare sources']);
+    expect(report.reasoning_steps![0]).toEqual({
+      step_id: 's1',
+      description: 'Deadline passed',
+      evidence_refs: ['e1', 'e2'],
+      conclusion: 'Deadline passed',
+      metadata: { weight: 0.4 },
+    });
+
+    const text = formatReport(report);
+    expect(text).toContain('1. Deadline passed\n   _id s1 · uses e1, e2_\n');
+    expect(text).toContain('   - weight: 0.4');
+    expect(text).toContain('2. Compare sources\n   _id s2 · concludes Sources agree_');
+    expect(text).not.toContain('- id:');
+    expect(text).not.toContain('{"');
+  });
+
   it('omits requirements when verdict has none', () => {
     const noReqJudge: JudgeResponse = {
       verdict: {},
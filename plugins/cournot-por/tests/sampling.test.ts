@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeSamples, describeDistribution } from '../src/sampling.js';
+import { BranchesFailedError, EXIT_CODES, RateLimitError, exitCodeFor } from '../src/errors.js';
+import type { StabilitySample } from '../src/types.js';
+
+function sample(index: number, outcome: string, confidence: number): StabilitySample {
+  return { index, outcome, confidence, por_root: `0x${index}` };
+}
+
+describe('summarizeSamples', () => {
+  it('reports the outcome distribution and confidence statistics', () => {
+    const summary = summarizeSamples(
+      [sample(1, 'YES', 0.8), sample(2, 'YES', 0.6), sample(3, 'NO', 0.7), sample(4, 'YES', 0.9)],
+      'reasoning',
+    );
+
+    expect(summary.outcome_distribution).toEqual({ YES: 3, NO: 1 });
+    expect(summary.modal_outcome).toBe('YES');
+    expect(summary.modal_share).toBe(0.75);
+    expect(summary.confidence_mean).toBeCloseTo(0.75);
+    expect(summary.confidence_variance).toBeCloseTo(0.0125);
+    expect(summary.confidence).toBeCloseTo(((0.8 + 0.6 + 0.9) / 3) * 0.75);
+    expect(summary.representative).toBe(4);
+    expect(describeDistribution(summary)).toBe('YES 3, NO 1');
+  });
+
+  it('flags results below the threshold as unstable', () => {
+    const samples = [sample(1, 'YES', 0.8), sample(2, 'YES', 0.8), sample(3, 'NO', 0.8)];
+    expect(summarizeSamples(samples, 'full').unstable).toBe(true);
+    expect(summarizeSamples(samples, 'full', 0.6).unstable).toBe(false);
+    expect(summarizeSamples([sample(1, 'YES', 0.8), sample(2, 'YES', 0.7)], 'full').unstable).toBe(false);
+  });
+
+  it('excludes failed samples and throws when all failed', () => {
+    const summary = summarizeSamples(
+      [sample(1, 'NO', 0.5), { index: 2, error: 'Gateway returned 500' }],
+      'reasoning',
+    );
+    expect(summary.modal_share).toBe(1);
+    expect(summary.samples).toHaveLength(2);
+
+    expect(() => summarizeSamples([{ index: 1, error: 'timeout' }], 'reasoning')).toThrow(
+      'All samples failed:\n  - sample 1: timeout',
+    );
+  });
+
+  it('keeps the exit code every sample failed with', () => {
+    const causes = [new RateLimitError('slow down'), new RateLimitError('slow down')];
+    let thrown: unknown;
+    try {
+      summarizeSamples([{ index: 1, error: 'slow down' }, { index: 2, error: 'slow down' }], 'full', 0.8, causes);
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect(thrown).toBeInstanceOf(BranchesFailedError);
+    expect(exitCodeFor(thrown)).toBe(EXIT_CODES.rate_limited);
+    expect((thrown as BranchesFailedError).retryable).toBe(true);
+  });
+});
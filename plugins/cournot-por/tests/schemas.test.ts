@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { checkContract, reasoningStepSchema } from '../src/schemas.js';
+import {
+  normalizeEvidenceBundles,
+  normalizeReasoningTrace,
+  normalizeVerdict,
+} from '../src/normalize.js';
+import { runPipeline } from '../src/pipeline.js';
+
+const noSleep = async () => {};
+
+describe('checkContract', () => {
+  it('accepts conforming step responses', () => {
+    expect(
+      checkContract('collect', {
+        evidence_bundles: [
+          { collector: 'A', items: [{ title: 'T', source_url: 'https://a.com', snippet: 'S' }] },
+        ],
+        collectors_used: ['A'],
+        errors: [],
+      }),
+    ).toEqual([]);
+    expect(
+      checkContract('audit', { reasoning_trace: [{ description: 'step' }], errors: [] }),
+    ).toEqual([]);
+  });
+
+  it('reports the exact path of each drifted field', () => {
+    const issues = checkContract('collect', {
+      evidence_bundles: [
+        { items: [{ title: 'ok' }, { title: 'bad', source_url: 42 }] },
+        { evidence_items: [] },
+      ],
+    });
+
+    expect(issues.map(i => i.path)).toEqual([
+      'evidence_bundles.0.items.1.source_url',
+      'evidence_bundles.1.items',
+    ]);
+    expect(issues[0].message).toContain('Expected string');
+  });
+
+  it('checks nested verdict requirements', () => {
+    const issues = checkContract('judge', {
+      verdict: { requirements: [{ description: 'r', met: true }] },
+      outcome: 'YES',
+      confidence: 0.5,
+    });
+    expect(issues).toEqual([
+      { path: 'verdict.requirements.0.fulfilled', message: 'Required' },
+    ]);
+  });
+});
+
+describe('lenient normalization', () => {
+  it('maps evidence aliases onto contract fields', () => {
+    const [bundle] = normalizeEvidenceBundles([
+      {
+        collector_name: 'CollectorX',
+        results: [{ headline: 'H', link: 'https://h.com', content: 'C', fetched_at: '2026-01-01' }],
+      },
+    ]);
+
+    expect(bundle.collector).toBe('CollectorX');
+    expect(bundle.items[0]).toMatchObject({
+      title: 'H',
+      source_url: 'https://h.com',
+      snippet: 'C',
+      retrieved_at: '2026-01-01',
+    });
+  });
+
+  it('treats a flat bundle as a single evidence item', () => {
+    const [bundle] = normalizeEvidenceBundles([{ title: 'Flat', url: 'https://f.com' }]);
+    expect(bundle.items).toEqual([{ title: 'Flat', source_url: 'https://f.com' }]);
+  });
+
+  it('normalizes reasoning traces in any supported shape', () => {
+    expect(normalizeReasoningTrace('just text')).toEqual({ steps: [], summary: 'just text' });
+    expect(
+      normalizeReasoningTrace({
+        reasoning_steps: [{ id: 1, text: 'First', evidence_ids: ['e1'], result: 'ok' }],
+      }).steps[0],
+    ).toMatchObject({
+      step_id: '1',
+      description: 'First',
+      evidence_refs: ['e1'],
+      conclusion: 'ok',
+    });
+  });
+
+  it('gives every normalized step the description the contract requires', () => {
+    const { steps } = normalizeReasoningTrace([{ id: 2, result: 'ok' }, { weight: 0.4 }, {}]);
+
+    expect(steps.map(step => step.description)).toEqual(['ok', 'weight: 0.4', 'Step 3']);
+    for (const step of steps) expect(reasoningStepSchema.safeParse(step).success).toBe(true);
+  });
+
+  it('normalizes requirement aliases and drops unlabeled ones', () => {
+    const verdict = normalizeVerdict({
+      rule_id: 'R1',
+      criteria: [{ label: 'A', met: true }, { passed: false }, { name: 'B' }],
+    });
+
+    expect(verdict.resolution_rule_id).toBe('R1');
+    expect(verdict.requirements.map(r => [r.description, r.fulfilled])).toEqual([
+      ['A', true],
+      ['B', false],
+    ]);
+  });
+});
+
+describe('runPipeline schema modes', () => {
+  const responses: Record<string, unknown> = {
+    '/step/prompt': { prompt_spec: { question: 'q' }, tool_plan: { tools: ['search'] } },
+    '/step/collect': { evidence_bundles: [{ results: [] }], collectors_used: [], errors: [] },
+    '/step/audit': { reasoning_trace: [], errors: [] },
+    '/step/judge': { verdict: {}, outcome: 'YES', confidence: 0.9, errors: [] },
+    '/step/bundle': {
+      por_bundle: {},
+      por_root: '0x1',
+      roots: { prompt_spec_hash: '0x2', evidence_root: '0x3', reasoning_root: '0x4', por_root: '0x1' },
+      errors: [],
+    },
+  };
+  const mockFetch = vi.fn().mockImplementation((_url: string, options: RequestInit) => {
+    const path = JSON.parse(options.body as string).path as string;
+    return Promise.resolve({ ok: true, json: () => Promise.resolve(responses[path]) });
+  });
+  const clientOptions = { fetchFn: mockFetch as typeof fetch, sleepFn: noSleep };
+
+  it('tolerates drifted payloads in lenient mode', async () => {
+    const report = await runPipeline({ query: 'q', code: 'c' }, clientOptions);
+    expect(report.outcome).toBe('YES');
+  });
+
+  it('rejects drifted payloads in strict mode', async () => {
+    await expect(
+      runPipeline({ query: 'q', code: 'c', schema_mode: 'strict' }, clientOptions),
+    ).rejects.toThrow(
+      'Response from /step/collect does not match the contract:\n  - evidence_bundles.0.items: Required',
+    );
+  });
+});
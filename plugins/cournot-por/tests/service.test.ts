@@ -0,0 +1,197 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { startService, type Job, type JobService, type ServiceOptions } from '../src/service.js';
+import { startMockGateway, type MockGateway, type MockServerConfig } from '../src/mock-server.js';
+
+const noSleep = async () => {};
+
+let gateway: MockGateway | undefined;
+let service: JobService | undefined;
+
+afterEach(async () => {
+  await service?.close();
+  // Cancelled jobs leave requests in flight on the gateway
+  gateway?.server.closeAllConnections();
+  await gateway?.close();
+  service = undefined;
+  gateway = undefined;
+});
+
+async function start(options: ServiceOptions = {}, config: MockServerConfig = {}): Promise<JobService> {
+  gateway = await startMockGateway(config);
+  service = await startService({
+    recordHistory: false,
+    ...options,
+    clientOptions: { gatewayUrl: gateway.url, sleepFn: noSleep, maxRetries: 0 },
+  });
+  return service;
+}
+
+function request(path: string, init: RequestInit & { code?: string } = {}) {
+  const { code = 'caller-code', headers, ...rest } = init;
+  return fetch(`${service!.url}${path}`, {
+    ...rest,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(code ? { Authorization: `Bearer ${code}` } : {}),
+      ...(headers as Record<string, string>),
+    },
+  });
+}
+
+async function submit(body: unknown, code?: string): Promise<Job> {
+  const res = await request('/resolve', { method: 'POST', body: JSON.stringify(body), code });
+  expect(res.status).toBe(202);
+  return res.json() as Promise<Job>;
+}
+
+async function waitForJob(id: string, code?: string): Promise<Job> {
+  for (let i = 0; i < 200; i++) {
+    const job = await (await request(`/jobs/${id}`, { code })).json() as Job;
+    if (!['queued', 'running'].includes(job.status)) return job;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+describe('service', () => {
+  it('queues a resolution and returns the report when it finishes', async () => {
+    await start();
+    const job = await submit({ query: 'Will it rain?', collectors: ['A'] });
+    expect(['queued', 'running']).toContain(job.status);
+    expect(job).not.toHaveProperty('owner');
+
+    const done = await waitForJob(job.id);
+    expect(done.status).toBe('succeeded');
+    expect(done.report).toMatchObject({ outcome: 'YES', schema_version: expect.any(String) });
+    expect(done.report).not.toHaveProperty('raw');
+    expect(gateway!.requests.map(r => r.code)).toEqual(Array(5).fill('caller-code'));
+  });
+
+  it('requires an access code unless a shared one is configured', async () => {
+    await start();
+    const res = await request('/resolve', { method: 'POST', body: '{"query":"Q"}', code: '' });
+    expect(res.status).toBe(401);
+    await service!.close();
+
+    service = await startService({
+      recordHistory: false,
+      defaultCode: 'shared',
+      clientOptions: { gatewayUrl: gateway!.url, sleepFn: noSleep },
+    });
+    const job = await submit({ query: 'Q' }, '');
+    expect((await waitForJob(job.id, '')).status).toBe('succeeded');
+    expect(gateway!.requests.at(-1)!.code).toBe('shared');
+  });
+
+  it('hides jobs from callers with a different code', async () => {
+    await start();
+    const job = await submit({ query: 'Q' });
+    expect((await request(`/jobs/${job.id}`, { code: 'someone-else' })).status).toBe(404);
+    await waitForJob(job.id);
+  });
+
+  it('rejects invalid requests with the failing fields', async () => {
+    await start();
+    const res = await request('/resolve', { method: 'POST', body: JSON.stringify({ query: '', code: 'x' }) });
+    expect(res.status).toBe(400);
+    const body = await res.json() as { issues: { path: string }[] };
+    expect(body.issues.map(i => i.path)).toEqual(['query', '(root)']);
+  });
+
+  it('records typed, redacted errors for failed jobs', async () => {
+    await start({}, { code: 'the-right-code' });
+    const job = await submit({ query: 'Q' });
+    const done = await waitForJob(job.id);
+    expect(done.status).toBe('failed');
+    expect(done.error).toMatchObject({ kind: 'auth', step: 'prompt', retryable: false });
+    expect(JSON.stringify(done)).not.toContain('caller-code');
+  });
+
+  it('streams pipeline events as server-sent events', async () => {
+    await start({}, { latency_ms: 20 });
+    const job = await submit({ query: 'Q', collectors: ['A'] });
+    const res = await request(`/jobs/${job.id}/events`);
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+
+    const text = await res.text();
+    const events = [...text.matchAll(/^event: (.+)$/gm)].map(m => m[1]);
+    expect(events.filter(e => e === 'step:complete')).toHaveLength(5);
+    expect(events.at(-1)).toBe('done');
+    expect(text).toContain('"status":"succeeded"');
+    expect(text).not.toContain('"response"');
+  });
+
+  it('resumes an event stream after the Last-Event-ID and ignores malformed ids', async () => {
+    await start({}, { latency_ms: 20 });
+    const job = await submit({ query: 'Q', collectors: ['A'] });
+
+    const ids = async (lastEventId: string) => {
+      const res = await request(`/jobs/${job.id}/events`, { headers: { 'Last-Event-ID': lastEventId } });
+      return [...(await res.text()).matchAll(/^id: (\d+)$/gm)].map(m => Number(m[1]));
+    };
+    const [malformed, resumed] = await Promise.all([ids('not-a-number'), ids('2')]);
+    expect(malformed[0]).toBe(0);
+    expect(resumed[0]).toBe(3);
+    expect(resumed.at(-1)).toBe(malformed.at(-1));
+  });
+
+  it('runs no more jobs at once than the configured concurrency', async () => {
+    await start({ concurrency: 1 }, { latency_ms: 30 });
+    const first = await submit({ query: 'First' });
+    const second = await submit({ query: 'Second' });
+
+    const health = await (await request('/health')).json();
+    expect(health).toEqual({ status: 'ok', queued: 1, running: 1 });
+    expect((await request(`/jobs/${second.id}`).then(r => r.json()) as Job).status).toBe('queued');
+
+    await waitForJob(first.id);
+    expect((await waitForJob(second.id)).status).toBe('succeeded');
+  });
+
+  it('cancels queued and running jobs', async () => {
+    await start({ concurrency: 1 }, { latency_ms: 200 });
+    const running = await submit({ query: 'Running' });
+    const queued = await submit({ query: 'Queued' });
+
+    const res = await request(`/jobs/${queued.id}`, { method: 'DELETE' });
+    expect(res.status).toBe(202);
+    expect((await res.json() as Job).status).toBe('cancelled');
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await request(`/jobs/${running.id}`, { method: 'DELETE' });
+    expect((await waitForJob(running.id)).status).toBe('cancelled');
+    expect((await request(`/jobs/${running.id}`, { method: 'DELETE' })).status).toBe(409);
+  });
+
+  it('keeps finished jobs across restarts and fails unfinished ones', async () => {
+    const jobsDir = await mkdtemp(join(tmpdir(), 'cournot-jobs-'));
+    await start({ jobsDir, concurrency: 1 }, { latency_ms: 100 });
+    const finished = await submit({ query: 'Finished' });
+    await waitForJob(finished.id);
+    const pending = await submit({ query: 'Pending' });
+    // Simulate a crash: drop the service without settling the running job
+    service!.server.closeAllConnections();
+    service!.server.close();
+
+    service = await startService({ jobsDir, recordHistory: false });
+    expect((await request(`/jobs/${finished.id}`).then(r => r.json()) as Job).status).toBe('succeeded');
+    const restarted = await request(`/jobs/${pending.id}`).then(r => r.json()) as Job;
+    expect(restarted.status).toBe('failed');
+    expect(restarted.error?.message).toContain('restarted');
+
+    const files = await readdir(jobsDir);
+    expect(files.sort()).toEqual([`${finished.id}.json`, `${pending.id}.json`, '.owner-key'].sort());
+    const owners = new Set<string>();
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const stored = await readFile(join(jobsDir, file), 'utf8');
+      expect(stored).not.toContain('caller-code');
+      owners.add(JSON.parse(stored).owner);
+    }
+    // One full keyed digest for the one caller
+    expect([...owners]).toEqual([expect.stringMatching(/^[0-9a-f]{64}$/)]);
+    expect((await stat(join(jobsDir, '.owner-key'))).mode & 0o777).toBe(0o600);
+  });
+});
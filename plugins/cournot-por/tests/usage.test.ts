@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { UsageLedger, codeId, formatUsage, readUsage, summarizeUsage, type UsageEntry } from '../src/usage.js';
+import { GatewayClient } from '../src/client.js';
+
+const noSleep = async () => {};
+
+async function ledgerPath(): Promise<string> {
+  return join(await mkdtemp(join(tmpdir(), 'cournot-usage-')), 'usage.jsonl');
+}
+
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+  return {
+    timestamp: '2026-03-02T10:00:00.000Z',
+    code_id: 'aaaaaaaaaaaa',
+    path: '/step/prompt',
+    status: 200,
+    duration_ms: 1000,
+    ...overrides,
+  };
+}
+
+describe('UsageLedger', () => {
+  it('records every attempt, including retries, under a hash of the code', async () => {
+    const path = await ledgerPath();
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers(), text: () => Promise.resolve('slow down') })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({ data: {} }) });
+
+    await new GatewayClient('secret-code', { fetchFn, sleepFn: noSleep, usage: new UsageLedger(path) })
+      .call('/step/collect', 'POST', {});
+
+    const entries = await readUsage(path);
+    expect(entries.map(e => [e.path, e.status, e.code_id])).toEqual([
+      ['/step/collect', 429, codeId('secret-code')],
+      ['/step/collect', 200, codeId('secret-code')],
+    ]);
+    expect(await readFile(path, 'utf8')).not.toContain('secret-code');
+  });
+
+  it('returns no entries when nothing was recorded', async () => {
+    expect(await readUsage(await ledgerPath())).toEqual([]);
+  });
+});
+
+describe('summarizeUsage', () => {
+  const entries = [
+    entry({}),
+    entry({ status: 429, duration_ms: 200 }),
+    entry({ status: 'timeout', duration_ms: 5000 }),
+    entry({ path: '/step/collect' }),
+    entry({ code_id: 'bbbbbbbbbbbb' }),
+    entry({ timestamp: '2026-03-01T23:59:00.000Z' }),
+  ];
+
+  it('totals calls per day, code and path, newest day first', () => {
+    const rows = summarizeUsage(entries);
+    expect(rows.map(r => [r.day, r.code_id, r.path, r.calls, r.ok, r.rate_limited, r.failed])).toEqual([
+      ['2026-03-02', 'aaaaaaaaaaaa', '/step/collect', 1, 1, 0, 0],
+      ['2026-03-02', 'aaaaaaaaaaaa', '/step/prompt', 3, 1, 1, 1],
+      ['2026-03-02', 'bbbbbbbbbbbb', '/step/prompt', 1, 1, 0, 0],
+      ['2026-03-01', 'aaaaaaaaaaaa', '/step/prompt', 1, 1, 0, 0],
+    ]);
+  });
+
+  it('filters by day and code and formats a table with totals', () => {
+    const rows = summarizeUsage(entries, { since: '2026-03-02', code_id: 'aaaaaaaaaaaa' });
+    expect(rows).toHaveLength(2);
+
+    const text = formatUsage(rows);
+    expect(text).toContain('2026-03-02  aaaaaaaaaaaa  /step/prompt        3      1     1      1    2.1s');
+    expect(text).toContain('Total: 4 calls (2 ok, 1 rate limited, 1 failed), 7.2s in requests');
+    expect(formatUsage([])).toBe('No gateway calls recorded.');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { verifyBundle, computeRoots, merkleRoot, formatVerification } from '../src/verify.js';
+import { canonicalize, sha256Hex } from '../src/canonical.js';
+
+const POR_BUNDLE = {
+  prompt_spec: { id: 'spec-1', query: 'Will it rain?' },
+  evidence_bundles: [
+    { items: [{ title: 'Weather Report', source_url: 'https://weather.example.com' }] },
+    { items: [{ title: 'Climate Data', url: 'https://climate.example.com' }] },
+    { items: [] },
+  ],
+  reasoning_trace: [
+    { description: 'Analyzed forecasts' },
+    { description: 'Checked history' },
+  ],
+  verdict: { outcome: 'YES', requirements: [] },
+};
+
+function bundleResponse() {
+  const roots = computeRoots(POR_BUNDLE);
+  return {
+    por_bundle: POR_BUNDLE,
+    por_root: roots.por_root,
+    roots,
+    errors: [],
+  };
+}
+
+describe('canonicalize', () => {
+  it('sorts keys and drops undefined members', () => {
+    expect(canonicalize({ b: 1, a: [true, null], c: undefined })).toBe(
+      '{"a":[true,null],"b":1}',
+    );
+  });
+
+  it('is insensitive to key order', () => {
+    expect(canonicalize({ x: { z: 1, y: 2 } })).toBe(canonicalize({ x: { y: 2, z: 1 } }));
+  });
+});
+
+describe('merkleRoot', () => {
+  it('returns the hash of the empty string for no leaves', () => {
+    expect(merkleRoot([])).toBe(sha256Hex(''));
+  });
+
+  it('returns the single leaf unchanged', () => {
+    const leaf = sha256Hex('a');
+    expect(merkleRoot([leaf])).toBe(leaf);
+  });
+
+  it('hashes concatenated child bytes and carries odd nodes up', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map(s => sha256Hex(s));
+    const pair = (l: string, r: string) =>
+      '0x' +
+      createHash('sha256')
+        .update(Buffer.from(l.slice(2), 'hex'))
+        .update(Buffer.from(r.slice(2), 'hex'))
+        .digest('hex');
+
+    expect(merkleRoot([a, b, c])).toBe(pair(pair(a, b), c));
+  });
+});
+
+describe('verifyBundle', () => {
+  it('reports every root as matching for an untouched bundle', () => {
+    const result = verifyBundle(bundleResponse());
+
+    expect(result.valid).toBe(true);
+    expect(result.checks.map(c => c.status)).toEqual(['match', 'match', 'match', 'match']);
+  });
+
+  it('accepts responses wrapped in a data envelope and full reports', () => {
+    const response = bundleResponse();
+    expect(verifyBundle({ data: response }).valid).toBe(true);
+    expect(verifyBundle({ outcome: 'YES', raw: { bundle_response: response } }).valid).toBe(true);
+  });
+
+  it('ignores hash case and 0x prefix differences', () => {
+    const response = bundleResponse();
+    response.roots.evidence_root = response.roots.evidence_root!.slice(2).toUpperCase();
+    expect(verifyBundle(response).valid).toBe(true);
+  });
+
+  it('detects tampered evidence', () => {
+    const response = bundleResponse();
+    const tampered = {
+      ...response,
+      por_bundle: {
+        ...POR_BUNDLE,
+        evidence_bundles: [...POR_BUNDLE.evidence_bundles, { items: [{ title: 'Injected' }] }],
+      },
+    };
+
+    const result = verifyBundle(tampered);
+    expect(result.valid).toBe(false);
+    const statuses = Object.fromEntries(result.checks.map(c => [c.name, c.status]));
+    expect(statuses).toEqual({
+      prompt_spec_hash: 'match',
+      evidence_root: 'mismatch',
+      reasoning_root: 'match',
+      por_root: 'mismatch',
+    });
+  });
+
+  it('flags a top-level por_root that disagrees with roots.por_root', () => {
+    const response = { ...bundleResponse(), por_root: '0xdeadbeef' };
+    const result = verifyBundle(response);
+    expect(result.valid).toBe(false);
+    expect(result.status).toBe('mismatch');
+    expect(formatVerification(result)).toContain('**Result:** COULD NOT REPRODUCE');
+    expect(result.checks.find(c => c.name === 'por_root')!.status).toBe('mismatch');
+  });
+
+  it('marks roots as missing when bundle components are absent', () => {
+    const response = bundleResponse();
+    const { verdict: _verdict, ...withoutVerdict } = POR_BUNDLE;
+    const result = verifyBundle({ ...response, por_bundle: withoutVerdict });
+
+    expect(result.valid).toBe(false);
+    expect(result.status).toBe('incomplete');
+    expect(formatVerification(result)).toContain('**Result:** COULD NOT VERIFY');
+    expect(result.checks.find(c => c.name === 'por_root')!.status).toBe('missing');
+    expect(result.checks.find(c => c.name === 'evidence_root')!.status).toBe('match');
+  });
+
+  it('throws when the input has no por_bundle', () => {
+    expect(() => verifyBundle({ outcome: 'YES' })).toThrow('no por_bundle');
+  });
+});
+
+describe('formatVerification', () => {
+  it('renders the overall result and each root', () => {
+    const text = formatVerification(verifyBundle(bundleResponse()));
+    expect(text).toContain('**Result:** VALID');
+    expect(text).toContain('[x] **evidence_root:** match');
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  parseDuration,
+  detectChanges,
+  runWatch,
+  postWebhook,
+  watchStatePath,
+  type WatchAlert,
+  type WatchSnapshot,
+} from '../src/watch.js';
+import { CancelledError } from '../src/errors.js';
+import type { PorReport } from '../src/types.js';
+
+const HOUR = 3_600_000;
+
+function makeReport(outcome: string, confidence: number, urls: string[] = ['https://a.example']): PorReport {
+  return {
+    outcome,
+    confidence,
+    evidence_highlights: urls.map(source_url => ({ source_url })),
+    reasoning_summary: [],
+    roots: { prompt_spec_hash: '0xp', evidence_root: '0xe', reasoning_root: '0xr', por_root: `0x${outcome}${confidence}` },
+  };
+}
+
+function snapshot(report: PorReport): WatchSnapshot {
+  return { run_at: '2026-10-19T00:00:00.000Z', report };
+}
+
+/** A clock that only moves when the watch sleeps */
+function fakeClock(start = Date.parse('2026-10-19T00:00:00Z')) {
+  let time = start;
+  return {
+    now: () => time,
+    sleepFn: async (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe('parseDuration', () => {
+  it('parses single and compound durations', () => {
+    expect(parseDuration('45s')).toBe(45_000);
+    expect(parseDuration('30m')).toBe(1_800_000);
+    expect(parseDuration('1h30m')).toBe(5_400_000);
+    expect(parseDuration('2d')).toBe(172_800_000);
+  });
+
+  it('rejects malformed or zero durations', () => {
+    expect(() => parseDuration('1 hour')).toThrow('Invalid duration "1 hour"');
+    expect(() => parseDuration('0m')).toThrow(/greater than zero/);
+  });
+});
+
+describe('detectChanges', () => {
+  it('alerts when the outcome flips, with the evidence changes', () => {
+    const alert = detectChanges(
+      'q',
+      snapshot(makeReport('YES', 0.8)),
+      makeReport('NO', 0.7, ['https://b.example']),
+      '2026-10-19T01:00:00.000Z',
+    );
+
+    expect(alert?.reasons).toEqual(['outcome changed from YES to NO']);
+    expect(alert?.evidence_added).toEqual([{ source_url: 'https://b.example' }]);
+    expect(alert?.evidence_removed).toEqual([{ source_url: 'https://a.example' }]);
+    expect(alert?.previous.outcome).toBe('YES');
+  });
+
+  it('alerts when confidence crosses a threshold in either direction', () => {
+    const up = detectChanges('q', snapshot(makeReport('YES', 0.6)), makeReport('YES', 0.85), 't', [0.8]);
+    expect(up?.reasons).toEqual(['confidence rose to 80.0% or above (60.0% -> 85.0%)']);
+
+    const down = detectChanges('q', snapshot(makeReport('YES', 0.85)), makeReport('YES', 0.4), 't', [0.5, 0.8]);
+    expect(down?.reasons).toHaveLength(2);
+  });
+
+  it('stays quiet when nothing alert-worthy changed', () => {
+    expect(
+      detectChanges('q', snapshot(makeReport('YES', 0.6)), makeReport('YES', 0.7), 't', [0.8]),
+    ).toBeUndefined();
+  });
+});
+
+describe('runWatch', () => {
+  let dir: string;
+  let statePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cournot-watch-'));
+    statePath = join(dir, 'watch', 'state.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('re-resolves on schedule and alerts only on changes', async () => {
+    const results = [makeReport('YES', 0.7), makeReport('YES', 0.72), makeReport('NO', 0.6)];
+    const alerts: WatchAlert[] = [];
+    const clock = fakeClock();
+
+    const state = await runWatch({
+      query: 'q',
+      intervalMs: HOUR,
+      statePath,
+      resolve: async () => results.shift()!,
+      onAlert: a => {
+        alerts.push(a);
+      },
+      maxRuns: 3,
+      ...clock,
+    });
+
+    expect(state.runs).toBe(3);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].run_at).toBe('2026-10-19T02:00:00.000Z');
+    expect(alerts[0].reasons).toEqual(['outcome changed from YES to NO']);
+  });
+
+  it('stops when the signal fires, keeping the last finished run', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+
+    const state = await runWatch({
+      query: 'q',
+      intervalMs: HOUR,
+      statePath,
+      signal: controller.signal,
+      resolve: async () => {
+        if (++calls === 1) return makeReport('YES', 0.7);
+        controller.abort();
+        throw new CancelledError('Cancelled while calling /step/collect');
+      },
+      onAlert: () => {},
+      maxRuns: 5,
+      ...fakeClock(),
+    });
+
+    expect(state.runs).toBe(1);
+    expect(state.last_error).toBeUndefined();
+    const saved = JSON.parse(await readFile(statePath, 'utf8'));
+    expect(saved.last.report.outcome).toBe('YES');
+  });
+
+  it('resumes from persisted state after a restart', async () => {
+    const clock = fakeClock();
+    await runWatch({
+      query: 'q',
+      intervalMs: HOUR,
+      statePath,
+      resolve: async () => makeReport('YES', 0.9),
+      onAlert: () => {},
+      maxRuns: 1,
+      ...clock,
+    });
+
+    const saved = JSON.parse(await readFile(statePath, 'utf8'));
+    expect(saved.next_run_at).toBe('2026-10-19T01:00:00.000Z');
+    expect(saved.last.report).not.toHaveProperty('raw');
+
+    // A new process with its own clock, half an hour later
+    const restarted = fakeClock(Date.parse('2026-10-19T00:30:00Z'));
+    const onAlert = vi.fn();
+    const state = await runWatch({
+      query: 'q',
+      intervalMs: HOUR,
+      statePath,
+      resolve: async () => makeReport('NO', 0.9),
+      onAlert,
+      maxRuns: 1,
+      ...restarted,
+    });
+
+    expect(state.runs).toBe(2);
+    expect(restarted.now()).toBe(Date.parse('2026-10-19T01:00:00Z'));
+    expect(onAlert).toHaveBeenCalledWith(expect.objectContaining({
+      reasons: ['outcome changed from YES to NO'],
+    }));
+  });
+
+  it('keys the state on the query and options, not the code or reference date', () => {
+    const options = { query: 'q', code: 'a', strict_mode: false, preflight: 'warn' as const };
+    const path = watchStatePath({ ...options, reference_date: '2026-10-19' });
+
+    expect(watchStatePath({ ...options, code: 'b', reference_date: '2026-10-20' })).toBe(path);
+    expect(watchStatePath({ ...options, strict_mode: true, reference_date: '2026-10-19' })).not.toBe(path);
+  });
+
+  it('records the reference date so a restart can reuse it', async () => {
+    const state = await runWatch({
+      query: 'q',
+      intervalMs: HOUR,
+      statePath,
+      referenceDate: '2026-10-19',
+      resolve: async () => makeReport('YES', 0.9),
+      onAlert: () => {},
+      maxRuns: 1,
+      ...fakeClock(),
+    });
+
+    expect(state.reference_date).toBe('2026-10-19');
+    expect(JSON.parse(await readFile(statePath, 'utf8')).reference_date).toBe('2026-10-19');
+  });
+
+  it('stops at the deadline and records failed runs', async () => {
+    const resolve = vi.fn()
+      .mockRejectedValueOnce(new Error('Gateway returned 503 for /step/collect'))
+      .mockResolvedValue(makeReport('YES', 0.9));
+    const errors: string[] = [];
+
+    const state = await runWatch({
+      query: 'q',
+      intervalMs: HOUR,
+      until: new Date('2026-10-19T02:30:00Z'),
+      statePath,
+      resolve,
+      onAlert: () => {},
+      onRun: (_state, _report, error) => {
+        if (error) errors.push(error.message);
+      },
+      ...fakeClock(),
+    });
+
+    // Runs at 00:00, 01:00 and 02:00; the 03:00 run is past the deadline
+    expect(resolve).toHaveBeenCalledTimes(3);
+    expect(errors).toEqual(['Gateway returned 503 for /step/collect']);
+    expect(state.last_error).toBeUndefined();
+  });
+});
+
+describe('postWebhook', () => {
+  const alert = detectChanges('q', snapshot(makeReport('YES', 0.8)), makeReport('NO', 0.8), 't')!;
+
+  it('posts the alert as JSON', async () => {
+    const fetchFn = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+
+    expect(await postWebhook('http://localhost:9000/hook', alert, fetchFn)).toBeUndefined();
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe('http://localhost:9000/hook');
+    expect(JSON.parse(init.body).reasons).toEqual(alert.reasons);
+  });
+
+  it('reports failures instead of throwing', async () => {
+    expect(await postWebhook('http://x', alert, vi.fn().mockResolvedValue({ ok: false, status: 500 })))
+      .toBe('Webhook returned 500');
+    expect(await postWebhook('http://x', alert, vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))))
+      .toBe('Webhook failed: ECONNREFUSED');
+  });
+});